@@ -1,24 +1,76 @@
 
 import React, { useState, useEffect } from 'react';
+import { flushSync } from 'react-dom';
 import { AppMode, AgentTab } from './types';
-import Calculator from './components/Calculator';
+import { ActiveDisguiseShell } from './components/DisguiseShell';
 import AgentDashboard from './components/AgentDashboard';
 import { getAthenaAgent } from './lib/athena-agent';
+import { MathOsCommand } from './lib/command-registry';
+import { getDuressConfig, prepareDuress, runDuressProtocol } from './lib/duress-protocol';
+import { runSilentSOS, resolveSafeDestination } from './lib/silent-sos';
+import { resolveActiveShell, applyShellTitle, DISGUISE_SHELL_INFO } from './lib/disguise';
+import { getCovertOutputConfig, encodeCovertValue } from './lib/covert-output';
+import { fromBase, currencySymbol } from './lib/currency';
+import { getSessionLock } from './lib/session-lock';
+import { getDeadManSwitch } from './lib/dead-man-switch';
 
 export default function App() {
   const [mode, setMode] = useState<AppMode>(AppMode.CALCULATOR);
   const [initialTab, setInitialTab] = useState<AgentTab>('HOME');
 
-  // Flash Message State (for the 9/11= command)
+  // Disguise shell for this launch (installation default or access-code link)
+  const [shell] = useState(() => resolveActiveShell());
+
+  useEffect(() => {
+    applyShellTitle(shell);
+  }, [shell]);
+
+  // Flash Message State (for the FLASH_CHECK / POOL_STATUS commands)
   const [flashMsg, setFlashMsg] = useState<string | null>(null);
 
   // Initialize agent on mount
   const agent = getAthenaAgent();
+  const sessionLock = getSessionLock();
+
+  // An SOS interrupted while locked is finished after the next unlock, to the safe contact
+  useEffect(() => {
+    agent.setSOSDestinationResolver(resolveSafeDestination);
+  }, [agent]);
+
+  // Auto-lock / quick exit while any dashboard is open
+  useEffect(() => {
+    if (mode === AppMode.CALCULATOR) return;
+    sessionLock.arm();
+    return () => sessionLock.disarm();
+  }, [mode, sessionLock]);
+
+  // Dead man's switch: the backend and contract enforce it; this runs it on the device too
+  useEffect(() => {
+    const deadManSwitch = getDeadManSwitch();
+    deadManSwitch.startWatching();
+    return () => deadManSwitch.stopWatching();
+  }, []);
+
+  useEffect(() => {
+    return sessionLock.onLock(() => {
+      // Synchronous so the page is already disguised if it is being snapshotted
+      flushSync(() => {
+        setFlashMsg(null);
+        setMode(AppMode.CALCULATOR);
+      });
+    });
+  }, [sessionLock]);
 
-  const handleCommand = async (cmd: string) => {
+  // Covert output goes into the shell's own display instead of the overlay
+  const isCovertDisplay = () =>
+    DISGUISE_SHELL_INFO[shell].covertDisplay && getCovertOutputConfig().mode === 'DISPLAY';
+
+  // Resolves to covert display output (FLASH_CHECK / POOL_STATUS), otherwise null
+  const handleCommand = async (cmd: MathOsCommand): Promise<string | null> => {
     switch (cmd) {
-      case 'GENESIS': // 1+1=
+      case 'GENESIS':
         // Create anonymous case if not exists
+        await agent.unlock();
         const agentState = agent.getState();
         if (!agentState.case) {
           await agent.createAnonymousCase();
@@ -28,41 +80,64 @@ export default function App() {
         setTimeout(() => setMode(AppMode.AGENT_DASHBOARD), 300);
         break;
 
-      case 'LOGIN': // 1999=
+      case 'LOGIN':
+        // Decrypts state; a wrong key fails closed to an empty dashboard
+        await agent.unlock();
         setInitialTab('HOME');
         setTimeout(() => setMode(AppMode.AGENT_DASHBOARD), 300);
         break;
 
-      case 'FLASH_CHECK': // 9/11=
+      case 'DURESS': {
+        // Looks exactly like LOGIN; protective actions run silently in the background
+        // and the real state never sits in memory behind the decoy
+        const duress = getDuressConfig();
+        const snapshot = await prepareDuress(duress);
+        agent.lock();
+        runDuressProtocol(duress, snapshot).catch(() => { });
+        setInitialTab('HOME');
+        setTimeout(() => setMode(AppMode.DECOY_DASHBOARD), 300);
+        break;
+      }
+
+      case 'FLASH_CHECK':
         // Get real balance from agent
         try {
-          const { balance } = await agent.quickBalanceCheck();
+          const { balance, totalValueUsd } = await agent.quickBalanceCheck();
+          // Covert value is in the display currency, like the overlay
+          if (isCovertDisplay()) return encodeCovertValue(fromBase(totalValueUsd));
           setFlashMsg(balance);
         } catch {
-          setFlashMsg('$---.--');
+          if (isCovertDisplay()) return '0';
+          setFlashMsg(`${currencySymbol()}---.--`);
         }
         setTimeout(() => setFlashMsg(null), 3000);
         break;
 
-      case 'POOL_STATUS': // 7x7=
+      case 'POOL_STATUS':
         // Get pool status from agent
         try {
           const { percentage } = await agent.getPoolStatus();
+          if (isCovertDisplay()) return encodeCovertValue(Math.round(percentage));
           setFlashMsg(`Pool: ${percentage.toFixed(0)}%`);
         } catch {
+          if (isCovertDisplay()) return '0';
           setFlashMsg('Pool: 0%');
         }
         setTimeout(() => setFlashMsg(null), 3000);
         break;
 
-      case 'SOS': // 0/0=
-        // Show alert and optionally trigger quick SOS
-        setFlashMsg('⚠️ ALERT SENT');
-        setTimeout(() => setFlashMsg(null), 2000);
+      case 'SOS':
+        // The calculator keeps showing "Error"; the protocol runs in the background
+        runSilentSOS().catch(() => { });
+        break;
+
+      case 'CHECK_IN':
+        // Proof of life for the dead man's switch - the calculator just shows the sum
+        getDeadManSwitch().checkIn().catch(() => { });
         break;
 
-      case 'WIPE': // ...
-        // Clear agent state and return to calculator
+      case 'WIPE':
+        // Clear agent state and return to the disguise
         agent.clearLocalState();
         setMode(AppMode.CALCULATOR);
         setFlashMsg('CACHE CLEARED');
@@ -72,6 +147,7 @@ export default function App() {
       default:
         break;
     }
+    return null;
   };
 
   return (
@@ -87,11 +163,13 @@ export default function App() {
       )}
 
       {mode === AppMode.CALCULATOR ? (
-        <Calculator onCommand={handleCommand} />
+        <ActiveDisguiseShell shell={shell} onCommand={handleCommand} />
       ) : (
         <AgentDashboard
           startTab={initialTab}
           onWipe={() => handleCommand('WIPE')}
+          decoy={mode === AppMode.DECOY_DASHBOARD}
+          onQuickExit={() => sessionLock.lock('QUICK_EXIT')}
         />
       )}
     </div>
@@ -1,20 +1,33 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { AgentTab, SafeContact } from '../types';
 import { WalletView } from './WalletView';
 import { EscapePlanner } from './EscapePlanner';
 import { EvidenceLocker } from './EvidenceLocker';
 import { PanicButton } from './PanicButton';
 import { SafeDestinationSetup } from './SafeDestinationSetup';
+import { SecretCodesSetup } from './SecretCodesSetup';
+import { DisguiseSetup } from './DisguiseSetup';
+import { AgentPoliciesSetup } from './AgentPoliciesSetup';
+import { DecoyWalletView, DecoyPlanner, DecoyLocker, DecoyPanicButton } from './DecoyViews';
+import { KeyRound, Layers, Bot } from 'lucide-react';
 
 interface AgentDashboardProps {
   startTab?: AgentTab;
   onWipe?: () => void;
+  decoy?: boolean; // Duress unlock: same chrome, no real data
+  onQuickExit?: () => void; // Double-tap on the header
 }
 
-const AgentDashboard: React.FC<AgentDashboardProps> = ({ startTab = 'HOME', onWipe = () => { } }) => {
+const DOUBLE_TAP_MS = 350;
+
+const AgentDashboard: React.FC<AgentDashboardProps> = ({ startTab = 'HOME', onWipe = () => { }, decoy = false, onQuickExit = () => { } }) => {
   const [tab, setTab] = useState<AgentTab>(startTab);
   const [showSettings, setShowSettings] = useState(false);
+  const [showCodes, setShowCodes] = useState(false);
+  const [showDisguise, setShowDisguise] = useState(false);
+  const [showPolicies, setShowPolicies] = useState(false);
+  const lastHeaderTap = useRef(0);
 
   // State for the Safe Contact (lifted here so PanicButton can access it)
   const [safeContact, setSafeContact] = useState<SafeContact | null>(null);
@@ -23,8 +36,10 @@ const AgentDashboard: React.FC<AgentDashboardProps> = ({ startTab = 'HOME', onWi
     if (startTab) setTab(startTab);
   }, [startTab]);
 
-  // Load safe contact from Firestore on mount
+  // Load safe contact from Firestore on mount (never in decoy mode)
   useEffect(() => {
+    if (decoy) return;
+
     let unsubscribe: any;
 
     const setupListener = async () => {
@@ -55,8 +70,10 @@ const AgentDashboard: React.FC<AgentDashboardProps> = ({ startTab = 'HOME', onWi
             // Convert SafeContactInfo to SafeContact format
             setSafeContact({
               name: contact.name,
-              method: contact.withdrawalMethod === 'WALLET' ? 'CODE' : 'TRUSTED_ALLY',
-              addressOrDetails: contact.walletAddress || contact.phoneNumber || contact.contactInfo || ''
+              method: contact.withdrawalMethod === 'WALLET' ? 'CRYPTO_WALLET'
+                : contact.withdrawalMethod === 'CASH_CODE' ? 'CASH_CODE' : 'TRUSTED_ALLY',
+              addressOrDetails: contact.walletAddress || contact.phoneNumber || contact.contactInfo || '',
+              preferredAsset: contact.preferredAsset
             });
           } else {
             setSafeContact(null);
@@ -72,11 +89,53 @@ const AgentDashboard: React.FC<AgentDashboardProps> = ({ startTab = 'HOME', onWi
     return () => {
       if (unsubscribe) unsubscribe();
     };
-  }, []);
+  }, [decoy]);
+
+  // Quick exit: two taps on the header (not on its buttons)
+  const handleHeaderTap = (e: React.MouseEvent) => {
+    if ((e.target as HTMLElement).closest('button')) return;
+    const now = Date.now();
+    if (now - lastHeaderTap.current < DOUBLE_TAP_MS) {
+      lastHeaderTap.current = 0;
+      onQuickExit();
+      return;
+    }
+    lastHeaderTap.current = now;
+  };
 
   const handleSaveContact = (contact: SafeContact) => {
     setSafeContact(contact);
     setShowSettings(false);
+    if (!decoy) persistContact(contact);
+  };
+
+  // Keep the Firestore contact (and the SOS swap preference) in line with the settings
+  const persistContact = async (contact: SafeContact) => {
+    const { auth, saveSafeContact } = await import('../lib/firebase');
+    const user = auth.currentUser;
+    if (!user) return;
+
+    const isWallet = /^0x[0-9a-fA-F]{40}$/.test(contact.addressOrDetails);
+    const withdrawalMethod = contact.method === 'CASH_CODE' ? 'CASH_CODE'
+      : contact.method === 'CRYPTO_WALLET' || isWallet ? 'WALLET' : 'PHONE';
+    const contactData: any = {
+      name: contact.name,
+      relationship: contact.method === 'TRUSTED_ALLY' ? 'Trusted ally' : 'Safe destination',
+      withdrawalMethod,
+      contactInfo: contact.addressOrDetails,
+      preferredAsset: contact.preferredAsset || null
+    };
+
+    // Only add specific fields if they have values (Firestore doesn't accept undefined)
+    if (withdrawalMethod === 'WALLET') {
+      contactData.walletAddress = contact.addressOrDetails;
+    } else if (withdrawalMethod === 'PHONE') {
+      contactData.phoneNumber = contact.addressOrDetails;
+    } else {
+      contactData.fullName = contact.name;
+    }
+
+    await saveSafeContact(user.uid, contactData);
   };
 
   return (
@@ -91,8 +150,20 @@ const AgentDashboard: React.FC<AgentDashboardProps> = ({ startTab = 'HOME', onWi
         />
       )}
 
+      {/* Secret Codes Modal */}
+      {showCodes && <SecretCodesSetup decoy={decoy} onClose={() => setShowCodes(false)} />}
+
+      {/* Disguise Modal */}
+      {showDisguise && <DisguiseSetup decoy={decoy} onClose={() => setShowDisguise(false)} />}
+
+      {/* Agent Rules Modal */}
+      {showPolicies && <AgentPoliciesSetup decoy={decoy} onClose={() => setShowPolicies(false)} />}
+
       {/* Header */}
-      <div className="h-16 border-b border-neutral-800 flex items-center justify-between px-6 bg-neutral-900/50 backdrop-blur-md sticky top-0 z-20">
+      <div
+        onClick={handleHeaderTap}
+        className="h-16 border-b border-neutral-800 flex items-center justify-between px-6 bg-neutral-900/50 backdrop-blur-md sticky top-0 z-20 select-none"
+      >
         <div className="flex items-center gap-2">
           <div className="w-8 h-8 rounded-full bg-gradient-to-tr from-athena-500 to-purple-600 flex items-center justify-center font-bold font-serif text-xl shadow-lg shadow-athena-500/20">A</div>
           <span className="font-bold tracking-wide">ATHENA</span>
@@ -100,15 +171,47 @@ const AgentDashboard: React.FC<AgentDashboardProps> = ({ startTab = 'HOME', onWi
         <div className="flex items-center gap-2">
           <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
           <span className="text-[10px] text-gray-400 font-mono">ADK-TS ONLINE</span>
+          <button
+            onClick={() => setShowCodes(true)}
+            className="ml-2 p-2 rounded-full text-gray-500 hover:text-white hover:bg-neutral-800 transition"
+            title="Secret codes"
+          >
+            <KeyRound className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setShowDisguise(true)}
+            className="p-2 rounded-full text-gray-500 hover:text-white hover:bg-neutral-800 transition"
+            title="Disguise"
+          >
+            <Layers className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setShowPolicies(true)}
+            className="p-2 rounded-full text-gray-500 hover:text-white hover:bg-neutral-800 transition"
+            title="Agent rules"
+          >
+            <Bot className="w-4 h-4" />
+          </button>
         </div>
       </div>
 
       {/* Main Content */}
       <div className="flex-1 overflow-hidden relative">
-        {tab === 'HOME' && <WalletView onOpenSettings={() => setShowSettings(true)} />}
-        {tab === 'PLAN' && <EscapePlanner />}
-        {tab === 'EVIDENCE' && <EvidenceLocker />}
-        {tab === 'SOS' && <PanicButton safeContact={safeContact} onWipeComplete={onWipe} />}
+        {decoy ? (
+          <>
+            {tab === 'HOME' && <DecoyWalletView onOpenSettings={() => setShowSettings(true)} />}
+            {tab === 'PLAN' && <DecoyPlanner />}
+            {tab === 'EVIDENCE' && <DecoyLocker />}
+            {tab === 'SOS' && <DecoyPanicButton />}
+          </>
+        ) : (
+          <>
+            {tab === 'HOME' && <WalletView onOpenSettings={() => setShowSettings(true)} />}
+            {tab === 'PLAN' && <EscapePlanner onNavigate={setTab} />}
+            {tab === 'EVIDENCE' && <EvidenceLocker />}
+            {tab === 'SOS' && <PanicButton safeContact={safeContact} onWipeComplete={onWipe} />}
+          </>
+        )}
       </div>
 
       {/* Navigation */}
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Bot, Loader2 } from 'lucide-react';
+import { getAthenaAgent } from '../lib/athena-agent';
+import {
+  AgentPolicyConfig,
+  PolicyRun,
+  AGENT_POLICY_LABELS,
+  DEFAULT_AGENT_POLICY_CONFIG,
+  getAgentPolicyConfig,
+  saveAgentPolicyConfig
+} from '../lib/agent-policies';
+
+interface Props {
+  onClose: () => void;
+  decoy?: boolean; // Opened from the decoy dashboard: show defaults, persist nothing
+}
+
+const STAKE_THRESHOLDS = [25, 50, 100, 250];
+
+export const AgentPoliciesSetup: React.FC<Props> = ({ onClose, decoy = false }) => {
+  const [config, setConfig] = useState<AgentPolicyConfig>(() => decoy ? DEFAULT_AGENT_POLICY_CONFIG : getAgentPolicyConfig());
+  const [simulation, setSimulation] = useState<PolicyRun | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+
+  // Dry run of the draft: shows what the agent would do right now
+  const handleSimulate = async () => {
+    if (decoy) {
+      setSimulation({ timestamp: Date.now(), dryRun: true, results: [] });
+      return;
+    }
+    setIsSimulating(true);
+    try {
+      setSimulation(await getAthenaAgent().runPolicies({ dryRun: true, config }));
+    } catch (e) {
+      console.warn('[AgentPoliciesSetup] Simulation failed:', e);
+    } finally {
+      setIsSimulating(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!decoy) {
+      saveAgentPolicyConfig(config);
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-neutral-900 border border-neutral-700 w-full max-w-md rounded-2xl p-6 shadow-2xl relative max-h-full overflow-y-auto">
+
+        {/* Header */}
+        <div className="text-center mb-6">
+          <div className="w-12 h-12 bg-athena-900/50 rounded-full flex items-center justify-center mx-auto mb-3 border border-athena-500/30">
+            <Bot className="w-6 h-6 text-athena-500" />
+          </div>
+          <h2 className="text-xl font-bold text-white">Agent Rules</h2>
+          <p className="text-sm text-gray-400 mt-1">
+            Things Athena may do on its own while the app is open. Nothing runs unless you turn it on.
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          {/* Auto-stake */}
+          <div className="bg-black/40 border border-neutral-800 rounded-xl p-3">
+            <label className="flex items-center gap-2 text-sm text-white">
+              <input
+                type="checkbox"
+                checked={config.autoStake.enabled}
+                onChange={e => setConfig(prev => ({ ...prev, autoStake: { ...prev.autoStake, enabled: e.target.checked } }))}
+                className="accent-athena-500"
+              />
+              {AGENT_POLICY_LABELS.AUTO_STAKE}
+            </label>
+            <div className="mt-2 flex items-center gap-2">
+              <span className="text-[10px] text-gray-500">When idle FRAX reaches</span>
+              {STAKE_THRESHOLDS.map(amount => (
+                <button
+                  key={amount}
+                  onClick={() => setConfig(prev => ({ ...prev, autoStake: { ...prev.autoStake, minIdleFrax: amount } }))}
+                  className={`px-2 py-1 rounded-lg text-[10px] font-mono transition ${config.autoStake.minIdleFrax === amount
+                    ? 'bg-athena-600 text-white'
+                    : 'text-gray-500 hover:text-white hover:bg-neutral-800'
+                    }`}
+                >
+                  ${amount}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Goal alert */}
+          <div className="bg-black/40 border border-neutral-800 rounded-xl p-3">
+            <label className="flex items-center gap-2 text-sm text-white">
+              <input
+                type="checkbox"
+                checked={config.goalAlert.enabled}
+                onChange={e => setConfig(prev => ({ ...prev, goalAlert: { ...prev.goalAlert, enabled: e.target.checked } }))}
+                className="accent-athena-500"
+              />
+              {AGENT_POLICY_LABELS.GOAL_ALERT}
+            </label>
+          </div>
+
+          {/* Dry run */}
+          <button
+            onClick={handleSimulate}
+            disabled={isSimulating}
+            className="w-full flex items-center justify-center gap-2 py-2 rounded-xl text-xs font-mono text-athena-400 border border-athena-500/30 hover:bg-athena-900/30 transition disabled:opacity-50"
+          >
+            {isSimulating && <Loader2 className="w-3 h-3 animate-spin" />}
+            SIMULATE NOW
+          </button>
+
+          {simulation && (
+            <div className="bg-black/40 border border-neutral-800 rounded-xl p-3 space-y-1">
+              {simulation.results.length === 0 ? (
+                <p className="text-[10px] text-gray-500">No rules enabled - nothing would happen.</p>
+              ) : simulation.results.map(result => (
+                <p key={result.policy} className="text-[10px] font-mono text-gray-400">
+                  <span className={result.action === 'NONE' ? 'text-gray-500' : 'text-athena-400'}>
+                    {result.action === 'NONE' ? 'WAIT' : `WOULD ${result.action}`}
+                  </span>{' '}
+                  {result.reason}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="mt-6 flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 rounded-xl font-medium text-gray-400 hover:bg-neutral-800 transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex-1 bg-athena-600 hover:bg-athena-500 text-white py-3 rounded-xl font-bold transition shadow-lg shadow-athena-900/20"
+          >
+            Approve
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -3,18 +3,47 @@ import React, { useState, useEffect, useRef } from 'react';
 import { User, LogOut } from 'lucide-react';
 import { AuthModal } from './AuthModal';
 import { AthenaUser, onAuthChange, logoutUser, getCurrentUser } from '../lib/firebase';
+import { getCommandRegistry, LegendEntry, MathOsCommand, DEFAULT_SEQUENCES } from '../lib/command-registry';
+import { CommandDetector } from '../lib/command-detector';
+import { CalculatorKey, CalculatorState, createCalculatorState, pressKey, ERROR_DISPLAY } from '../lib/calculator-engine';
+import { CommandHandler } from './DisguiseShell';
 
 interface CalculatorProps {
-  onCommand: (command: string) => void;
+  onCommand: CommandHandler;
 }
 
+// What the display shows after a command fires (undefined = leave as is)
+const COMMAND_DISPLAY: Partial<Record<MathOsCommand, string>> = {
+  FLASH_CHECK: '0',
+  POOL_STATUS: '0',
+  SOS: 'Error',
+  WIPE: '0'
+};
+
+// Commands that leave no trace: the final key is still computed normally
+const SILENT_COMMANDS: MathOsCommand[] = ['CHECK_IN'];
+
+// Short labels painted over the first key of a factory code
+const GHOST_LABELS: Partial<Record<MathOsCommand, string>> = {
+  GENESIS: 'GENESIS',
+  FLASH_CHECK: 'FLASH',
+  POOL_STATUS: 'POOL',
+  SOS: 'SOS'
+};
+
 const Calculator: React.FC<CalculatorProps> = ({ onCommand }) => {
-  const [display, setDisplay] = useState('0');
-  const [inputBuffer, setInputBuffer] = useState('');
+  const [calculator, setCalculator] = useState<CalculatorState>(() => createCalculatorState());
   const [showManual, setShowManual] = useState(false);
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [currentUser, setCurrentUser] = useState<AthenaUser | null>(null);
+  const [legend, setLegend] = useState<LegendEntry[]>([]);
   const pressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const registry = getCommandRegistry();
+  const calculatorRef = useRef<CalculatorState>(calculator);
+  const detector = useRef(new CommandDetector(registry));
+  const pressQueue = useRef<Promise<void>>(Promise.resolve());
+  const pressCount = useRef(0);
+  const covertShown = useRef(false);
 
   // Listen for auth state changes
   useEffect(() => {
@@ -29,95 +58,76 @@ const Calculator: React.FC<CalculatorProps> = ({ onCommand }) => {
     return () => unsubscribe();
   }, []);
 
-  // Math-OS Command Map
-  // 1+1=  -> Genesis (Onboarding)
-  // 1999= -> Admin Login
-  // 9÷11= -> Flash Check
-  // 0÷0=  -> SOS
-  // 7x7=  -> Pool Status
-  // %=    -> Toggle Legend (NEW)
-  // ...   -> Wipe
-
-  const handlePress = (val: string) => {
-    let newDisplay = display;
-    let newBuffer = inputBuffer + val;
-
-    // Special case for "..." (Wipe)
-    if (val === '.') {
-      if (display.endsWith('..')) {
-        onCommand('WIPE');
-        setDisplay('0');
-        setInputBuffer('');
-        return;
-      }
+  // Legend rows come from the command registry (codes are user-configurable)
+  useEffect(() => {
+    let cancelled = false;
+    registry.whenReady().then(() => {
+      if (!cancelled) setLegend(registry.getLegend());
+    });
+    return () => { cancelled = true; };
+  }, [registry, showManual]);
+
+  // Key presses are processed strictly in order: command detection is async
+  const processKey = async (key: CalculatorKey, pressId: number) => {
+    // Covert output only lives until the next key press
+    if (covertShown.current) {
+      covertShown.current = false;
+      updateCalculator(createCalculatorState(calculatorRef.current.memory));
     }
 
-    if (val === 'C') {
-      newDisplay = '0';
-      newBuffer = '';
-    } else if (val === '=') {
-      // Check for Commands BEFORE evaluating math
-
-      // 1. Toggle Legend Command
-      if (newBuffer === '%=' || display === '%') {
-        setShowManual(prev => !prev);
-        setDisplay('0');
-        setInputBuffer('');
-        return;
-      }
+    // 1. Secret command layer - checked BEFORE the key reaches the engine
+    const detected = await detector.current.push(key);
 
-      // 2. Standard Commands
-      if (newBuffer === '1+1=') {
-        onCommand('GENESIS');
-        return;
-      }
-      if (newBuffer === '1999=') {
-        onCommand('LOGIN');
-        return;
-      }
-      if (newBuffer === '9÷11=') {
-        onCommand('FLASH_CHECK');
-        setDisplay('0');
-        setInputBuffer('');
-        return;
-      }
-      if (newBuffer === '0÷0=') {
-        onCommand('SOS');
-        setDisplay('Error');
-        setInputBuffer('');
-        return;
-      }
-      if (newBuffer === '7x7=') {
-        onCommand('POOL_STATUS');
-        setDisplay('0');
-        setInputBuffer('');
-        return;
-      }
+    if (detected === 'TOGGLE_LEGEND') {
+      setShowManual(prev => !prev);
+      updateCalculator(createCalculatorState(calculatorRef.current.memory));
+      return;
+    }
 
-      try {
-        // Standard Math
-        // Sanitizing input: replace visual operators with JS operators
-        // Handle % as /100 for standard math if it appears in a number context (e.g. 50%)
-        let expression = display
-          .replace(/x/g, '*')
-          .replace(/÷/g, '/')
-          .replace(/%/g, '/100');
-
-        // eslint-disable-next-line no-eval
-        newDisplay = eval(expression).toString();
-      } catch (e) {
-        newDisplay = 'Error';
+    if (detected) {
+      const pending = onCommand(detected);
+      if (pending) {
+        // Not awaited: the keypad must stay responsive while the balance loads
+        pending.then(output => showCovertOutput(output, pressId)).catch(() => { });
       }
-    } else {
-      if (display === '0' || display === 'Error') {
-        newDisplay = val;
-      } else {
-        newDisplay += val;
+      const nextDisplay = COMMAND_DISPLAY[detected];
+      if (nextDisplay !== undefined) {
+        updateCalculator({
+          ...createCalculatorState(calculatorRef.current.memory),
+          display: nextDisplay,
+          error: nextDisplay === ERROR_DISPLAY
+        });
+      } else if (SILENT_COMMANDS.includes(detected)) {
+        updateCalculator(pressKey(calculatorRef.current, key));
       }
+      return;
     }
 
-    setDisplay(newDisplay);
-    setInputBuffer(newBuffer);
+    // 2. Ordinary arithmetic
+    updateCalculator(pressKey(calculatorRef.current, key));
+  };
+
+  // Looks like the result of the sum that was just typed
+  const showCovertOutput = (output: string | null, pressId: number) => {
+    if (output === null || pressCount.current !== pressId) return;
+    covertShown.current = true;
+    updateCalculator({
+      ...createCalculatorState(calculatorRef.current.memory),
+      display: output,
+      justEvaluated: true
+    });
+  };
+
+  const updateCalculator = (next: CalculatorState) => {
+    calculatorRef.current = next;
+    setCalculator(next);
+  };
+
+  const handlePress = (key: CalculatorKey) => {
+    const pressId = ++pressCount.current;
+    pressQueue.current = pressQueue.current
+      .then(() => processKey(key, pressId))
+      .catch(e => console.error('[Calculator] Key handling failed:', e));
   };
 
   // Hidden Manual Logic (Hold to show, release to hide)
@@ -146,9 +156,15 @@ const Calculator: React.FC<CalculatorProps> = ({ onCommand }) => {
   const orangeBtn = "bg-orange-500 text-white";
   const darkBtn = "bg-neutral-800 text-white";
 
+  // Custom codes must not be hinted on the keypad - only factory codes get ghost labels
+  const ghostLabelFor = (key: string): string | undefined => {
+    const entry = legend.find(e => e.isDefault && GHOST_LABELS[e.command] && DEFAULT_SEQUENCES[e.command]?.[0] === key);
+    return entry ? GHOST_LABELS[entry.command] : undefined;
+  };
+
   // Manual Overlay Component
-  const GhostLabel = ({ text }: { text: string }) => (
-    showManual ? (
+  const GhostLabel = ({ text }: { text?: string }) => (
+    showManual && text ? (
       <span className="absolute inset-0 flex items-center justify-center text-[10px] uppercase font-bold text-athena-500/80 bg-black/80 rounded-full animate-pulse z-10 pointer-events-none">
         {text}
       </span>
@@ -222,34 +238,20 @@ const Calculator: React.FC<CalculatorProps> = ({ onCommand }) => {
                 <span className="w-2 h-2 rounded-full bg-athena-500 animate-pulse"></span>
               </div>
               <ul className="space-y-2 font-mono text-[10px] text-gray-400">
-                <li className="flex justify-between items-center border-b border-white/5 pb-1">
-                  <span className="text-white font-bold text-xs">1 + 1 =</span>
-                  <span className="text-athena-200">Genesis Setup</span>
-                </li>
-                <li className="flex justify-between items-center border-b border-white/5 pb-1">
-                  <span className="text-white font-bold text-xs">1999 =</span>
-                  <span className="text-athena-200">Unlock Vault</span>
-                </li>
-                <li className="flex justify-between items-center border-b border-white/5 pb-1">
-                  <span className="text-white font-bold text-xs">9 ÷ 11 =</span>
-                  <span className="text-athena-200">Flash Balance</span>
-                </li>
-                <li className="flex justify-between items-center border-b border-white/5 pb-1">
-                  <span className="text-white font-bold text-xs">7 x 7 =</span>
-                  <span className="text-athena-200">Pool Status</span>
-                </li>
-                <li className="flex justify-between items-center border-b border-white/5 pb-1">
+                {legend.map(entry => (
+                  <li key={entry.command} className="flex justify-between items-center border-b border-white/5 pb-1">
+                    <span className={`font-bold text-xs ${entry.tone === 'danger' ? 'text-red-500' : entry.tone === 'warning' ? 'text-orange-500' : 'text-white'}`}>
+                      {entry.sequence}
+                    </span>
+                    <span className={entry.tone === 'danger' ? 'text-red-400 font-bold' : entry.tone === 'warning' ? 'text-orange-400' : 'text-athena-200'}>
+                      {entry.label}
+                    </span>
+                  </li>
+                ))}
+                <li className="flex justify-between items-center">
                   <span className="text-white font-bold text-xs">% =</span>
                   <span className="text-athena-200">Toggle Legend</span>
                 </li>
-                <li className="flex justify-between items-center border-b border-white/5 pb-1">
-                  <span className="text-red-500 font-bold text-xs">0 ÷ 0 =</span>
-                  <span className="text-red-400 font-bold">TRIGGER SOS</span>
-                </li>
-                <li className="flex justify-between items-center">
-                  <span className="text-orange-500 font-bold text-xs">...</span>
-                  <span className="text-orange-400">Wipe Cache</span>
-                </li>
               </ul>
             </div>
           </div>
@@ -259,9 +261,14 @@ const Calculator: React.FC<CalculatorProps> = ({ onCommand }) => {
       {/* Display */}
       <div className="flex-1 flex items-end justify-end p-6 relative mt-12">
         <span className={`text-6xl font-light text-white tracking-tight break-all transition-opacity duration-300 ${showManual ? 'opacity-10 blur-sm' : 'opacity-100'}`}>
-          {display}
+          {calculator.display}
         </span>
 
+        {/* Memory Indicator */}
+        {calculator.memory !== 0 && (
+          <span className="absolute bottom-8 left-6 text-sm text-gray-500 font-medium select-none">M</span>
+        )}
+
         {/* Help Hint */}
         {!showManual && (
           <div className="absolute top-0 left-0 p-4 text-[10px] text-gray-500 font-mono select-none tracking-widest uppercase opacity-60">
@@ -279,6 +286,18 @@ const Calculator: React.FC<CalculatorProps> = ({ onCommand }) => {
 
       {/* Buttons */}
       <div className="flex flex-col items-center">
+        {/* Memory Row */}
+        <div className="flex">
+          {(['MC', 'M+', 'M-', 'MR'] as CalculatorKey[]).map(key => (
+            <button
+              key={key}
+              onClick={() => handlePress(key)}
+              className="h-10 w-20 mx-2 rounded-full text-sm font-medium text-gray-400 bg-neutral-900 transition active:opacity-70 select-none"
+            >
+              {key}
+            </button>
+          ))}
+        </div>
         {/* Row 1 */}
         <div className="flex">
           <button onClick={() => handlePress('C')} className={`${btnClass} ${grayBtn}`}>C</button>
@@ -293,12 +312,12 @@ const Calculator: React.FC<CalculatorProps> = ({ onCommand }) => {
         <div className="flex">
           <button onClick={() => handlePress('7')} className={`${btnClass} ${darkBtn}`}>
             7
-            <GhostLabel text="POOL" />
+            <GhostLabel text={ghostLabelFor('7')} />
           </button>
           <button onClick={() => handlePress('8')} className={`${btnClass} ${darkBtn}`}>8</button>
           <button onClick={() => handlePress('9')} className={`${btnClass} ${darkBtn}`}>
             9
-            <GhostLabel text="FLASH" />
+            <GhostLabel text={ghostLabelFor('9')} />
           </button>
           <button onClick={() => handlePress('x')} className={`${btnClass} ${orangeBtn}`}>x</button>
         </div>
@@ -313,7 +332,7 @@ const Calculator: React.FC<CalculatorProps> = ({ onCommand }) => {
         <div className="flex">
           <button onClick={() => handlePress('1')} className={`${btnClass} ${darkBtn}`}>
             1
-            <GhostLabel text="GENESIS" />
+            <GhostLabel text={ghostLabelFor('1')} />
           </button>
           <button onClick={() => handlePress('2')} className={`${btnClass} ${darkBtn}`}>2</button>
           <button onClick={() => handlePress('3')} className={`${btnClass} ${darkBtn}`}>3</button>
@@ -323,7 +342,7 @@ const Calculator: React.FC<CalculatorProps> = ({ onCommand }) => {
         <div className="flex">
           <button onClick={() => handlePress('0')} className={`${btnClass} ${darkBtn} !w-[calc(160px+16px)]`}>
             0
-            <GhostLabel text="SOS" />
+            <GhostLabel text={ghostLabelFor('0')} />
           </button>
           <button
             onClick={() => handlePress('.')}
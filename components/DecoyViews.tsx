@@ -0,0 +1,224 @@
+/**
+ * Decoy Dashboard Views
+ *
+ * Shown when the app is unlocked with the duress code. They mirror the
+ * look of the real tabs but never touch the agent, the vault or Firestore:
+ * everything here is empty or lives only in component state.
+ */
+
+import React, { useState } from 'react';
+import { RefreshCw, Settings, TrendingUp, Users, CreditCard, AlertTriangle, Cpu, CloudOff, WifiOff } from 'lucide-react';
+import { EvidenceType } from '../types';
+
+const DECOY_GREETING = "Hello 💜 I'm Athena. How are you feeling right now? Are you in a safe place to talk?";
+
+export const DecoyWalletView: React.FC<{ onOpenSettings: () => void }> = ({ onOpenSettings }) => (
+  <div className="p-6 space-y-6 h-full overflow-y-auto pb-24">
+    <div className="flex justify-between items-center">
+      <div className="flex items-center gap-3">
+        <h2 className="text-2xl font-bold text-athena-500">Freedom Vault</h2>
+        <div className="flex items-center gap-1.5 px-2 py-1 rounded-full text-[10px] font-mono bg-yellow-500/20 text-yellow-400">
+          <div className="w-1.5 h-1.5 rounded-full bg-yellow-500 animate-pulse" />
+          CONNECTING...
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <button className="w-10 h-10 rounded-full bg-neutral-800 flex items-center justify-center text-gray-400 hover:text-white hover:bg-neutral-700 transition">
+          <RefreshCw className="w-5 h-5" />
+        </button>
+        <button
+          onClick={onOpenSettings}
+          className="w-10 h-10 rounded-full bg-neutral-800 flex items-center justify-center text-gray-400 hover:text-white hover:bg-neutral-700 transition"
+        >
+          <Settings className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+
+    <div className="bg-gradient-to-br from-athena-900 to-athena-800 p-6 rounded-3xl shadow-2xl border border-athena-600 relative overflow-hidden">
+      <div className="absolute top-0 right-0 w-32 h-32 bg-athena-500/10 rounded-full blur-3xl -mr-10 -mt-10"></div>
+      <div className="relative z-10">
+        <p className="text-athena-100 text-sm font-medium opacity-80">Total Freedom Funds</p>
+        <h3 className="text-5xl font-bold text-white mt-2 tracking-tight">$0.00</h3>
+        <div className="mt-6">
+          <div className="flex justify-between text-xs font-semibold mb-2">
+            <span className="text-athena-200">0% of Goal</span>
+            <span className="text-athena-200/60">$0 Goal</span>
+          </div>
+          <div className="w-full bg-black/30 h-3 rounded-full overflow-hidden backdrop-blur-sm" />
+        </div>
+      </div>
+    </div>
+
+    <div className="bg-neutral-900/50 p-5 rounded-3xl border border-neutral-800">
+      <h4 className="text-gray-400 text-xs uppercase tracking-wider font-bold mb-4 ml-1">Funding Sources</h4>
+      <div className="space-y-4">
+        {[
+          { icon: <Users className="w-6 h-6" />, iconClass: 'bg-purple-500/20 text-purple-400', textClass: 'text-purple-400', title: 'Community Angels', subtitle: 'No donors yet', value: '+$0.00' },
+          { icon: <TrendingUp className="w-6 h-6" />, iconClass: 'bg-green-500/20 text-green-400', textClass: 'text-green-400', title: 'Yield Earned (sFRAX)', subtitle: 'Stablecoin Growth', value: '+$0.0000' },
+          { icon: <CreditCard className="w-6 h-6" />, iconClass: 'bg-blue-500/20 text-blue-400', textClass: 'text-blue-400', title: 'My Savings', subtitle: 'Encrypted Deposits', value: '+$0.00' }
+        ].map(row => (
+          <div key={row.title} className="flex items-center justify-between p-3 hover:bg-white/5 rounded-xl transition">
+            <div className="flex items-center gap-4">
+              <div className={`w-10 h-10 rounded-full ${row.iconClass} flex items-center justify-center`}>
+                {row.icon}
+              </div>
+              <div>
+                <p className="text-white font-medium text-sm">{row.title}</p>
+                <p className={`text-xs ${row.textClass}`}>{row.subtitle}</p>
+              </div>
+            </div>
+            <span className="text-white font-mono font-bold">{row.value}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  </div>
+);
+
+export const DecoyPlanner: React.FC = () => {
+  const [messages, setMessages] = useState<{ role: 'user' | 'model'; text: string }[]>([
+    { role: 'model', text: DECOY_GREETING }
+  ]);
+  const [inputText, setInputText] = useState('');
+
+  const handleSend = () => {
+    if (!inputText.trim()) return;
+    setMessages(prev => [
+      ...prev,
+      { role: 'user', text: inputText },
+      { role: 'model', text: 'Connection interrupted. Please try again.' }
+    ]);
+    setInputText('');
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-neutral-950">
+      <div className="p-4 border-b border-neutral-800 bg-neutral-900/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="flex justify-between items-start">
+          <div>
+            <h2 className="text-lg font-bold text-white flex items-center gap-2">
+              <span className="w-2 h-2 bg-athena-500 rounded-full animate-pulse"></span>
+              Athena Planner
+            </h2>
+            <p className="text-[10px] text-gray-500 font-mono uppercase tracking-wider">Secure Agent • Encrypted</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="flex items-center gap-1 px-2 py-1 rounded-full text-[10px] font-mono bg-yellow-500/20 text-yellow-400">
+              <CloudOff className="w-3 h-3" />
+              LOCAL
+            </div>
+            <div className="flex items-center gap-1.5 px-2 py-1 rounded-full text-[10px] font-mono bg-purple-500/20 text-purple-400">
+              <Cpu className="w-3 h-3" />
+              ADK-TS
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {messages.map((msg, i) => (
+          <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[85%] rounded-2xl p-4 text-sm leading-relaxed shadow-sm ${msg.role === 'user'
+              ? 'bg-athena-600 text-white rounded-br-none'
+              : 'bg-neutral-800 text-gray-200 rounded-bl-none border border-neutral-700'
+              }`}>
+              {msg.text}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-4 bg-neutral-900 border-t border-neutral-800">
+        <div className="flex gap-2">
+          <input
+            value={inputText}
+            onChange={e => setInputText(e.target.value)}
+            onKeyPress={e => { if (e.key === 'Enter') handleSend(); }}
+            placeholder="Type here..."
+            className="flex-1 bg-black border border-neutral-700 rounded-xl px-4 py-3 text-white focus:border-athena-500 outline-none transition placeholder-gray-600"
+          />
+          <button
+            onClick={handleSend}
+            disabled={!inputText.trim()}
+            className="bg-athena-600 hover:bg-athena-500 disabled:opacity-50 disabled:cursor-not-allowed text-white p-3 rounded-xl transition shadow-lg shadow-athena-900/50"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 12h14M12 5l7 7-7 7" /></svg>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const DecoyLocker: React.FC = () => {
+  const [activeTab, setActiveTab] = useState<EvidenceType>('TEXT');
+
+  return (
+    <div className="flex flex-col h-full bg-neutral-950">
+      <div className="p-6 pb-0">
+        <div className="flex justify-between items-start mb-2">
+          <h2 className="text-2xl font-bold text-athena-500">Immutable Locker</h2>
+          <div className="flex items-center gap-1.5 px-2 py-1 rounded-full text-[10px] font-mono bg-yellow-500/20 text-yellow-400">
+            <WifiOff className="w-3 h-3" />
+            PENDING
+          </div>
+        </div>
+        <p className="text-gray-400 text-xs mb-4">
+          Data logged here is hashed on-chain and analyzed by Gemini 2.5 Forensic AI.
+        </p>
+        <div className="flex bg-neutral-900 p-1 rounded-xl mb-6 border border-neutral-800 overflow-x-auto">
+          {(['TEXT', 'IMAGE', 'VIDEO', 'AUDIO'] as EvidenceType[]).map(tab => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`flex-1 min-w-[60px] py-2 text-[10px] font-bold rounded-lg transition ${activeTab === tab
+                ? 'bg-athena-600 text-white shadow-lg'
+                : 'text-gray-500 hover:text-white'
+                }`}
+            >
+              {tab}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex-1 flex items-center justify-center text-gray-600 text-sm">
+        No evidence recorded yet.
+      </div>
+    </div>
+  );
+};
+
+export const DecoyPanicButton: React.FC = () => {
+  const [notice, setNotice] = useState(false);
+
+  return (
+    <div className="h-full flex flex-col items-center justify-center p-6 relative overflow-hidden">
+      <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-64 h-64 bg-red-900/20 rounded-full blur-3xl animate-pulse"></div>
+
+      <div className="relative group cursor-pointer" onClick={() => setNotice(true)}>
+        <div className="absolute -inset-1 bg-red-600 rounded-full blur opacity-25 group-hover:opacity-75 transition duration-1000 group-hover:duration-200"></div>
+        <button className="relative w-56 h-56 bg-gradient-to-br from-neutral-900 to-black rounded-full border-4 border-red-600/50 shadow-2xl flex flex-col items-center justify-center transform group-hover:scale-105 transition active:scale-95">
+          <AlertTriangle className="w-16 h-16 text-red-600 mb-2" strokeWidth={1.5} />
+          <span className="text-3xl font-black text-white tracking-[0.2em]">SOS</span>
+          <span className="text-[10px] text-red-500 mt-1 uppercase tracking-wider">Emergency Protocol</span>
+        </button>
+      </div>
+
+      <div className="mt-12 text-center space-y-4 max-w-xs">
+        <div className="bg-neutral-900 p-4 rounded-xl border border-neutral-800">
+          <p className="text-gray-400 text-xs uppercase font-bold mb-1">Target Destination</p>
+          <div className="flex items-center justify-center gap-2 text-white">
+            <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></div>
+            <span className="text-red-400">Not Configured</span>
+          </div>
+        </div>
+        <p className="text-gray-500 text-xs">
+          {notice
+            ? 'Set a safe destination in Vault settings before using SOS.'
+            : 'Press to instantly liquidate funds and transfer to safe destination. App data will be wiped.'}
+        </p>
+      </div>
+    </div>
+  );
+};
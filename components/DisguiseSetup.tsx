@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { Layers, Copy, Check } from 'lucide-react';
+import {
+  DisguiseShellId,
+  DISGUISE_SHELL_INFO,
+  getDisguiseConfig,
+  saveDisguiseConfig,
+  createAccessCode,
+  getAccessCodeFor,
+  getAccessLink
+} from '../lib/disguise';
+
+interface Props {
+  onClose: () => void;
+  decoy?: boolean; // Opened from the decoy dashboard: show defaults, persist nothing
+}
+
+export const DisguiseSetup: React.FC<Props> = ({ onClose, decoy = false }) => {
+  const [defaultShell, setDefaultShell] = useState<DisguiseShellId>(() => decoy ? 'CALCULATOR' : getDisguiseConfig().defaultShell);
+  const [links, setLinks] = useState<Partial<Record<DisguiseShellId, string>>>(() => {
+    if (decoy) return {};
+    const existing: Partial<Record<DisguiseShellId, string>> = {};
+    (Object.keys(DISGUISE_SHELL_INFO) as DisguiseShellId[]).forEach(id => {
+      const code = getAccessCodeFor(id);
+      if (code) existing[id] = getAccessLink(code);
+    });
+    return existing;
+  });
+  const [copied, setCopied] = useState<DisguiseShellId | null>(null);
+
+  const handleCreateLink = (shell: DisguiseShellId) => {
+    if (decoy) return;
+    setLinks(prev => ({ ...prev, [shell]: getAccessLink(createAccessCode(shell)) }));
+  };
+
+  const handleCopy = async (shell: DisguiseShellId) => {
+    const link = links[shell];
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(shell);
+      setTimeout(() => setCopied(null), 1500);
+    } catch (e) {
+      // Clipboard might be unavailable - the link is still visible
+    }
+  };
+
+  const handleSave = () => {
+    if (!decoy) {
+      saveDisguiseConfig({ ...getDisguiseConfig(), defaultShell });
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-neutral-900 border border-neutral-700 w-full max-w-md rounded-2xl p-6 shadow-2xl relative max-h-full overflow-y-auto">
+
+        {/* Header */}
+        <div className="text-center mb-6">
+          <div className="w-12 h-12 bg-athena-900/50 rounded-full flex items-center justify-center mx-auto mb-3 border border-athena-500/30">
+            <Layers className="w-6 h-6 text-athena-500" />
+          </div>
+          <h2 className="text-xl font-bold text-white">Disguise</h2>
+          <p className="text-sm text-gray-400 mt-1">
+            Choose what this app looks like when it is locked. Your secret codes work in every disguise.
+          </p>
+        </div>
+
+        {/* Shells */}
+        <div className="space-y-3">
+          {(Object.keys(DISGUISE_SHELL_INFO) as DisguiseShellId[]).map(id => (
+            <div key={id} className="bg-black/40 border border-neutral-800 rounded-xl p-3">
+              <label className="flex items-center gap-2 text-sm text-white">
+                <input
+                  type="radio"
+                  name="disguise"
+                  checked={defaultShell === id}
+                  onChange={() => setDefaultShell(id)}
+                  className="accent-athena-500"
+                />
+                {DISGUISE_SHELL_INFO[id].name}
+                {defaultShell === id && <span className="text-[10px] text-athena-500 font-mono ml-auto">THIS DEVICE</span>}
+              </label>
+
+              <div className="mt-2 flex items-center gap-2">
+                {links[id] ? (
+                  <>
+                    <span className="flex-1 text-[10px] font-mono text-gray-500 truncate">{links[id]}</span>
+                    <button onClick={() => handleCopy(id)} className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-neutral-800 transition">
+                      {copied === id ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                    </button>
+                  </>
+                ) : (
+                  <span className="flex-1 text-[10px] text-gray-600">No launch link</span>
+                )}
+                <button
+                  onClick={() => handleCreateLink(id)}
+                  className="text-[10px] uppercase tracking-wider text-gray-500 hover:text-athena-500 transition"
+                >
+                  {links[id] ? 'New link' : 'Create link'}
+                </button>
+              </div>
+            </div>
+          ))}
+
+          <p className="text-[10px] text-orange-400">
+            Add a launch link to your home screen to open as that disguise. Creating a new link disables the old one.
+          </p>
+        </div>
+
+        {/* Actions */}
+        <div className="mt-6 flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 rounded-xl font-medium text-gray-400 hover:bg-neutral-800 transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex-1 bg-athena-600 hover:bg-athena-500 text-white py-3 rounded-xl font-bold transition shadow-lg shadow-athena-900/20"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
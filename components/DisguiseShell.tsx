@@ -0,0 +1,39 @@
+import React from 'react';
+import Calculator from './Calculator';
+import RecipesShell from './RecipesShell';
+import PeriodTrackerShell from './PeriodTrackerShell';
+import { MathOsCommand } from '../lib/command-registry';
+import { DisguiseShellId, DisguiseShellInfo, DISGUISE_SHELL_INFO } from '../lib/disguise';
+
+/**
+ * Receives a secret command. May resolve to covert output (FLASH_CHECK /
+ * POOL_STATUS) for shells with a display; other shells ignore it.
+ */
+export type CommandHandler = (command: MathOsCommand) => Promise<string | null> | void;
+
+/**
+ * Contract every disguise shell implements: look like an ordinary app and
+ * report secret commands through onCommand, exactly like the Calculator.
+ */
+export interface DisguiseShellProps {
+  onCommand: CommandHandler;
+}
+
+export interface DisguiseShell extends DisguiseShellInfo {
+  component: React.ComponentType<DisguiseShellProps>;
+}
+
+export const DISGUISE_SHELLS: Record<DisguiseShellId, DisguiseShell> = {
+  CALCULATOR: { ...DISGUISE_SHELL_INFO.CALCULATOR, component: Calculator },
+  RECIPES: { ...DISGUISE_SHELL_INFO.RECIPES, component: RecipesShell },
+  PERIOD_TRACKER: { ...DISGUISE_SHELL_INFO.PERIOD_TRACKER, component: PeriodTrackerShell }
+};
+
+interface Props extends DisguiseShellProps {
+  shell: DisguiseShellId;
+}
+
+export const ActiveDisguiseShell: React.FC<Props> = ({ shell, onCommand }) => {
+  const Shell = (DISGUISE_SHELLS[shell] || DISGUISE_SHELLS.CALCULATOR).component;
+  return <Shell onCommand={onCommand} />;
+};
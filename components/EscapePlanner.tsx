@@ -1,14 +1,23 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { sendPlannerMessage } from '../services/geminiService';
-import { EscapePlan, ChatMessage } from '../types';
-import { Cpu, Cloud, CloudOff, Loader2, Check, Circle } from 'lucide-react';
+import { EscapePlan, ChatMessage, AgentTab } from '../types';
+import { Cpu, Cloud, CloudOff, Loader2, Check, Circle, History, ArrowRight } from 'lucide-react';
+import { getCommandRegistry, LegendEntry } from '../lib/command-registry';
+import { generateCaseId } from '../lib/case-identity';
+import { getBudgetEngine, parseBudgetInputs } from '../lib/budget-engine';
+import { formatMoney, getDisplayCurrency } from '../lib/currency';
+import { FxRateBadge } from './FxRateBadge';
+import { PlanHistory } from './PlanHistory';
+import { getPlanTaskStore, computeReadiness, PlanTask, PlanReadiness, READY_SCORE } from '../lib/plan-tasks';
+import { useAthenaAgent } from '../lib/useAthenaAgent';
 import {
   auth,
   saveChatMessage,
   loadChatHistory,
   saveEscapePlan,
   loadEscapePlan,
-  saveSafeContact
+  saveSafeContact,
+  getSafeContact
 } from '../lib/firebase';
 
 const INITIAL_MESSAGE: ChatMessage = {
@@ -16,7 +25,77 @@ const INITIAL_MESSAGE: ChatMessage = {
   text: "Hello 💜 I'm Athena, your silent guardian. First, I want you to know you're incredibly brave for reaching out.\n\nThis is a REAL protection tool, not a scam. I can help you:\n• Build a secret Freedom Vault (savings invisible to others)\n• Document evidence with legal timestamps\n• Create an emergency escape plan\n\nHow are you feeling right now? Are you in a safe place to talk?"
 };
 
-export const EscapePlanner: React.FC = () => {
+interface EscapePlannerProps {
+  onNavigate?: (tab: AgentTab) => void; // Open the tab where a task gets done
+}
+
+// Full class names so the Tailwind CDN picks them up
+const PHASE_COLORS = [
+  { card: 'border-blue-500/50 bg-blue-500/5', bar: 'bg-blue-500', barIdle: 'bg-blue-500/30', check: 'bg-blue-500 text-white', ring: 'group-hover:border-blue-500', dot: 'group-hover:text-blue-500', text: 'text-blue-400' },
+  { card: 'border-purple-500/50 bg-purple-500/5', bar: 'bg-purple-500', barIdle: 'bg-purple-500/30', check: 'bg-purple-500 text-white', ring: 'group-hover:border-purple-500', dot: 'group-hover:text-purple-500', text: 'text-purple-400' },
+  { card: 'border-green-500/50 bg-green-500/5', bar: 'bg-green-500', barIdle: 'bg-green-500/30', check: 'bg-green-500 text-white', ring: 'group-hover:border-green-500', dot: 'group-hover:text-green-500', text: 'text-green-400' }
+];
+
+const TAB_LABELS: Record<AgentTab, string> = {
+  HOME: 'Vault',
+  PLAN: 'Plan',
+  EVIDENCE: 'Locker',
+  SOS: 'SOS'
+};
+
+// Due date, blocked/overdue state and a link to the tab where the task gets done
+const TaskMeta: React.FC<{ task: PlanTask; onNavigate?: (tab: AgentTab) => void }> = ({ task, onNavigate }) => {
+  if (task.status === 'DONE') return null;
+  return (
+    <div className="flex items-center gap-3 mt-1 text-[10px] font-mono">
+      <span className={task.overdue ? 'text-red-400' : 'text-gray-500'}>
+        {task.overdue ? 'OVERDUE ' : 'DUE '}{new Date(task.dueAt).toLocaleDateString()}
+      </span>
+      {task.blocked && <span className="text-yellow-500">WAITING ON EARLIER STEPS</span>}
+      {task.tab && onNavigate && (
+        <span
+          role="link"
+          onClick={e => { e.stopPropagation(); onNavigate(task.tab!); }}
+          className="text-athena-400 hover:text-white flex items-center gap-1 cursor-pointer"
+        >
+          {TAB_LABELS[task.tab]} <ArrowRight className="w-3 h-3" />
+        </span>
+      )}
+    </div>
+  );
+};
+
+// Keep the SOS safe contact in line with the plan's emergency contact
+const saveContactFromPlan = async (userId: string, plan: EscapePlan): Promise<void> => {
+  if (!plan.emergencyContact || !plan.emergencyContact.name) return;
+
+  const withdrawalMethod = (plan.emergencyContact as any).withdrawalMethod || 'PHONE';
+  const contactData: any = {
+    name: plan.emergencyContact.name,
+    relationship: plan.emergencyContact.relationship || 'Emergency Contact',
+    withdrawalMethod: withdrawalMethod,
+    contactInfo: plan.emergencyContact.contactInfo || ''
+  };
+
+  // Only add specific fields if they have values (Firestore doesn't accept undefined)
+  if (withdrawalMethod === 'WALLET') {
+    contactData.walletAddress = plan.emergencyContact.contactInfo || '';
+  } else if (withdrawalMethod === 'PHONE') {
+    contactData.phoneNumber = plan.emergencyContact.contactInfo || '';
+  } else if (withdrawalMethod === 'CASH_CODE') {
+    contactData.fullName = plan.emergencyContact.name;
+  }
+
+  // Don't drop the SOS swap preference set in the destination settings
+  const existing = await getSafeContact(userId).catch(() => null);
+  if (existing?.preferredAsset) {
+    contactData.preferredAsset = existing.preferredAsset;
+  }
+
+  await saveSafeContact(userId, contactData);
+};
+
+export const EscapePlanner: React.FC<EscapePlannerProps> = ({ onNavigate }) => {
   const [messages, setMessages] = useState<ChatMessage[]>([INITIAL_MESSAGE]);
   const [inputText, setInputText] = useState('');
   const [isTyping, setIsTyping] = useState(false);
@@ -24,7 +103,12 @@ export const EscapePlanner: React.FC = () => {
   const [isLoadingHistory, setIsLoadingHistory] = useState(true);
   const [plan, setPlan] = useState<EscapePlan | null>(null);
   const [isSynced, setIsSynced] = useState(false);
-  const [completedPhases, setCompletedPhases] = useState<{ [key: number]: boolean }>({});
+  const [tasks, setTasks] = useState<PlanTask[]>([]);
+  const [readiness, setReadiness] = useState<PlanReadiness | null>(null);
+  const { vaultState } = useAthenaAgent();
+  const [legend, setLegend] = useState<LegendEntry[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const caseIdRef = useRef<string | null>(null); // Stable across plan versions
   const scrollRef = useRef<HTMLDivElement>(null);
 
   // Load chat history from Firestore on mount
@@ -55,7 +139,10 @@ export const EscapePlanner: React.FC = () => {
 
           // Load saved plan if exists
           const savedPlan = await loadEscapePlan(user.uid);
-          if (savedPlan && savedPlan.isReady) {
+          if (savedPlan?.caseId) {
+            caseIdRef.current = savedPlan.caseId;
+          }
+          if (savedPlan && savedPlan.strategy) {
             setPlan(savedPlan);
           }
 
@@ -75,6 +162,53 @@ export const EscapePlanner: React.FC = () => {
     loadHistory();
   }, []);
 
+  // Secret command reminder reads the person's own codes
+  useEffect(() => {
+    const registry = getCommandRegistry();
+    registry.whenReady().then(() => setLegend(registry.getLegend()));
+  }, []);
+
+  // Tasks come from the plan; progress is local first, then merged with the server
+  useEffect(() => {
+    if (!plan) {
+      setTasks([]);
+      return;
+    }
+    const store = getPlanTaskStore();
+    let cancelled = false;
+    store.getTasks(plan)
+      .then(local => {
+        if (!cancelled) setTasks(local);
+        return store.sync(plan);
+      })
+      .then(synced => { if (!cancelled) setTasks(synced); });
+    return () => { cancelled = true; };
+  }, [plan?.caseId, plan?.strategy, plan?.nextSteps, plan?.riskLevel]);
+
+  // Readiness flips plan.isReady (and the server copy) when it crosses READY_SCORE
+  useEffect(() => {
+    if (!plan || tasks.length === 0) {
+      setReadiness(null);
+      return;
+    }
+    const funds = vaultState?.totalValueUsd ?? plan.freedomGoal.currentAmount;
+    const next = computeReadiness(tasks, funds, plan.freedomGoal.targetAmount);
+    setReadiness(next);
+    if (next.isReady !== plan.isReady) {
+      setPlan(prev => prev && { ...prev, isReady: next.isReady });
+      getPlanTaskStore().publishReadiness(next);
+    }
+  }, [tasks, vaultState?.totalValueUsd, plan?.freedomGoal?.targetAmount]);
+
+  const toggleTask = (task: PlanTask) => {
+    if (!plan) return;
+    const status = task.status === 'DONE' ? 'TODO' : 'DONE';
+    getPlanTaskStore().setStatus(plan, task.id, status).then(setTasks);
+  };
+
+  const phaseTasks = tasks.filter(task => task.kind === 'PHASE');
+  const stepTasks = tasks.filter(task => task.kind === 'NEXT_STEP');
+
   // Auto-scroll to bottom
   useEffect(() => {
     if (scrollRef.current) {
@@ -102,20 +236,35 @@ export const EscapePlanner: React.FC = () => {
 
     try {
       // Call ADK-TS style agent (via geminiService with context)
-      const response = await sendPlannerMessage([...messages, userMsg], userMsg.text);
+      const response = await sendPlannerMessage([...messages, userMsg], userMsg.text, vaultState?.apy);
 
       setIsTyping(false);
 
       if (response.plan) {
-        // Generate unique caseId for this plan
-        const timestamp = Date.now();
-        const random = Math.random().toString(36).substring(2, 6).toUpperCase();
-        const caseId = `ATHENA-${timestamp}-${random}`;
+        // One caseId per person: reuse it for every later version of the plan
+        const caseId = caseIdRef.current || generateCaseId();
+        caseIdRef.current = caseId;
         const poolContractAddress = '0x4Bca7ebC3Cba0ea5Ada962E319BfB8353De81605';
 
-        // Enhance plan with caseId and pool info
-        const enhancedPlan = {
+        // Budget comes from the BudgetEngine, not the model's arithmetic
+        const budgetInputs = parseBudgetInputs(response.plan.budgetInputs);
+        const budget = getBudgetEngine().calculate({
+          ...budgetInputs,
+          destination: response.plan.destination,
+          riskLevel: response.plan.riskLevel,
+          hasOwnMoney: !!budgetInputs.hasOwnMoney
+        });
+
+        // Enhance plan with caseId, pool info and the computed goal
+        let enhancedPlan: EscapePlan = {
           ...response.plan,
+          isReady: false, // Earned through tasks and funding, not set by the model
+          freedomGoal: {
+            ...response.plan.freedomGoal,
+            targetAmount: budget.targetAmount,
+            currency: budget.currency,
+            breakdown: budget.breakdown
+          },
           caseId,
           poolContractAddress
         };
@@ -123,29 +272,13 @@ export const EscapePlanner: React.FC = () => {
         // Save plan to Firestore
         if (user) {
           try {
-            await saveEscapePlan(user.uid, enhancedPlan);
+            // Stored as a new version; the stored copy carries the stable caseId
+            const record = await saveEscapePlan(user.uid, enhancedPlan);
+            enhancedPlan = record.plan;
+            caseIdRef.current = record.plan.caseId || caseId;
 
             // Save emergency contact if provided
-            if (response.plan.emergencyContact && response.plan.emergencyContact.name) {
-              const withdrawalMethod = (response.plan.emergencyContact as any).withdrawalMethod || 'PHONE';
-              const contactData: any = {
-                name: response.plan.emergencyContact.name,
-                relationship: response.plan.emergencyContact.relationship || 'Emergency Contact',
-                withdrawalMethod: withdrawalMethod,
-                contactInfo: response.plan.emergencyContact.contactInfo || ''
-              };
-
-              // Only add specific fields if they have values (Firestore doesn't accept undefined)
-              if (withdrawalMethod === 'WALLET') {
-                contactData.walletAddress = response.plan.emergencyContact.contactInfo || '';
-              } else if (withdrawalMethod === 'PHONE') {
-                contactData.phoneNumber = response.plan.emergencyContact.contactInfo || '';
-              } else if (withdrawalMethod === 'CASH_CODE') {
-                contactData.fullName = response.plan.emergencyContact.name;
-              }
-
-              await saveSafeContact(user.uid, contactData);
-            }
+            await saveContactFromPlan(user.uid, enhancedPlan);
           } catch (error) {
             console.error('[EscapePlanner] Failed to save plan:', error);
           }
@@ -243,15 +376,16 @@ export const EscapePlanner: React.FC = () => {
 
           <h3 className="text-gray-400 text-xs uppercase tracking-wider mb-2">Freedom Fund Goal</h3>
           <div className="flex items-end gap-2 mb-4">
-            <span className="text-5xl font-mono font-bold text-white tracking-tighter">${plan.freedomGoal.targetAmount}</span>
-            <span className="text-gray-500 text-sm mb-2">{plan.freedomGoal.currency}</span>
+            <span className="text-5xl font-mono font-bold text-white tracking-tighter">{formatMoney(plan.freedomGoal.targetAmount, undefined, { decimals: 0 })}</span>
+            <span className="text-gray-500 text-sm mb-2">{getDisplayCurrency()}</span>
+            <FxRateBadge className="mb-2 ml-auto" />
           </div>
 
           <div className="w-full bg-black h-2 rounded-full overflow-hidden">
             <div className="bg-athena-500 h-full w-[5%] shadow-[0_0_10px_rgba(236,72,153,0.5)]"></div>
           </div>
           <p className="text-[10px] text-gray-500 mt-2 flex justify-between">
-            <span>Current: ${plan.freedomGoal.currentAmount}</span>
+            <span>Current: {formatMoney(plan.freedomGoal.currentAmount)}</span>
             <span>Target for {plan.destination}</span>
           </p>
 
@@ -262,19 +396,19 @@ export const EscapePlanner: React.FC = () => {
               <div className="grid grid-cols-2 gap-2 text-xs">
                 <div className="flex justify-between text-gray-400">
                   <span>🚗 Transport</span>
-                  <span className="text-white">${plan.freedomGoal.breakdown.transport}</span>
+                  <span className="text-white">{formatMoney(plan.freedomGoal.breakdown.transport, undefined, { decimals: 0 })}</span>
                 </div>
                 <div className="flex justify-between text-gray-400">
                   <span>📦 Supplies</span>
-                  <span className="text-white">${plan.freedomGoal.breakdown.supplies}</span>
+                  <span className="text-white">{formatMoney(plan.freedomGoal.breakdown.supplies, undefined, { decimals: 0 })}</span>
                 </div>
                 <div className="flex justify-between text-gray-400">
                   <span>🏠 Shelter</span>
-                  <span className="text-white">${plan.freedomGoal.breakdown.shelter}</span>
+                  <span className="text-white">{formatMoney(plan.freedomGoal.breakdown.shelter, undefined, { decimals: 0 })}</span>
                 </div>
                 <div className="flex justify-between text-gray-400">
                   <span>⚖️ Legal</span>
-                  <span className="text-white">${plan.freedomGoal.breakdown.legal}</span>
+                  <span className="text-white">{formatMoney(plan.freedomGoal.breakdown.legal, undefined, { decimals: 0 })}</span>
                 </div>
               </div>
             </div>
@@ -320,112 +454,97 @@ export const EscapePlanner: React.FC = () => {
           </div>
         )}
 
+        {/* Readiness: task progress + funding */}
+        {readiness && (
+          <div className="bg-neutral-900/50 rounded-2xl p-4 border border-neutral-800 mb-4">
+            <div className="flex justify-between text-xs mb-2">
+              <span className="text-gray-400 uppercase tracking-wider">Readiness</span>
+              <span className={readiness.isReady ? 'text-green-400 font-bold' : 'text-gray-300 font-mono'}>
+                {readiness.isReady ? 'READY' : `${readiness.score}/100`}
+              </span>
+            </div>
+            <div className="w-full bg-black h-2 rounded-full overflow-hidden">
+              <div
+                className={`h-full transition-all duration-700 ${readiness.isReady ? 'bg-green-500' : 'bg-athena-500'}`}
+                style={{ width: `${readiness.score}%` }}
+              ></div>
+            </div>
+            <p className="text-[10px] text-gray-500 mt-2 flex justify-between">
+              <span>{readiness.tasksDone}/{readiness.tasksTotal} tasks done</span>
+              <span>{readiness.fundedPercent.toFixed(0)}% funded · ready at {READY_SCORE}</span>
+            </p>
+          </div>
+        )}
+
         {/* The Visual Checklist - INTERACTIVE */}
         <div className="space-y-4">
           <h3 className="text-gray-300 font-bold text-sm flex items-center gap-2">
             <svg className="w-4 h-4 text-athena-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" /></svg>
             Execution Checklist
             <span className="text-[10px] text-gray-500 font-normal ml-auto">
-              {Object.values(completedPhases).filter(Boolean).length}/3 complete
+              {phaseTasks.filter(task => task.status === 'DONE').length}/{phaseTasks.length} complete
             </span>
           </h3>
 
-          {/* Checklist Item 1 - CLICKABLE */}
-          <button
-            onClick={() => setCompletedPhases(prev => ({ ...prev, 1: !prev[1] }))}
-            className={`group relative w-full text-left bg-neutral-900 border rounded-xl p-4 transition active:scale-[0.98] ${completedPhases[1] ? 'border-blue-500/50 bg-blue-500/5' : 'border-neutral-800 hover:border-neutral-700'
-              }`}
-          >
-            <div className={`absolute left-0 top-0 bottom-0 w-1 rounded-l-xl transition ${completedPhases[1] ? 'bg-blue-500' : 'bg-blue-500/30'
-              }`}></div>
-            <div className="flex gap-3">
-              <div className={`w-6 h-6 rounded-full flex items-center justify-center mt-0.5 transition ${completedPhases[1]
-                ? 'bg-blue-500 text-white'
-                : 'border-2 border-neutral-600 group-hover:border-blue-500'
-                }`}>
-                {completedPhases[1] ? (
-                  <Check className="w-4 h-4" />
-                ) : (
-                  <Circle className="w-3 h-3 text-transparent group-hover:text-blue-500" />
-                )}
-              </div>
-              <div>
-                <h4 className={`text-sm font-bold transition ${completedPhases[1] ? 'text-blue-400 line-through' : 'text-white'}`}>
-                  Phase 1: Immediate Security
-                </h4>
-                <p className="text-gray-400 text-xs mt-1 leading-relaxed">{plan.strategy.step1}</p>
-              </div>
-            </div>
-          </button>
-
-          {/* Checklist Item 2 - CLICKABLE */}
-          <button
-            onClick={() => setCompletedPhases(prev => ({ ...prev, 2: !prev[2] }))}
-            className={`group relative w-full text-left bg-neutral-900 border rounded-xl p-4 transition active:scale-[0.98] ${completedPhases[2] ? 'border-purple-500/50 bg-purple-500/5' : 'border-neutral-800 hover:border-neutral-700'
-              }`}
-          >
-            <div className={`absolute left-0 top-0 bottom-0 w-1 rounded-l-xl transition ${completedPhases[2] ? 'bg-purple-500' : 'bg-purple-500/30'
-              }`}></div>
-            <div className="flex gap-3">
-              <div className={`w-6 h-6 rounded-full flex items-center justify-center mt-0.5 transition ${completedPhases[2]
-                ? 'bg-purple-500 text-white'
-                : 'border-2 border-neutral-600 group-hover:border-purple-500'
-                }`}>
-                {completedPhases[2] ? (
-                  <Check className="w-4 h-4" />
-                ) : (
-                  <Circle className="w-3 h-3 text-transparent group-hover:text-purple-500" />
-                )}
-              </div>
-              <div>
-                <h4 className={`text-sm font-bold transition ${completedPhases[2] ? 'text-purple-400 line-through' : 'text-white'}`}>
-                  Phase 2: Logistics & Funding
-                </h4>
-                <p className="text-gray-400 text-xs mt-1 leading-relaxed">{plan.strategy.step2}</p>
-              </div>
-            </div>
-          </button>
-
-          {/* Checklist Item 3 - CLICKABLE */}
-          <button
-            onClick={() => setCompletedPhases(prev => ({ ...prev, 3: !prev[3] }))}
-            className={`group relative w-full text-left bg-neutral-900 border rounded-xl p-4 transition active:scale-[0.98] ${completedPhases[3] ? 'border-green-500/50 bg-green-500/5' : 'border-neutral-800 hover:border-neutral-700'
-              }`}
-          >
-            <div className={`absolute left-0 top-0 bottom-0 w-1 rounded-l-xl transition ${completedPhases[3] ? 'bg-green-500' : 'bg-green-500/30'
-              }`}></div>
-            <div className="flex gap-3">
-              <div className={`w-6 h-6 rounded-full flex items-center justify-center mt-0.5 transition ${completedPhases[3]
-                ? 'bg-green-500 text-white'
-                : 'border-2 border-neutral-600 group-hover:border-green-500'
-                }`}>
-                {completedPhases[3] ? (
-                  <Check className="w-4 h-4" />
-                ) : (
-                  <Circle className="w-3 h-3 text-transparent group-hover:text-green-500" />
-                )}
-              </div>
-              <div>
-                <h4 className={`text-sm font-bold transition ${completedPhases[3] ? 'text-green-400 line-through' : 'text-white'}`}>
-                  Phase 3: Extraction
-                </h4>
-                <p className="text-gray-400 text-xs mt-1 leading-relaxed">{plan.strategy.step3}</p>
-              </div>
-            </div>
-          </button>
+          {phaseTasks.map((task, index) => {
+            const color = PHASE_COLORS[index % PHASE_COLORS.length];
+            const done = task.status === 'DONE';
+            return (
+              <button
+                key={task.id}
+                onClick={() => toggleTask(task)}
+                disabled={task.blocked}
+                className={`group relative w-full text-left bg-neutral-900 border rounded-xl p-4 transition active:scale-[0.98] disabled:opacity-50 disabled:active:scale-100 ${done ? color.card : 'border-neutral-800 hover:border-neutral-700'
+                  }`}
+              >
+                <div className={`absolute left-0 top-0 bottom-0 w-1 rounded-l-xl transition ${done ? color.bar : color.barIdle
+                  }`}></div>
+                <div className="flex gap-3">
+                  <div className={`w-6 h-6 rounded-full flex items-center justify-center mt-0.5 transition ${done
+                    ? color.check
+                    : `border-2 border-neutral-600 ${color.ring}`
+                    }`}>
+                    {done ? (
+                      <Check className="w-4 h-4" />
+                    ) : (
+                      <Circle className={`w-3 h-3 text-transparent ${color.dot}`} />
+                    )}
+                  </div>
+                  <div className="flex-1">
+                    <h4 className={`text-sm font-bold transition ${done ? `${color.text} line-through` : 'text-white'}`}>
+                      {task.title}
+                    </h4>
+                    <p className="text-gray-400 text-xs mt-1 leading-relaxed">{task.detail}</p>
+                    <TaskMeta task={task} onNavigate={onNavigate} />
+                  </div>
+                </div>
+              </button>
+            );
+          })}
         </div>
 
         {/* Next Steps Guide */}
-        {plan.nextSteps && plan.nextSteps.length > 0 && (
+        {stepTasks.length > 0 && (
           <div className="mt-6 bg-athena-900/20 border border-athena-500/30 rounded-xl p-4">
             <h4 className="text-athena-400 text-sm font-bold mb-3 flex items-center gap-2">
               <span>📋</span> What to Do Now
             </h4>
             <ul className="space-y-2">
-              {plan.nextSteps.map((step, index) => (
-                <li key={index} className="flex items-start gap-2 text-xs text-gray-300">
-                  <span className="text-athena-500 font-bold">{index + 1}.</span>
-                  <span>{step}</span>
+              {stepTasks.map(task => (
+                <li key={task.id} className="flex items-start gap-2 text-xs text-gray-300">
+                  <button
+                    onClick={() => toggleTask(task)}
+                    className={`w-4 h-4 mt-0.5 rounded flex items-center justify-center shrink-0 transition ${task.status === 'DONE'
+                      ? 'bg-athena-500 text-white'
+                      : 'border border-athena-500/50 hover:border-athena-500'
+                      }`}
+                  >
+                    {task.status === 'DONE' && <Check className="w-3 h-3" />}
+                  </button>
+                  <div className="flex-1">
+                    <span className={task.status === 'DONE' ? 'line-through text-gray-500' : ''}>{task.title}</span>
+                    <TaskMeta task={task} onNavigate={onNavigate} />
+                  </div>
                 </li>
               ))}
             </ul>
@@ -496,7 +615,7 @@ export const EscapePlanner: React.FC = () => {
                 `Contract: ${plan.poolContractAddress || '0x4Bca7ebC3Cba0ea5Ada962E319BfB8353De81605'}\n` +
                 `Case ID: ${plan.caseId || 'Not assigned'}\n` +
                 `Network: Fraxtal Testnet (Chain ID: 2523)\n` +
-                `Goal: $${plan.freedomGoal.targetAmount}\n\n` +
+                `Goal: ${formatMoney(plan.freedomGoal.targetAmount, 'USD', { decimals: 0 })}\n\n` +
                 `To donate: Call donate("${plan.caseId}") with ETH\n\n` +
                 `Every donation helps. 💜 #Athena #SafeHaven`;
 
@@ -521,24 +640,45 @@ export const EscapePlanner: React.FC = () => {
         <div className="mt-4 bg-neutral-900 border border-neutral-800 rounded-xl p-4">
           <p className="text-[10px] text-gray-600 uppercase tracking-wider mb-2">Secret Commands</p>
           <div className="flex gap-4 text-xs">
-            <div className="text-gray-400">
-              <span className="text-white font-mono">9÷11=</span> Check Balance
-            </div>
-            <div className="text-gray-400">
-              <span className="text-white font-mono">7x7=</span> Pool Status
-            </div>
-            <div className="text-gray-400">
-              <span className="text-white font-mono">0÷0=</span> <span className="text-red-400">SOS</span>
-            </div>
+            {legend
+              .filter(entry => ['FLASH_CHECK', 'POOL_STATUS', 'SOS'].includes(entry.command))
+              .map(entry => (
+                <div key={entry.command} className="text-gray-400">
+                  <span className="text-white font-mono">{entry.sequence}</span>{' '}
+                  {entry.tone === 'danger' ? <span className="text-red-400">SOS</span> : entry.label}
+                </div>
+              ))}
           </div>
         </div>
 
+        <button
+          onClick={() => setShowHistory(true)}
+          className="w-full mt-6 flex items-center justify-center gap-2 py-3 text-xs text-gray-500 hover:text-white transition uppercase tracking-widest border border-gray-800 rounded-lg"
+        >
+          <History className="w-3 h-3" />
+          Plan History
+        </button>
+
         <button
           onClick={() => setPlan(null)}
-          className="w-full mt-6 py-3 text-xs text-gray-500 hover:text-white transition uppercase tracking-widest border border-transparent hover:border-gray-800 rounded-lg"
+          className="w-full mt-3 py-3 text-xs text-gray-500 hover:text-white transition uppercase tracking-widest border border-transparent hover:border-gray-800 rounded-lg"
         >
           Modify Parameters
         </button>
+
+        {showHistory && (
+          <PlanHistory
+            onClose={() => setShowHistory(false)}
+            onRestore={restored => {
+              setPlan(restored);
+              const user = auth.currentUser;
+              if (user) {
+                saveContactFromPlan(user.uid, restored).catch(error =>
+                  console.error('[EscapePlanner] Failed to restore contact:', error));
+              }
+            }}
+          />
+        )}
       </div>
     );
   }
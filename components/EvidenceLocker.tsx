@@ -9,7 +9,7 @@ import { auth, saveEvidence, loadEvidence } from '../lib/firebase';
 import { Lock, Wifi, WifiOff, Loader2, Download, ExternalLink } from 'lucide-react';
 
 export const EvidenceLocker: React.FC = () => {
-  const { secureEvidence, isOnline, isLoading: agentLoading } = useAthenaAgent();
+  const { agent, agentState, secureEvidence, isOnline, isLoading: agentLoading } = useAthenaAgent();
   const [logs, setLogs] = useState<EvidenceItem[]>([]);
   const [activeTab, setActiveTab] = useState<EvidenceType>('TEXT');
   const [isProcessing, setIsProcessing] = useState(false);
@@ -270,6 +270,21 @@ export const EvidenceLocker: React.FC = () => {
     setProcessingStatus('');
   };
 
+  // Hash-chained record of what the agent did, for an advocate or lawyer
+  const handleExportJournal = async () => {
+    try {
+      const json = await agent.getJournal().export(agentState.case?.caseId ?? null);
+      const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `athena-activity-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.warn('[EvidenceLocker] Journal export failed:', e);
+    }
+  };
+
   return (
     <div className="flex flex-col h-full bg-neutral-950">
 
@@ -284,9 +299,16 @@ export const EvidenceLocker: React.FC = () => {
             {isOnline ? 'ON-CHAIN' : 'PENDING'}
           </div>
         </div>
-        <p className="text-gray-400 text-xs mb-4">
+        <p className="text-gray-400 text-xs mb-2">
           Data logged here is hashed on-chain and analyzed by Gemini 2.5 Forensic AI.
         </p>
+        <button
+          onClick={handleExportJournal}
+          className="flex items-center gap-1.5 text-[10px] font-mono text-athena-400 hover:text-athena-300 mb-4"
+        >
+          <Download className="w-3 h-3" />
+          EXPORT ACTIVITY RECORD
+        </button>
 
         {/* Tabs */}
         <div className="flex bg-neutral-900 p-1 rounded-xl mb-6 border border-neutral-800 overflow-x-auto">
@@ -0,0 +1,23 @@
+import React from 'react';
+import { getFxStaleness, getDisplayCurrency, BASE_CURRENCY } from '../lib/currency';
+
+interface Props {
+  className?: string;
+}
+
+// How old the exchange rates behind local amounts are (hidden when showing USD)
+export const FxRateBadge: React.FC<Props> = ({ className = '' }) => {
+  if (getDisplayCurrency() === BASE_CURRENCY) return null;
+
+  const { freshness, ageDays, updatedAt } = getFxStaleness();
+  const tone = freshness === 'OUTDATED' ? 'text-red-400' : freshness === 'STALE' ? 'text-yellow-400' : 'text-gray-500';
+
+  return (
+    <span
+      title={`Exchange rates from ${updatedAt}`}
+      className={`text-[10px] font-mono ${tone} ${className}`}
+    >
+      {freshness === 'FRESH' ? `FX ${updatedAt}` : `FX ${ageDays}d old`}
+    </span>
+  );
+};
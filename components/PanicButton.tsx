@@ -2,6 +2,7 @@
 import React, { useState } from 'react';
 import { SafeContact } from '../types';
 import { useAthenaAgent } from '../lib/useAthenaAgent';
+import { formatMoney } from '../lib/currency';
 import { AlertTriangle, Check, Loader2, Shield, Zap } from 'lucide-react';
 
 interface PanicButtonProps {
@@ -31,7 +32,7 @@ export const PanicButton: React.FC<PanicButtonProps> = ({ safeContact, onWipeCom
 
     try {
       // Execute real SOS through agent
-      const result = await triggerSOS(destinationAddress);
+      const result = await triggerSOS(destinationAddress, { preferredAsset: safeContact?.preferredAsset });
 
       // Stream logs to UI
       let logIndex = 0;
@@ -46,7 +47,7 @@ export const PanicButton: React.FC<PanicButtonProps> = ({ safeContact, onWipeCom
           if (result.success) {
             setLogs(prev => [
               ...prev,
-              `💰 Liquidated: $${result.liquidatedAmount.toFixed(2)}`,
+              `💰 Liquidated: ${formatMoney(result.liquidatedAmount)}`,
               `📤 Sent to: ${destinationAddress.slice(0, 10)}...`,
               '🔒 Wiping local data...',
               '✅ PROTOCOL COMPLETE.'
@@ -220,7 +221,7 @@ export const PanicButton: React.FC<PanicButtonProps> = ({ safeContact, onWipeCom
             {safeContact ? (
               <>
                 <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                <span>{safeContact.name} ({safeContact.method === 'TRUSTED_ALLY' ? 'Ally' : 'Code'})</span>
+                <span>{safeContact.name} ({safeContact.method === 'TRUSTED_ALLY' ? 'Ally' : safeContact.method === 'CRYPTO_WALLET' ? 'Wallet' : 'Code'})</span>
               </>
             ) : (
               <>
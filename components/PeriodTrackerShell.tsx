@@ -0,0 +1,148 @@
+import React, { useRef, useState } from 'react';
+import { Droplet, CalendarDays, Check } from 'lucide-react';
+import { CommandDetector } from '../lib/command-detector';
+import { DisguiseShellProps } from './DisguiseShell';
+
+interface CycleData {
+  lastStart: string | null; // ISO date (yyyy-mm-dd)
+  cycleLength: number;
+  notes: { date: string; text: string }[];
+}
+
+// Deliberately generic key: this data belongs to the disguise
+const STORAGE_KEY = 'cycle_tracker';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const loadCycleData = (): CycleData => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return JSON.parse(saved) as CycleData;
+  } catch (e) {
+    // Storage might be unavailable
+  }
+  return { lastStart: null, cycleLength: 28, notes: [] };
+};
+
+const saveCycleData = (data: CycleData) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch (e) {
+    // Storage might be unavailable
+  }
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Period tracker disguise. The daily note field doubles as the code entry:
+ * a note made only of calculator keys is checked against the registry.
+ */
+const PeriodTrackerShell: React.FC<DisguiseShellProps> = ({ onCommand }) => {
+  const [data, setData] = useState<CycleData>(loadCycleData);
+  const [note, setNote] = useState('');
+  const [saved, setSaved] = useState(false);
+  const detector = useRef(new CommandDetector());
+
+  const update = (next: CycleData) => {
+    setData(next);
+    saveCycleData(next);
+  };
+
+  const cycleDay = data.lastStart
+    ? Math.floor((Date.now() - new Date(data.lastStart).getTime()) / DAY_MS) + 1
+    : null;
+  const daysUntilNext = cycleDay !== null ? data.cycleLength - cycleDay + 1 : null;
+
+  const handleSaveNote = async () => {
+    if (!note.trim()) return;
+
+    const command = await detector.current.matchText(note);
+    if (!command || command === 'TOGGLE_LEGEND') {
+      update({ ...data, notes: [{ date: today(), text: note.trim() }, ...data.notes].slice(0, 30) });
+    }
+
+    // Same feedback either way - a code never shows up in the notes list
+    setNote('');
+    setSaved(true);
+    setTimeout(() => setSaved(false), 1500);
+
+    if (command && command !== 'TOGGLE_LEGEND') {
+      onCommand(command);
+    }
+  };
+
+  return (
+    <div className="h-full w-full bg-rose-50 text-neutral-800 flex flex-col overflow-y-auto">
+      <div className="p-6 pb-2">
+        <h1 className="text-2xl font-bold text-rose-500">Cycle</h1>
+        <p className="text-xs text-neutral-500">{new Date().toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })}</p>
+      </div>
+
+      {/* Cycle ring */}
+      <div className="flex justify-center py-6">
+        <div className="w-48 h-48 rounded-full border-8 border-rose-200 bg-white shadow-inner flex flex-col items-center justify-center">
+          {cycleDay !== null ? (
+            <>
+              <span className="text-xs uppercase tracking-wider text-rose-400 font-bold">Day</span>
+              <span className="text-5xl font-bold text-rose-500">{cycleDay}</span>
+              <span className="text-xs text-neutral-500 mt-1">
+                {daysUntilNext !== null && daysUntilNext > 0 ? `Next period in ${daysUntilNext} days` : 'Period may be due'}
+              </span>
+            </>
+          ) : (
+            <span className="text-sm text-neutral-400 text-center px-6">Log your period to start tracking</span>
+          )}
+        </div>
+      </div>
+
+      <div className="px-6 space-y-4 pb-8">
+        <button
+          onClick={() => update({ ...data, lastStart: today() })}
+          className="w-full flex items-center justify-center gap-2 bg-rose-500 hover:bg-rose-400 text-white py-3 rounded-xl font-bold transition"
+        >
+          <Droplet className="w-4 h-4" /> Period started today
+        </button>
+
+        <div className="bg-white rounded-2xl p-4 border border-rose-100 flex items-center justify-between">
+          <span className="flex items-center gap-2 text-sm"><CalendarDays className="w-4 h-4 text-rose-400" /> Cycle length</span>
+          <div className="flex items-center gap-3">
+            <button onClick={() => update({ ...data, cycleLength: Math.max(20, data.cycleLength - 1) })} className="w-8 h-8 rounded-full bg-rose-100 text-rose-500 font-bold">−</button>
+            <span className="font-mono w-6 text-center">{data.cycleLength}</span>
+            <button onClick={() => update({ ...data, cycleLength: Math.min(45, data.cycleLength + 1) })} className="w-8 h-8 rounded-full bg-rose-100 text-rose-500 font-bold">+</button>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl p-4 border border-rose-100">
+          <p className="text-sm font-semibold mb-2">How are you feeling today?</p>
+          <div className="flex gap-2">
+            <input
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') handleSaveNote(); }}
+              placeholder="Symptoms, mood, temperature..."
+              autoComplete="off"
+              className="flex-1 bg-rose-50 border border-rose-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-rose-400"
+            />
+            <button
+              onClick={handleSaveNote}
+              className="px-4 rounded-lg bg-rose-100 text-rose-500 font-bold text-sm flex items-center gap-1"
+            >
+              {saved ? <Check className="w-4 h-4" /> : 'Save'}
+            </button>
+          </div>
+          {data.notes.length > 0 && (
+            <ul className="mt-3 space-y-1">
+              {data.notes.slice(0, 5).map((entry, i) => (
+                <li key={i} className="text-xs text-neutral-500">
+                  <span className="font-mono text-rose-400 mr-2">{entry.date}</span>{entry.text}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PeriodTrackerShell;
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { History, Loader2, RotateCcw, X } from 'lucide-react';
+import { auth, loadPlanVersions, rollbackEscapePlan, PlanVersionRecord, PlanVersionSource } from '../lib/firebase';
+import { diffPlans, PLAN_FIELD_LABELS, PlanChange } from '../lib/plan-history';
+import { formatMoney } from '../lib/currency';
+import { EscapePlan } from '../types';
+
+interface Props {
+  onClose: () => void;
+  onRestore: (plan: EscapePlan) => void;
+}
+
+const SOURCE_LABELS: Record<PlanVersionSource, string> = {
+  GENERATED: 'Created',
+  EDITED: 'Updated',
+  ROLLBACK: 'Restored'
+};
+
+const formatValue = (change: PlanChange, value: string | number | null): string => {
+  if (value === null) return '—';
+  return change.field === 'GOAL' ? formatMoney(Number(value), undefined, { decimals: 0 }) : String(value);
+};
+
+export const PlanHistory: React.FC<Props> = ({ onClose, onRestore }) => {
+  const [versions, setVersions] = useState<PlanVersionRecord[]>([]);
+  const [selected, setSelected] = useState<PlanVersionRecord | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    const user = auth.currentUser;
+    if (!user) {
+      setIsLoading(false);
+      return;
+    }
+    loadPlanVersions(user.uid)
+      .then(setVersions)
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const active = versions[0] || null;
+  const changes = selected && active ? diffPlans(active.plan, selected.plan) : [];
+
+  const handleRestore = async () => {
+    const user = auth.currentUser;
+    if (!user || !selected) return;
+
+    setIsRestoring(true);
+    try {
+      const record = await rollbackEscapePlan(user.uid, selected.version);
+      onRestore(record.plan);
+      onClose();
+    } catch (e) {
+      console.warn('[PlanHistory] Rollback failed:', e);
+      alert('Could not restore this version. Try again when online.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-neutral-900 border border-neutral-700 w-full max-w-md rounded-2xl p-6 shadow-2xl relative max-h-full overflow-y-auto">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-500 hover:text-white">
+          <X className="w-5 h-5" />
+        </button>
+
+        {/* Header */}
+        <div className="text-center mb-6">
+          <div className="w-12 h-12 bg-athena-900/50 rounded-full flex items-center justify-center mx-auto mb-3 border border-athena-500/30">
+            <History className="w-6 h-6 text-athena-500" />
+          </div>
+          <h2 className="text-xl font-bold text-white">Plan History</h2>
+          <p className="text-sm text-gray-400 mt-1">Every version of your plan is kept. Pick one to compare or restore it.</p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 text-athena-500 animate-spin" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-xs text-gray-500 text-center py-6">No saved versions yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {versions.map(version => (
+              <button
+                key={version.version}
+                onClick={() => setSelected(version === active ? null : version)}
+                className={`w-full text-left bg-black/40 border rounded-xl p-3 transition ${selected?.version === version.version
+                  ? 'border-athena-500'
+                  : 'border-neutral-800 hover:border-neutral-700'
+                  }`}
+              >
+                <div className="flex justify-between text-xs">
+                  <span className="text-white font-mono">v{version.version}</span>
+                  <span className="text-gray-500">{new Date(version.createdAt).toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between text-[10px] mt-1">
+                  <span className="text-gray-400">
+                    {SOURCE_LABELS[version.source]}
+                    {version.rolledBackFrom !== null && ` from v${version.rolledBackFrom}`}
+                    {version === active && <span className="text-athena-400"> · current</span>}
+                  </span>
+                  <span className="text-gray-400 font-mono">
+                    {formatMoney(version.plan?.freedomGoal?.targetAmount || 0, undefined, { decimals: 0 })}
+                  </span>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Diff against the current plan */}
+        {selected && (
+          <div className="mt-4 bg-black/40 border border-neutral-800 rounded-xl p-3">
+            <p className="text-[10px] text-gray-500 uppercase tracking-wider mb-2">
+              Restoring v{selected.version} changes
+            </p>
+            {changes.length === 0 ? (
+              <p className="text-xs text-gray-500">Same goal, destination, contact and risk as the current plan.</p>
+            ) : (
+              <div className="space-y-1">
+                {changes.map(change => (
+                  <div key={change.field} className="flex justify-between gap-2 text-xs">
+                    <span className="text-gray-400">{PLAN_FIELD_LABELS[change.field]}</span>
+                    <span className="font-mono text-right">
+                      <span className="text-gray-500 line-through">{formatValue(change, change.before)}</span>{' '}
+                      <span className="text-white">{formatValue(change, change.after)}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <button
+              onClick={handleRestore}
+              disabled={isRestoring}
+              className="w-full mt-3 flex items-center justify-center gap-2 py-2 rounded-xl text-xs font-bold text-white bg-athena-600 hover:bg-athena-500 transition disabled:opacity-50"
+            >
+              {isRestoring ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />}
+              Restore v{selected.version}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useRef, useState } from 'react';
+import { Search, Clock, ChevronLeft, Users } from 'lucide-react';
+import { CommandDetector } from '../lib/command-detector';
+import { DisguiseShellProps } from './DisguiseShell';
+
+interface Recipe {
+  title: string;
+  minutes: number;
+  serves: number;
+  tag: string;
+  ingredients: string[];
+  steps: string[];
+}
+
+const RECIPES: Recipe[] = [
+  {
+    title: 'Lentil Soup',
+    minutes: 40,
+    serves: 4,
+    tag: 'Soups',
+    ingredients: ['1 cup red lentils', '1 onion', '2 carrots', '1 tsp cumin', '4 cups stock'],
+    steps: ['Dice the onion and carrots.', 'Soften in a little oil.', 'Add lentils, cumin and stock.', 'Simmer 25 minutes and blend.']
+  },
+  {
+    title: 'Banana Pancakes',
+    minutes: 15,
+    serves: 2,
+    tag: 'Breakfast',
+    ingredients: ['1 ripe banana', '2 eggs', '1/2 cup flour', 'Pinch of cinnamon'],
+    steps: ['Mash the banana.', 'Whisk in eggs, flour and cinnamon.', 'Cook small rounds on a hot pan.']
+  },
+  {
+    title: 'Chicken Stir Fry',
+    minutes: 25,
+    serves: 3,
+    tag: 'Dinner',
+    ingredients: ['2 chicken breasts', '1 pepper', '1 broccoli head', '3 tbsp soy sauce', '1 tbsp honey'],
+    steps: ['Slice the chicken and vegetables.', 'Sear the chicken.', 'Add vegetables, soy and honey.', 'Toss until glossy.']
+  },
+  {
+    title: 'Tomato Pasta',
+    minutes: 20,
+    serves: 2,
+    tag: 'Dinner',
+    ingredients: ['200g spaghetti', '1 can tomatoes', '2 garlic cloves', 'Fresh basil'],
+    steps: ['Boil the pasta.', 'Fry garlic, add tomatoes.', 'Simmer 10 minutes.', 'Toss with pasta and basil.']
+  },
+  {
+    title: 'Oat Cookies',
+    minutes: 30,
+    serves: 12,
+    tag: 'Baking',
+    ingredients: ['2 cups oats', '1/2 cup butter', '1/2 cup sugar', '1 egg', '1/2 cup raisins'],
+    steps: ['Cream butter and sugar.', 'Mix in egg, oats and raisins.', 'Bake 12 minutes at 180°C.']
+  }
+];
+
+/**
+ * Recipe book disguise. The search box doubles as the code entry:
+ * a query made only of calculator keys is checked against the registry.
+ */
+const RecipesShell: React.FC<DisguiseShellProps> = ({ onCommand }) => {
+  const [query, setQuery] = useState('');
+  const [filter, setFilter] = useState('');
+  const [selected, setSelected] = useState<Recipe | null>(null);
+  const detector = useRef(new CommandDetector());
+
+  const handleSearch = async () => {
+    const command = await detector.current.matchText(query);
+    if (command && command !== 'TOGGLE_LEGEND') {
+      // Looks like an ordinary search that was cleared
+      setQuery('');
+      setFilter('');
+      onCommand(command);
+      return;
+    }
+    setFilter(query.trim().toLowerCase());
+  };
+
+  const visible = RECIPES.filter(recipe =>
+    !filter ||
+    recipe.title.toLowerCase().includes(filter) ||
+    recipe.tag.toLowerCase().includes(filter) ||
+    recipe.ingredients.some(item => item.toLowerCase().includes(filter))
+  );
+
+  if (selected) {
+    return (
+      <div className="h-full w-full bg-orange-50 text-neutral-800 overflow-y-auto">
+        <div className="p-4 flex items-center gap-2 border-b border-orange-100 bg-white sticky top-0">
+          <button onClick={() => setSelected(null)} className="p-2 rounded-full hover:bg-orange-100 transition">
+            <ChevronLeft className="w-5 h-5 text-orange-600" />
+          </button>
+          <h2 className="font-bold text-lg">{selected.title}</h2>
+        </div>
+        <div className="p-6 space-y-6">
+          <div className="flex gap-4 text-sm text-neutral-500">
+            <span className="flex items-center gap-1"><Clock className="w-4 h-4" /> {selected.minutes} min</span>
+            <span className="flex items-center gap-1"><Users className="w-4 h-4" /> Serves {selected.serves}</span>
+          </div>
+          <div>
+            <h3 className="font-bold mb-2">Ingredients</h3>
+            <ul className="list-disc list-inside space-y-1 text-sm">
+              {selected.ingredients.map(item => <li key={item}>{item}</li>)}
+            </ul>
+          </div>
+          <div>
+            <h3 className="font-bold mb-2">Method</h3>
+            <ol className="list-decimal list-inside space-y-2 text-sm">
+              {selected.steps.map(step => <li key={step}>{step}</li>)}
+            </ol>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full w-full bg-orange-50 text-neutral-800 flex flex-col">
+      <div className="p-6 pb-4 bg-white border-b border-orange-100">
+        <h1 className="text-2xl font-bold text-orange-600 mb-4">My Recipes</h1>
+        <div className="flex items-center gap-2 bg-orange-50 border border-orange-200 rounded-xl px-3">
+          <Search className="w-4 h-4 text-orange-400" />
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') handleSearch(); }}
+            placeholder="Search recipes or ingredients"
+            autoComplete="off"
+            className="flex-1 bg-transparent py-3 outline-none text-sm placeholder-orange-300"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {visible.map(recipe => (
+          <button
+            key={recipe.title}
+            onClick={() => setSelected(recipe)}
+            className="w-full text-left bg-white rounded-2xl p-4 shadow-sm border border-orange-100 hover:border-orange-300 transition"
+          >
+            <div className="flex justify-between items-center">
+              <span className="font-semibold">{recipe.title}</span>
+              <span className="text-[10px] uppercase tracking-wider text-orange-500 font-bold">{recipe.tag}</span>
+            </div>
+            <p className="text-xs text-neutral-500 mt-1 flex items-center gap-1">
+              <Clock className="w-3 h-3" /> {recipe.minutes} min · Serves {recipe.serves}
+            </p>
+          </button>
+        ))}
+        {visible.length === 0 && (
+          <p className="text-center text-sm text-neutral-400 mt-12">No recipes found.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecipesShell;
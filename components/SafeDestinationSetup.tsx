@@ -12,10 +12,11 @@ export const SafeDestinationSetup: React.FC<Props> = ({ onSave, onCancel, curren
   const [name, setName] = useState(currentContact?.name || '');
   const [method, setMethod] = useState<SafeContact['method']>(currentContact?.method || 'TRUSTED_ALLY');
   const [address, setAddress] = useState(currentContact?.addressOrDetails || '');
+  const [preferredAsset, setPreferredAsset] = useState<SafeContact['preferredAsset']>(currentContact?.preferredAsset);
 
   const handleSave = () => {
     if (!name || !address) return;
-    onSave({ name, method, addressOrDetails: address });
+    onSave({ name, method, addressOrDetails: address, preferredAsset: method !== 'CASH_CODE' ? preferredAsset : undefined });
   };
 
   return (
@@ -38,7 +39,7 @@ export const SafeDestinationSetup: React.FC<Props> = ({ onSave, onCancel, curren
           
           <div>
             <label className="block text-xs uppercase text-gray-500 font-bold mb-1">Destination Type</label>
-            <div className="grid grid-cols-2 gap-2">
+            <div className="grid grid-cols-3 gap-2">
               <button 
                 onClick={() => setMethod('TRUSTED_ALLY')}
                 className={`p-3 rounded-xl border text-sm font-medium transition ${method === 'TRUSTED_ALLY' ? 'bg-athena-600 border-athena-500 text-white' : 'bg-neutral-800 border-neutral-700 text-gray-400'}`}
@@ -51,6 +52,12 @@ export const SafeDestinationSetup: React.FC<Props> = ({ onSave, onCancel, curren
               >
                 Cash Code (ATM)
               </button>
+              <button 
+                onClick={() => setMethod('CRYPTO_WALLET')}
+                className={`p-3 rounded-xl border text-sm font-medium transition ${method === 'CRYPTO_WALLET' ? 'bg-athena-600 border-athena-500 text-white' : 'bg-neutral-800 border-neutral-700 text-gray-400'}`}
+              >
+                Crypto Wallet
+              </button>
             </div>
           </div>
 
@@ -69,13 +76,13 @@ export const SafeDestinationSetup: React.FC<Props> = ({ onSave, onCancel, curren
 
           <div>
             <label className="block text-xs uppercase text-gray-500 font-bold mb-1">
-               {method === 'TRUSTED_ALLY' ? 'Wallet Address / CBU' : 'ID Number for Pickup'}
+               {method === 'TRUSTED_ALLY' ? 'Wallet Address / CBU' : method === 'CRYPTO_WALLET' ? 'Wallet Address' : 'ID Number for Pickup'}
             </label>
             <input 
               type="text" 
               value={address}
               onChange={(e) => setAddress(e.target.value)}
-              placeholder={method === 'TRUSTED_ALLY' ? "0x..." : "ID Number"}
+              placeholder={method !== 'CASH_CODE' ? "0x..." : "ID Number"}
               className="w-full bg-black border border-neutral-700 rounded-xl p-3 text-white focus:border-athena-500 outline-none font-mono text-sm"
             />
             <p className="text-[10px] text-orange-400 mt-1 flex items-center gap-1">
@@ -84,6 +91,24 @@ export const SafeDestinationSetup: React.FC<Props> = ({ onSave, onCancel, curren
             </p>
           </div>
 
+          {method !== 'CASH_CODE' && (
+            <div>
+              <label className="block text-xs uppercase text-gray-500 font-bold mb-1">Receive As</label>
+              <div className="grid grid-cols-3 gap-2">
+                {([undefined, 'FRAX', 'USDC'] as const).map(asset => (
+                  <button
+                    key={asset || 'ANY'}
+                    onClick={() => setPreferredAsset(asset)}
+                    className={`p-2 rounded-xl border text-xs font-medium transition ${preferredAsset === asset ? 'bg-athena-600 border-athena-500 text-white' : 'bg-neutral-800 border-neutral-700 text-gray-400'}`}
+                  >
+                    {asset || 'As held'}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[10px] text-gray-500 mt-1">SOS swaps your stablecoins into this before sending, where a swap route exists.</p>
+            </div>
+          )}
+
         </div>
 
         {/* Actions */}
@@ -0,0 +1,440 @@
+import React, { useEffect, useState } from 'react';
+import { KeyRound, Loader2 } from 'lucide-react';
+import {
+  getCommandRegistry,
+  COMMAND_DEFINITIONS,
+  DEFAULT_SEQUENCES,
+  LegendEntry,
+  MathOsCommand,
+  formatSequence,
+  normalizeSequence
+} from '../lib/command-registry';
+import { DuressAction, DURESS_ACTION_LABELS, getDuressConfig, saveDuressConfig } from '../lib/duress-protocol';
+import { SILENT_SOS_STEP_LABELS, getSilentSOSConfig, saveSilentSOSConfig } from '../lib/silent-sos';
+import { SilentSOSStep } from '../lib/athena-agent';
+import { getEncryptedStorage, UnlockSlot, UNLOCK_SLOTS } from '../lib/encrypted-storage';
+import { LockoutConfig, LockoutResponse, LOCKOUT_RESPONSE_LABELS, DEFAULT_LOCKOUT_CONFIG, getLockoutConfig, saveLockoutConfig } from '../lib/unlock-guard';
+import { CovertOutputConfig, CovertEncoding, COVERT_ENCODING_LABELS, DEFAULT_COVERT_OUTPUT_CONFIG, getCovertOutputConfig, saveCovertOutputConfig } from '../lib/covert-output';
+import { DeadManConfig, DeadManAction, DEAD_MAN_ACTION_LABELS, DEFAULT_DEAD_MAN_CONFIG, getDeadManConfig, getDeadManSwitch } from '../lib/dead-man-switch';
+
+const ATTEMPT_OPTIONS = [3, 5, 10];
+const CHECK_IN_INTERVALS = [24, 72, 168];
+const GRACE_OPTIONS = [12, 24, 72];
+
+interface Props {
+  onClose: () => void;
+  decoy?: boolean; // Opened from the decoy dashboard: show factory state, persist nothing
+}
+
+interface Draft {
+  sequence: string;
+  hint: string;
+}
+
+type Drafts = Partial<Record<MathOsCommand, Draft>>;
+
+export const SecretCodesSetup: React.FC<Props> = ({ onClose, decoy = false }) => {
+  const registry = getCommandRegistry();
+  const [legend, setLegend] = useState<LegendEntry[]>([]);
+  const [drafts, setDrafts] = useState<Drafts>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [duressActions, setDuressActions] = useState<DuressAction[]>(() => decoy ? [] : getDuressConfig().actions);
+  const [sosSteps, setSosSteps] = useState<SilentSOSStep[]>(() => decoy ? [] : getSilentSOSConfig().steps);
+  const [lockout, setLockout] = useState<LockoutConfig>(() => decoy ? { ...DEFAULT_LOCKOUT_CONFIG } : getLockoutConfig());
+  const [covert, setCovert] = useState<CovertOutputConfig>(() => decoy ? { ...DEFAULT_COVERT_OUTPUT_CONFIG } : getCovertOutputConfig());
+  const [deadMan, setDeadMan] = useState<DeadManConfig>(() => decoy ? { ...DEFAULT_DEAD_MAN_CONFIG } : getDeadManConfig());
+
+  useEffect(() => {
+    registry.whenReady().then(() => setLegend(registry.getLegend()));
+  }, [registry]);
+
+  const statusFor = (command: MathOsCommand): string => {
+    if (decoy) {
+      const factory = DEFAULT_SEQUENCES[command];
+      return factory ? `Factory: ${formatSequence(factory)}` : 'Not set';
+    }
+    const current = legend.find(entry => entry.command === command);
+    if (current) {
+      return current.isDefault ? `Factory: ${current.sequence}` : 'Custom';
+    }
+    return registry.hasSequence(command) ? 'Custom' : 'Not set';
+  };
+
+  const toggleDuressAction = (action: DuressAction) => {
+    setDuressActions(prev => prev.includes(action) ? prev.filter(a => a !== action) : [...prev, action]);
+  };
+
+  const toggleDeadManAction = (action: DeadManAction) => {
+    setDeadMan(prev => ({
+      ...prev,
+      actions: prev.actions.includes(action) ? prev.actions.filter(a => a !== action) : [...prev.actions, action]
+    }));
+  };
+
+  const toggleSosStep = (step: SilentSOSStep) => {
+    setSosSteps(prev => prev.includes(step) ? prev.filter(s => s !== step) : [...prev, step]);
+  };
+
+  const updateDraft = (command: MathOsCommand, field: 'sequence' | 'hint', value: string) => {
+    setDrafts(prev => ({
+      ...prev,
+      [command]: { sequence: '', hint: '', ...prev[command], [field]: value }
+    }));
+  };
+
+  const isUnlockSlot = (command: MathOsCommand) => (UNLOCK_SLOTS as MathOsCommand[]).includes(command);
+
+  // Unlock codes also open the encrypted state: wrap its key under the new code.
+  // Throws while the store is locked - the registry must not move to a code
+  // the keyring can't open.
+  const rewrapStateKey = async (command: MathOsCommand, code: string) => {
+    if (!code || !isUnlockSlot(command)) return;
+    await getEncryptedStorage().setCode(command as UnlockSlot, code);
+  };
+
+  const handleSave = async () => {
+    setError(null);
+
+    if (decoy) {
+      setDrafts({});
+      onClose();
+      return;
+    }
+
+    const changes = (Object.entries(drafts) as [MathOsCommand, Draft][])
+      .filter(([, draft]) => draft && draft.sequence.trim());
+
+    // Validate everything before touching the registry
+    const seen = new Set<string>();
+    for (const [command, draft] of changes) {
+      const problem = await registry.checkSequence(command, draft.sequence);
+      if (problem) {
+        setError(`${command}: ${problem}`);
+        return;
+      }
+      const normalized = normalizeSequence(draft.sequence);
+      if (seen.has(normalized)) {
+        setError('Each command needs its own code.');
+        return;
+      }
+      seen.add(normalized);
+    }
+
+    if (changes.some(([command]) => isUnlockSlot(command)) && !getEncryptedStorage().isUnlocked()) {
+      setError('Unlock with your current code before changing the unlock codes.');
+      return;
+    }
+
+    // The switch can only be kept alive with a check-in code
+    if (deadMan.enabled && !registry.hasSequence('CHECK_IN') && !drafts.CHECK_IN?.sequence.trim()) {
+      setError('Set a check-in code before turning on the check-in timer.');
+      return;
+    }
+    if (deadMan.enabled && deadMan.actions.includes('RELEASE_EVIDENCE') && !deadMan.lawyerEmail?.includes('@')) {
+      setError("Add your lawyer's email to release evidence.");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      for (const [command, draft] of changes) {
+        await rewrapStateKey(command, normalizeSequence(draft.sequence));
+        await registry.setSequence(command, draft.sequence, draft.hint);
+      }
+      saveDuressConfig({ actions: duressActions });
+      saveSilentSOSConfig({ steps: sosSteps });
+      saveLockoutConfig(lockout);
+      saveCovertOutputConfig(covert);
+      await getDeadManSwitch().configure(deadMan);
+      setDrafts({});
+      setLegend(registry.getLegend());
+      onClose();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (decoy) return;
+    setError(null);
+    if (!getEncryptedStorage().isUnlocked()) {
+      setError('Unlock with your current code before resetting the codes.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      for (const slot of UNLOCK_SLOTS) {
+        await rewrapStateKey(slot, DEFAULT_SEQUENCES[slot] || '');
+      }
+      await registry.resetToDefaults();
+      setDrafts({});
+      setLegend(registry.getLegend());
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-neutral-900 border border-neutral-700 w-full max-w-md rounded-2xl p-6 shadow-2xl relative max-h-full overflow-y-auto">
+
+        {/* Header */}
+        <div className="text-center mb-6">
+          <div className="w-12 h-12 bg-athena-900/50 rounded-full flex items-center justify-center mx-auto mb-3 border border-athena-500/30">
+            <KeyRound className="w-6 h-6 text-athena-500" />
+          </div>
+          <h2 className="text-xl font-bold text-white">Secret Codes</h2>
+          <p className="text-sm text-gray-400 mt-1">
+            Choose your own calculator sequences. Codes are stored hashed, never in plain text.
+          </p>
+        </div>
+
+        {/* Form */}
+        <div className="space-y-4">
+          {COMMAND_DEFINITIONS.filter(definition => !(decoy && definition.hidden)).map(definition => {
+            const draft = drafts[definition.command];
+            return (
+              <div key={definition.command} className="bg-black/40 border border-neutral-800 rounded-xl p-3">
+                <div className="flex justify-between items-center mb-2">
+                  <span className={`text-xs uppercase font-bold ${definition.tone === 'danger' ? 'text-red-400' : definition.tone === 'warning' ? 'text-orange-400' : 'text-gray-300'}`}>
+                    {definition.label}
+                  </span>
+                  <span className="text-[10px] font-mono text-gray-500">
+                    {statusFor(definition.command)}
+                  </span>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="password"
+                    value={draft?.sequence || ''}
+                    onChange={(e) => updateDraft(definition.command, 'sequence', e.target.value)}
+                    placeholder="New code, e.g. 42x3="
+                    autoComplete="off"
+                    className="w-full bg-black border border-neutral-700 rounded-lg p-2 text-white focus:border-athena-500 outline-none font-mono text-sm"
+                  />
+                  <input
+                    type="text"
+                    value={draft?.hint || ''}
+                    onChange={(e) => updateDraft(definition.command, 'hint', e.target.value)}
+                    placeholder="Hint (optional)"
+                    className="w-full bg-black border border-neutral-700 rounded-lg p-2 text-white focus:border-athena-500 outline-none text-sm"
+                  />
+                </div>
+
+                {/* SOS: the calculator shows "Error" while these run */}
+                {definition.command === 'SOS' && (
+                  <div className="mt-3 space-y-1">
+                    <p className="text-[10px] text-gray-500">
+                      The calculator just shows Error. Quietly:
+                    </p>
+                    {(Object.keys(SILENT_SOS_STEP_LABELS) as SilentSOSStep[]).map(step => (
+                      <label key={step} className="flex items-center gap-2 text-xs text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={sosSteps.includes(step)}
+                          onChange={() => toggleSosStep(step)}
+                          className="accent-athena-500"
+                        />
+                        {SILENT_SOS_STEP_LABELS[step]}
+                      </label>
+                    ))}
+                  </div>
+                )}
+
+                {/* Check-in: dead man's switch */}
+                {definition.command === 'CHECK_IN' && (
+                  <div className="mt-3 space-y-2">
+                    <label className="flex items-center gap-2 text-xs text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={deadMan.enabled}
+                        onChange={(e) => setDeadMan({ ...deadMan, enabled: e.target.checked })}
+                        className="accent-athena-500"
+                      />
+                      If I don't check in, act for me
+                    </label>
+                    {deadMan.enabled && (
+                      <>
+                        <div className="grid grid-cols-2 gap-2">
+                          <select
+                            value={deadMan.intervalHours}
+                            onChange={(e) => setDeadMan({ ...deadMan, intervalHours: Number(e.target.value) })}
+                            className="w-full bg-black border border-neutral-700 rounded-lg p-2 text-white text-xs outline-none focus:border-athena-500"
+                          >
+                            {CHECK_IN_INTERVALS.map(h => <option key={h} value={h}>Every {h / 24} day{h > 24 ? 's' : ''}</option>)}
+                          </select>
+                          <select
+                            value={deadMan.graceHours}
+                            onChange={(e) => setDeadMan({ ...deadMan, graceHours: Number(e.target.value) })}
+                            className="w-full bg-black border border-neutral-700 rounded-lg p-2 text-white text-xs outline-none focus:border-athena-500"
+                          >
+                            {GRACE_OPTIONS.map(h => <option key={h} value={h}>+{h}h grace</option>)}
+                          </select>
+                        </div>
+                        {(Object.keys(DEAD_MAN_ACTION_LABELS) as DeadManAction[]).map(action => (
+                          <label key={action} className="flex items-center gap-2 text-xs text-gray-300">
+                            <input
+                              type="checkbox"
+                              checked={deadMan.actions.includes(action)}
+                              onChange={() => toggleDeadManAction(action)}
+                              className="accent-athena-500"
+                            />
+                            {DEAD_MAN_ACTION_LABELS[action]}
+                          </label>
+                        ))}
+                        {deadMan.actions.includes('RELEASE_EVIDENCE') && (
+                          <input
+                            type="email"
+                            value={deadMan.lawyerEmail || ''}
+                            onChange={(e) => setDeadMan({ ...deadMan, lawyerEmail: e.target.value.trim() })}
+                            placeholder="Lawyer's email"
+                            className="w-full bg-black border border-neutral-700 rounded-lg p-2 text-white focus:border-athena-500 outline-none text-sm"
+                          />
+                        )}
+                        <p className="text-[10px] text-gray-500">
+                          You get a reminder {deadMan.warningHours}h before the check-in is due. After the deadline the actions run even without this phone: your lawyer and safe contact are notified from our server, and where your network supports it the funds go to your safe wallet on-chain.
+                        </p>
+                      </>
+                    )}
+                  </div>
+                )}
+
+                {/* Duress: what runs quietly behind the decoy dashboard */}
+                {definition.command === 'DURESS' && (
+                  <div className="mt-3 space-y-1">
+                    <p className="text-[10px] text-gray-500">
+                      Opens a decoy dashboard with empty data. Quietly:
+                    </p>
+                    {(Object.keys(DURESS_ACTION_LABELS) as DuressAction[]).map(action => (
+                      <label key={action} className="flex items-center gap-2 text-xs text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={duressActions.includes(action)}
+                          onChange={() => toggleDuressAction(action)}
+                          className="accent-athena-500"
+                        />
+                        {DURESS_ACTION_LABELS[action]}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {/* Covert output for Flash Balance / Pool Status */}
+          <div className="bg-black/40 border border-neutral-800 rounded-xl p-3 space-y-2">
+            <div className="flex justify-between items-center">
+              <span className="text-xs uppercase font-bold text-gray-300">Balance Output</span>
+              <label className="flex items-center gap-2 text-[10px] text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={covert.mode === 'DISPLAY'}
+                  onChange={(e) => setCovert({ ...covert, mode: e.target.checked ? 'DISPLAY' : 'OVERLAY' })}
+                  className="accent-athena-500"
+                />
+                Hide in calculator result
+              </label>
+            </div>
+            {covert.mode === 'DISPLAY' && (
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  value={covert.encoding}
+                  onChange={(e) => setCovert({ ...covert, encoding: e.target.value as CovertEncoding })}
+                  className="w-full bg-black border border-neutral-700 rounded-lg p-2 text-white text-xs outline-none focus:border-athena-500"
+                >
+                  {(Object.keys(COVERT_ENCODING_LABELS) as CovertEncoding[]).map(encoding => (
+                    <option key={encoding} value={encoding}>{COVERT_ENCODING_LABELS[encoding]}</option>
+                  ))}
+                </select>
+                {covert.encoding === 'OFFSET' && (
+                  <input
+                    type="password"
+                    inputMode="decimal"
+                    value={covert.offset || ''}
+                    onChange={(e) => setCovert({ ...covert, offset: parseFloat(e.target.value) || 0 })}
+                    placeholder="Secret number"
+                    autoComplete="off"
+                    className="w-full bg-black border border-neutral-700 rounded-lg p-2 text-white focus:border-athena-500 outline-none font-mono text-sm"
+                  />
+                )}
+              </div>
+            )}
+            <p className="text-[10px] text-gray-500">
+              The balance or pool % appears as the answer to your code and clears on the next key.
+            </p>
+          </div>
+
+          {/* Brute-force lockout */}
+          <div className="bg-black/40 border border-neutral-800 rounded-xl p-3 space-y-2">
+            <div className="flex justify-between items-center">
+              <span className="text-xs uppercase font-bold text-gray-300">Wrong Guesses</span>
+              <select
+                value={lockout.maxAttempts}
+                onChange={(e) => setLockout({ ...lockout, maxAttempts: Number(e.target.value) })}
+                className="bg-black border border-neutral-700 rounded-lg px-2 py-1 text-white text-xs outline-none focus:border-athena-500"
+              >
+                {ATTEMPT_OPTIONS.map(n => <option key={n} value={n}>After {n} tries</option>)}
+              </select>
+            </div>
+            {(Object.keys(LOCKOUT_RESPONSE_LABELS) as LockoutResponse[]).map(response => (
+              <label key={response} className="flex items-center gap-2 text-xs text-gray-300">
+                <input
+                  type="radio"
+                  name="lockout-response"
+                  checked={lockout.response === response}
+                  onChange={() => setLockout({ ...lockout, response })}
+                  className="accent-athena-500"
+                />
+                {LOCKOUT_RESPONSE_LABELS[response]}
+              </label>
+            ))}
+            <p className="text-[10px] text-gray-500">
+              Each lockout lasts twice as long as the last. The calculator keeps working normally.
+            </p>
+          </div>
+
+          <p className="text-[10px] text-orange-400">
+            Codes must end with = or . — the hint is shown in the legend instead of the code.
+          </p>
+
+          {error && (
+            <p className="text-xs text-red-400">{error}</p>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="mt-6 flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 rounded-xl font-medium text-gray-400 hover:bg-neutral-800 transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex-1 bg-athena-600 hover:bg-athena-500 disabled:opacity-50 text-white py-3 rounded-xl font-bold transition shadow-lg shadow-athena-900/20 flex items-center justify-center gap-2"
+          >
+            {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save Codes
+          </button>
+        </div>
+
+        <button
+          onClick={handleReset}
+          disabled={isSaving}
+          className="w-full mt-3 py-2 text-[10px] text-gray-600 hover:text-gray-400 uppercase tracking-widest transition"
+        >
+          Restore factory codes
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -4,13 +4,27 @@ import { WalletState } from '../types';
 import { useAthenaAgent } from '../lib/useAthenaAgent';
 import { Loader2, RefreshCw, TrendingUp, Users, CreditCard, Settings, X, ArrowRight, Wallet, Send } from 'lucide-react';
 import { auth, getSafeContact, SafeContactInfo } from '../lib/firebase';
+import { getDeadManSwitch, DeadManTimeline } from '../lib/dead-man-switch';
+import {
+  CurrencyCode,
+  CURRENCIES,
+  formatMoney,
+  currencySymbol,
+  fromBase,
+  toBase,
+  getDisplayCurrency,
+  saveDisplayCurrency
+} from '../lib/currency';
+import { FxRateBadge } from './FxRateBadge';
+import { YieldChart } from './YieldChart';
+import { YieldStats, YieldHistoryPoint, YIELD_BASIS_LABELS, projectMonthlyYield } from '../lib/yield-tracker';
 
 interface WalletViewProps {
   onOpenSettings: () => void;
 }
 
 export const WalletView: React.FC<WalletViewProps> = ({ onOpenSettings }) => {
-  const { vaultState, isLoading, refreshVaultState, isOnline, agentState, triggerSOS } = useAthenaAgent();
+  const { agent, vaultState, isLoading, refreshVaultState, isOnline, agentState, triggerSOS } = useAthenaAgent();
 
   // Modal states
   const [showRechargeModal, setShowRechargeModal] = useState(false);
@@ -20,6 +34,15 @@ export const WalletView: React.FC<WalletViewProps> = ({ onOpenSettings }) => {
   const [depositCode, setDepositCode] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [safeContact, setSafeContact] = useState<SafeContactInfo | null>(null);
+  const [policyAlert, setPolicyAlert] = useState<string | null>(null);
+  const [checkIn, setCheckIn] = useState<DeadManTimeline>(() => getDeadManSwitch().getTimeline());
+  const [currency, setCurrency] = useState<CurrencyCode>(() => getDisplayCurrency());
+  const [yieldReport, setYieldReport] = useState<{ stats: YieldStats; history: YieldHistoryPoint[] } | null>(null);
+
+  // Alerts from the agent rules the person approved (e.g. goal reached)
+  useEffect(() => {
+    return agent.subscribe('policyAlert', alert => setPolicyAlert(alert.message));
+  }, [agent]);
 
   // Local wallet state that combines blockchain data with UI state
   const [wallet, setWallet] = useState<WalletState>({
@@ -28,7 +51,7 @@ export const WalletView: React.FC<WalletViewProps> = ({ onOpenSettings }) => {
     yieldEarned: 0,
     communityAngels: 0,
     freedomGoalAmount: 0, // Will be set from escape plan
-    apy: 5.4,
+    apy: 0,
   });
 
   // Load safe contact from Firestore
@@ -56,6 +79,14 @@ export const WalletView: React.FC<WalletViewProps> = ({ onOpenSettings }) => {
     }
   }, [vaultState]);
 
+  // APY and share price history, refreshed with the vault
+  useEffect(() => {
+    if (!vaultState) return;
+    agent.getYieldReport()
+      .then(setYieldReport)
+      .catch(e => console.warn('[WalletView] Yield history unavailable:', e));
+  }, [agent, vaultState]);
+
   // Load escape plan from Firestore on mount
   useEffect(() => {
     const loadPlanFromFirestore = async () => {
@@ -92,10 +123,18 @@ export const WalletView: React.FC<WalletViewProps> = ({ onOpenSettings }) => {
   // Note: Yield simulation removed to show real values only
   // Real yield comes from blockchain via vaultState
 
+  // What yield alone adds each month at the trailing APY
+  const monthlyYield = projectMonthlyYield(wallet.totalValue, wallet.apy);
+
   const progressPercentage = wallet.freedomGoalAmount > 0
     ? Math.min((wallet.totalValue / wallet.freedomGoalAmount) * 100, 100)
     : 0;
 
+  const handleCurrencyChange = (next: CurrencyCode) => {
+    saveDisplayCurrency(next);
+    setCurrency(next);
+  };
+
   const handleRefresh = async () => {
     await refreshVaultState();
   };
@@ -111,19 +150,25 @@ export const WalletView: React.FC<WalletViewProps> = ({ onOpenSettings }) => {
     // Simulate deposit verification
     await new Promise(resolve => setTimeout(resolve, 2000));
 
-    const amount = parseFloat(rechargeAmount);
-    setWallet(prev => ({
-      ...prev,
-      savings: prev.savings + amount,
-      totalValue: prev.totalValue + amount
-    }));
+    // Entered in local currency, stored in the base unit
+    const amount = toBase(parseFloat(rechargeAmount), currency);
+
+    // Online, the on-ramp delivers the FRAX on-chain; offline it lands on the simulated ledger
+    let message = 'Deposit submitted for verification. Funds appear once it settles on-chain.';
+    if (!isOnline) {
+      const result = await agent.recordCashDeposit(amount);
+      await refreshVaultState();
+      message = result.success
+        ? 'Deposit verified. Funds added to vault (simulated).'
+        : `Deposit failed: ${result.message}`;
+    }
 
     setIsProcessing(false);
     setShowRechargeModal(false);
     setRechargeAmount('');
     setDepositPhone('');
     setDepositCode('');
-    alert('Deposit submitted for verification. Funds added to vault.');
+    alert(message);
   };
 
   const handleSendToSafe = async () => {
@@ -136,7 +181,7 @@ export const WalletView: React.FC<WalletViewProps> = ({ onOpenSettings }) => {
     // Show success
     setIsProcessing(false);
     setShowSendModal(false);
-    alert(`Transfer initiated: $${wallet.totalValue.toFixed(2)} to ${safeContact.name}`);
+    alert(`Transfer initiated: ${formatMoney(wallet.totalValue, currency)} to ${safeContact.name}`);
   };
 
   return (
@@ -150,7 +195,7 @@ export const WalletView: React.FC<WalletViewProps> = ({ onOpenSettings }) => {
           <div className={`flex items-center gap-1.5 px-2 py-1 rounded-full text-[10px] font-mono ${isOnline ? 'bg-green-500/20 text-green-400' : 'bg-yellow-500/20 text-yellow-400'
             }`}>
             <div className={`w-1.5 h-1.5 rounded-full ${isOnline ? 'bg-green-500' : 'bg-yellow-500 animate-pulse'}`} />
-            {isOnline ? 'FRAXTAL L2' : 'CONNECTING...'}
+            {isOnline ? 'FRAXTAL L2' : vaultState?.isSimulated ? 'SIMULATED' : 'CONNECTING...'}
           </div>
         </div>
         <div className="flex items-center gap-2">
@@ -174,22 +219,63 @@ export const WalletView: React.FC<WalletViewProps> = ({ onOpenSettings }) => {
         </div>
       </div>
 
+      {/* Dead man's switch: pre-expiry warning */}
+      {(checkIn.status === 'WARNING' || checkIn.status === 'GRACE') && (
+        <div className="flex items-center justify-between gap-3 bg-orange-900/30 border border-orange-500/30 rounded-xl px-4 py-3">
+          <span className="text-sm text-orange-300">
+            {checkIn.status === 'GRACE' ? 'Check-in overdue' : 'Check-in due'} - actions run {new Date(checkIn.deadline).toLocaleString()}
+          </span>
+          <button
+            onClick={async () => {
+              await getDeadManSwitch().checkIn();
+              setCheckIn(getDeadManSwitch().getTimeline());
+            }}
+            className="text-xs font-bold text-orange-300 hover:text-white whitespace-nowrap"
+          >
+            I'm OK
+          </button>
+        </div>
+      )}
+
+      {policyAlert && (
+        <div className="flex items-center justify-between gap-3 bg-athena-900/30 border border-athena-500/30 rounded-xl px-4 py-3">
+          <span className="text-sm text-athena-300">🎉 {policyAlert}</span>
+          <button onClick={() => setPolicyAlert(null)} className="text-gray-500 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* Main Balance Card */}
       <div className="bg-gradient-to-br from-athena-900 to-athena-800 p-6 rounded-3xl shadow-2xl border border-athena-600 relative overflow-hidden">
         {/* Abstract Background Shape */}
         <div className="absolute top-0 right-0 w-32 h-32 bg-athena-500/10 rounded-full blur-3xl -mr-10 -mt-10"></div>
 
         <div className="relative z-10">
-          <p className="text-athena-100 text-sm font-medium opacity-80">Total Freedom Funds</p>
+          <div className="flex items-center justify-between">
+            <p className="text-athena-100 text-sm font-medium opacity-80">Total Freedom Funds</p>
+            <div className="flex items-center gap-2">
+              <FxRateBadge />
+              <select
+                value={currency}
+                onChange={e => handleCurrencyChange(e.target.value as CurrencyCode)}
+                className="bg-black/30 border border-athena-600 rounded-lg px-2 py-1 text-[10px] font-mono text-athena-100 outline-none"
+              >
+                {(Object.keys(CURRENCIES) as CurrencyCode[]).map(code => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+            </div>
+          </div>
           <h3 className="text-5xl font-bold text-white mt-2 tracking-tight">
-            ${wallet.totalValue.toFixed(2)}
+            {formatMoney(wallet.totalValue, currency)}
           </h3>
 
           {/* Progress Bar */}
           <div className="mt-6">
             <div className="flex justify-between text-xs font-semibold mb-2">
               <span className="text-athena-200">{progressPercentage.toFixed(0)}% of Goal</span>
-              <span className="text-athena-200/60">${wallet.freedomGoalAmount} Goal</span>
+              <span className="text-athena-200/60">{formatMoney(wallet.freedomGoalAmount, currency, { decimals: 0 })} Goal</span>
             </div>
             <div className="w-full bg-black/30 h-3 rounded-full overflow-hidden backdrop-blur-sm">
               <div
@@ -197,10 +283,18 @@ export const WalletView: React.FC<WalletViewProps> = ({ onOpenSettings }) => {
                 style={{ width: `${progressPercentage}%` }}
               ></div>
             </div>
+            {monthlyYield > 0 && (
+              <p className="text-[10px] text-athena-200/60 mt-2">
+                Yield adds ~{formatMoney(monthlyYield, currency)}/month at {wallet.apy.toFixed(2)}% APY
+                {yieldReport && ` (${YIELD_BASIS_LABELS[yieldReport.stats.basis]})`}
+              </p>
+            )}
           </div>
         </div>
       </div>
 
+      {yieldReport && <YieldChart stats={yieldReport.stats} history={yieldReport.history} />}
+
       {/* Human Actions */}
       <div className="grid grid-cols-2 gap-4">
         <button
@@ -240,7 +334,7 @@ export const WalletView: React.FC<WalletViewProps> = ({ onOpenSettings }) => {
                 <p className="text-xs text-purple-400">12 Anonymous Donors</p>
               </div>
             </div>
-            <span className="text-white font-mono font-bold">+${wallet.communityAngels.toFixed(2)}</span>
+            <span className="text-white font-mono font-bold">+{formatMoney(wallet.communityAngels, currency)}</span>
           </div>
 
           {/* Yield */}
@@ -251,10 +345,10 @@ export const WalletView: React.FC<WalletViewProps> = ({ onOpenSettings }) => {
               </div>
               <div>
                 <p className="text-white font-medium text-sm">Yield Earned (sFRAX)</p>
-                <p className="text-xs text-green-400">Stablecoin Growth ({wallet.apy}% APY)</p>
+                <p className="text-xs text-green-400">Stablecoin Growth ({wallet.apy.toFixed(2)}% APY)</p>
               </div>
             </div>
-            <span className="text-green-400 font-mono font-bold">+${wallet.yieldEarned.toFixed(4)}</span>
+            <span className="text-green-400 font-mono font-bold">+{formatMoney(wallet.yieldEarned, currency, { decimals: 4 })}</span>
           </div>
 
           {/* Savings */}
@@ -268,7 +362,7 @@ export const WalletView: React.FC<WalletViewProps> = ({ onOpenSettings }) => {
                 <p className="text-xs text-blue-400">Encrypted Deposits</p>
               </div>
             </div>
-            <span className="text-white font-mono font-bold">+${wallet.savings.toFixed(2)}</span>
+            <span className="text-white font-mono font-bold">+{formatMoney(wallet.savings, currency)}</span>
           </div>
 
         </div>
@@ -293,9 +387,9 @@ export const WalletView: React.FC<WalletViewProps> = ({ onOpenSettings }) => {
 
             <div className="space-y-4">
               <div>
-                <label className="text-xs text-gray-500 uppercase tracking-wider">Amount (USD)</label>
+                <label className="text-xs text-gray-500 uppercase tracking-wider">Amount ({currency})</label>
                 <div className="relative mt-2">
-                  <span className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500 text-xl">$</span>
+                  <span className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500 text-xl">{currencySymbol(currency)}</span>
                   <input
                     type="number"
                     value={rechargeAmount}
@@ -308,13 +402,14 @@ export const WalletView: React.FC<WalletViewProps> = ({ onOpenSettings }) => {
 
               {/* Quick Amounts */}
               <div className="flex gap-2">
+                {/* USD steps shown and entered in local currency */}
                 {[10, 25, 50, 100].map(amount => (
                   <button
                     key={amount}
-                    onClick={() => setRechargeAmount(amount.toString())}
+                    onClick={() => setRechargeAmount(Math.round(fromBase(amount, currency)).toString())}
                     className="flex-1 py-2 bg-neutral-800 hover:bg-neutral-700 text-white rounded-lg text-sm font-medium transition"
                   >
-                    ${amount}
+                    {formatMoney(amount, currency, { decimals: 0 })}
                   </button>
                 ))}
               </div>
@@ -386,7 +481,7 @@ export const WalletView: React.FC<WalletViewProps> = ({ onOpenSettings }) => {
                 <p className="text-gray-400 text-xs">
                   1. Send amount to <strong>+51 980 500 802</strong> (Athena Vault)<br />
                   2. Enter your details above for verification<br />
-                  3. Funds are converted to sFRAX (5.4% APY)
+                  3. Funds are converted to sFRAX ({wallet.apy.toFixed(2)}% APY)
                 </p>
               </div>
 
@@ -456,7 +551,7 @@ export const WalletView: React.FC<WalletViewProps> = ({ onOpenSettings }) => {
                 <div className="bg-orange-500/10 border border-orange-500/30 rounded-xl p-4">
                   <p className="text-xs text-gray-500 uppercase tracking-wider">Amount to Send</p>
                   <p className="text-3xl font-mono font-bold text-white mt-1">
-                    ${wallet.totalValue.toFixed(2)}
+                    {formatMoney(wallet.totalValue, currency)}
                   </p>
                   <p className="text-orange-400 text-xs mt-1">
                     Entire vault balance will be transferred
@@ -0,0 +1,63 @@
+import React from 'react';
+import { TrendingUp } from 'lucide-react';
+import { YieldStats, YieldHistoryPoint, YIELD_BASIS_LABELS } from '../lib/yield-tracker';
+
+interface Props {
+  stats: YieldStats;
+  history: YieldHistoryPoint[];
+}
+
+const formatApy = (apy: number | null): string => apy === null ? '—' : `${apy.toFixed(2)}%`;
+
+// Vault share price growth over the last 30 days, with trailing APYs
+export const YieldChart: React.FC<Props> = ({ stats, history }) => {
+  const maxYield = Math.max(...history.map(point => point.yieldPercent), 0);
+  const first = history[0]?.at ?? 0;
+  const span = history.length > 1 ? history[history.length - 1].at - first : 0;
+  const growth = history.length > 0 ? history[history.length - 1].yieldPercent : 0;
+
+  const points = history
+    .map(point => {
+      const x = span > 0 ? ((point.at - first) / span) * 100 : 0;
+      const y = maxYield > 0 ? 38 - (point.yieldPercent / maxYield) * 36 : 38;
+      return `${x.toFixed(2)},${y.toFixed(2)}`;
+    })
+    .join(' ');
+
+  return (
+    <div className="bg-neutral-900/50 p-5 rounded-3xl border border-neutral-800">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-gray-400 text-xs uppercase tracking-wider font-bold ml-1 flex items-center gap-2">
+          <TrendingUp className="w-4 h-4 text-green-400" />
+          Vault Yield
+        </h4>
+        <span className="text-[10px] text-gray-500 font-mono">
+          {stats.apy.toFixed(2)}% APY ({YIELD_BASIS_LABELS[stats.basis]})
+        </span>
+      </div>
+
+      {history.length > 1 ? (
+        <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-20">
+          <polyline points={points} fill="none" stroke="#4ade80" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+        </svg>
+      ) : (
+        <p className="text-xs text-gray-500 text-center py-6">Collecting share price samples...</p>
+      )}
+
+      <div className="grid grid-cols-3 gap-2 mt-3 text-center">
+        <div className="bg-black/40 border border-neutral-800 rounded-xl p-2">
+          <p className="text-[10px] text-gray-500">7-day</p>
+          <p className="text-sm font-mono text-white">{formatApy(stats.apy7d)}</p>
+        </div>
+        <div className="bg-black/40 border border-neutral-800 rounded-xl p-2">
+          <p className="text-[10px] text-gray-500">30-day</p>
+          <p className="text-sm font-mono text-white">{formatApy(stats.apy30d)}</p>
+        </div>
+        <div className="bg-black/40 border border-neutral-800 rounded-xl p-2">
+          <p className="text-[10px] text-gray-500">Growth</p>
+          <p className="text-sm font-mono text-green-400">+{growth.toFixed(3)}%</p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+interface IERC20Minimal {
+    function balanceOf(address account) external view returns (uint256);
+    function allowance(address owner, address spender) external view returns (uint256);
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+}
+
+/**
+ * @title DeadManSwitch - On-chain check-in deadline
+ * @dev Enforces the app's dead man's switch without the phone
+ *
+ * How it works:
+ * 1. The person's wallet approves its tokens (sFRAX, FRAX, USDC) to this
+ *    contract and calls arm(safeContact, interval, grace, tokens, releaseHash)
+ * 2. Every check-in in the app calls checkIn(releaseHash), moving the deadline
+ * 3. Once lastCheckIn + interval + grace has passed, ANYONE (the safe contact,
+ *    the lawyer, a keeper) can call trigger(owner): the approved balances are
+ *    pulled to the safe contact, once
+ *
+ * releaseHash is the hash of the evidence bundle staged off-chain, so whoever
+ * receives it can check it is the one the person last confirmed.
+ * Native gas tokens can't be pulled - only approved ERC-20s.
+ */
+contract DeadManSwitch {
+
+    struct Switch {
+        address safeContact;
+        uint64 interval;        // Seconds between check-ins
+        uint64 grace;           // Seconds after a missed check-in before trigger()
+        uint64 lastCheckIn;
+        bool armed;
+        bool fired;
+        bytes32 releaseHash;
+    }
+
+    mapping(address => Switch) public switches;
+    mapping(address => address[]) private switchTokens;
+
+    event Armed(address indexed owner, address indexed safeContact, uint64 interval, uint64 grace);
+    event CheckedIn(address indexed owner, uint64 at, bytes32 releaseHash);
+    event Disarmed(address indexed owner);
+    event Fired(address indexed owner, address indexed safeContact, bytes32 releaseHash);
+    event TokenSwept(address indexed owner, address indexed token, uint256 amount, bool ok);
+
+    /**
+     * @dev Arm (or re-arm) the caller's switch. Counts as a check-in.
+     */
+    function arm(
+        address safeContact,
+        uint64 interval,
+        uint64 grace,
+        address[] calldata tokens,
+        bytes32 releaseHash
+    ) external {
+        require(safeContact != address(0), "Invalid safe contact");
+        require(interval > 0, "Invalid interval");
+
+        switches[msg.sender] = Switch({
+            safeContact: safeContact,
+            interval: interval,
+            grace: grace,
+            lastCheckIn: uint64(block.timestamp),
+            armed: true,
+            fired: false,
+            releaseHash: releaseHash
+        });
+        switchTokens[msg.sender] = tokens;
+
+        emit Armed(msg.sender, safeContact, interval, grace);
+        emit CheckedIn(msg.sender, uint64(block.timestamp), releaseHash);
+    }
+
+    /**
+     * @dev Proof of life. A zero releaseHash keeps the current one.
+     */
+    function checkIn(bytes32 releaseHash) external {
+        Switch storage s = switches[msg.sender];
+        require(s.armed && !s.fired, "Not armed");
+
+        s.lastCheckIn = uint64(block.timestamp);
+        if (releaseHash != bytes32(0)) {
+            s.releaseHash = releaseHash;
+        }
+        emit CheckedIn(msg.sender, s.lastCheckIn, s.releaseHash);
+    }
+
+    function disarm() external {
+        require(switches[msg.sender].armed, "Not armed");
+        switches[msg.sender].armed = false;
+        emit Disarmed(msg.sender);
+    }
+
+    /**
+     * @dev Time after which trigger() runs (0 when not armed)
+     */
+    function deadlineOf(address owner) public view returns (uint256) {
+        Switch storage s = switches[owner];
+        if (!s.armed) return 0;
+        return uint256(s.lastCheckIn) + s.interval + s.grace;
+    }
+
+    function tokensOf(address owner) external view returns (address[] memory) {
+        return switchTokens[owner];
+    }
+
+    /**
+     * @dev Missed deadline: send what the owner approved to the safe contact.
+     * One failing token doesn't stop the others.
+     */
+    function trigger(address owner) external {
+        Switch storage s = switches[owner];
+        require(s.armed && !s.fired, "Not armed");
+        require(block.timestamp >= deadlineOf(owner), "Deadline not reached");
+
+        s.fired = true;
+
+        address[] memory tokens = switchTokens[owner];
+        for (uint256 i = 0; i < tokens.length; i++) {
+            uint256 amount = _sweepable(IERC20Minimal(tokens[i]), owner);
+            if (amount == 0) continue;
+
+            (bool ok, bytes memory data) = tokens[i].call(
+                abi.encodeWithSelector(IERC20Minimal.transferFrom.selector, owner, s.safeContact, amount)
+            );
+            ok = ok && (data.length == 0 || abi.decode(data, (bool)));
+            emit TokenSwept(owner, tokens[i], amount, ok);
+        }
+
+        emit Fired(owner, s.safeContact, s.releaseHash);
+    }
+
+    /**
+     * @dev min(balance, allowance); 0 for anything that isn't a token
+     */
+    function _sweepable(IERC20Minimal token, address owner) private view returns (uint256) {
+        if (address(token).code.length == 0) return 0;
+        try token.balanceOf(owner) returns (uint256 balance) {
+            try token.allowance(owner, address(this)) returns (uint256 allowed) {
+                return balance < allowed ? balance : allowed;
+            } catch {
+                return 0;
+            }
+        } catch {
+            return 0;
+        }
+    }
+}
@@ -0,0 +1,79 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "./MockERC20.sol";
+
+/**
+ * @title MockERC4626 - Minimal sFRAX-style vault for the local devnet
+ * @dev Implements the subset of ERC-4626 FraxService uses. Share price is
+ * totalAssets / totalSupply, so minting FRAX to this contract accrues yield.
+ *
+ * NEVER deploy outside a local node.
+ */
+contract MockERC4626 {
+
+    MockERC20 public immutable asset;
+
+    string public name = "Staked FRAX (local)";
+    string public symbol = "sFRAX";
+    uint8 public constant decimals = 18;
+    uint256 public totalSupply;
+
+    mapping(address => uint256) public balanceOf;
+
+    event Transfer(address indexed from, address indexed to, uint256 value);
+    event Deposit(address indexed sender, address indexed owner, uint256 assets, uint256 shares);
+    event Withdraw(address indexed sender, address indexed receiver, address indexed owner, uint256 assets, uint256 shares);
+
+    constructor(MockERC20 _asset) {
+        asset = _asset;
+    }
+
+    // ============ VIEWS ============
+
+    function totalAssets() public view returns (uint256) {
+        return asset.balanceOf(address(this));
+    }
+
+    function convertToShares(uint256 assets) public view returns (uint256) {
+        return totalSupply == 0 ? assets : (assets * totalSupply) / totalAssets();
+    }
+
+    function convertToAssets(uint256 shares) public view returns (uint256) {
+        return totalSupply == 0 ? shares : (shares * totalAssets()) / totalSupply;
+    }
+
+    function previewRedeem(uint256 shares) external view returns (uint256) {
+        return convertToAssets(shares);
+    }
+
+    function maxWithdraw(address owner) external view returns (uint256) {
+        return convertToAssets(balanceOf[owner]);
+    }
+
+    // ============ ACTIONS ============
+
+    function deposit(uint256 assets, address receiver) external returns (uint256 shares) {
+        shares = convertToShares(assets);
+        require(shares > 0, "Zero shares");
+        require(asset.transferFrom(msg.sender, address(this), assets), "Transfer failed");
+
+        totalSupply += shares;
+        balanceOf[receiver] += shares;
+        emit Transfer(address(0), receiver, shares);
+        emit Deposit(msg.sender, receiver, assets, shares);
+    }
+
+    function redeem(uint256 shares, address receiver, address owner) external returns (uint256 assets) {
+        require(msg.sender == owner, "Only owner");
+        require(balanceOf[owner] >= shares, "Insufficient shares");
+        assets = convertToAssets(shares);
+
+        balanceOf[owner] -= shares;
+        totalSupply -= shares;
+        emit Transfer(owner, address(0), shares);
+
+        require(asset.transfer(receiver, assets), "Transfer failed");
+        emit Withdraw(msg.sender, receiver, owner, assets, shares);
+    }
+}
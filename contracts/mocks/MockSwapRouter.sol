@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "./MockERC20.sol";
+
+/**
+ * @title MockSwapRouter - Uniswap V2-style router for the local devnet
+ * @dev Swaps between the mock stablecoins at 1:1 (adjusted for decimals):
+ * the input is pulled into the router and the output is minted, so no
+ * liquidity is needed. Same signatures as Fraxswap/Uniswap V2 routers for
+ * the two calls the SOS sweep uses.
+ *
+ * NEVER deploy outside a local node.
+ */
+contract MockSwapRouter {
+
+    function getAmountsOut(uint256 amountIn, address[] calldata path) public view returns (uint256[] memory amounts) {
+        require(path.length == 2, "Direct pairs only");
+        amounts = new uint256[](2);
+        amounts[0] = amountIn;
+        amounts[1] = amountIn * (10 ** MockERC20(path[1]).decimals()) / (10 ** MockERC20(path[0]).decimals());
+    }
+
+    function swapExactTokensForTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external returns (uint256[] memory amounts) {
+        require(block.timestamp <= deadline, "Expired");
+        amounts = getAmountsOut(amountIn, path);
+        require(amounts[1] >= amountOutMin, "Insufficient output");
+
+        MockERC20(path[0]).transferFrom(msg.sender, address(this), amountIn);
+        MockERC20(path[1]).mint(to, amounts[1]);
+    }
+}
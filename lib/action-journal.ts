@@ -0,0 +1,317 @@
+/**
+ * Action Journal
+ *
+ * Append-only, hash-chained record of everything the agent did on the
+ * person's behalf (inputs, results, tx hashes, time). Each entry commits to
+ * the previous one:
+ *   hash = SHA-256([seq, action, timestamp, inputs, result, txHashes, prevHash])
+ * so editing, removing or reordering any entry breaks every later hash.
+ *
+ * The journal lives in the agent's (encrypted) storage. Entries recorded
+ * while the session is locked (silent SOS) wait in memory and are chained
+ * on the next unlock. A wipe destroys the journal with everything else.
+ *
+ * Anyone holding the unlock code could rebuild a whole chain from
+ * GENESIS_HASH, so after each write the head is also anchored off the device
+ * (JournalAnchorStore - Firestore, server-timestamped, create-only). An
+ * export carries the anchors and verifyJournal() checks every anchored entry
+ * is still there, unchanged. Anchors are per chain (keyed by the hash of its
+ * first entry): a rebuilt chain can't reuse the anchors of the real one, and
+ * its own carry the server time it was rebuilt at.
+ */
+
+import { generateHash } from '../services/cryptoUtils';
+import { StorageBackend } from './storage-backend';
+
+// ============ TYPES ============
+
+export type JournalAction =
+    | 'CASE_CREATED'
+    | 'BUDGET_CALCULATED'
+    | 'DEPOSIT_RECORDED'
+    | 'EVIDENCE_SECURED'
+    | 'YIELD_OPTIMIZED'
+    | 'SOS_TRIGGERED'
+    | 'SILENT_SOS'
+    | 'POLICY_EXECUTED';
+
+export interface JournalEntry {
+    seq: number;
+    action: JournalAction;
+    timestamp: number;
+    inputs: Record<string, unknown>;
+    result: Record<string, unknown>;
+    txHashes: string[];
+    prevHash: string;
+    hash: string;
+}
+
+export interface JournalDetails {
+    inputs?: Record<string, unknown>;
+    result?: Record<string, unknown>;
+    txHashes?: string[];
+}
+
+export interface JournalVerification {
+    valid: boolean;
+    entries: number;
+    headHash: string;
+    anchoredThrough: number | null; // Highest seq matched by an off-device anchor
+    brokenAt?: number; // seq of the first bad entry
+    reason?: string;
+}
+
+/**
+ * Chain head recorded off the device
+ */
+export interface JournalAnchor {
+    rootHash: string;   // Hash of entry 0 - which chain this anchors
+    seq: number;
+    headHash: string;   // Hash of entry `seq`
+    anchoredAt: string | null; // Server time (ISO), null until the server has the write
+}
+
+/**
+ * Where anchors are kept. Must not let the device change or delete one
+ * once written.
+ */
+export interface JournalAnchorStore {
+    save(anchor: Omit<JournalAnchor, 'anchoredAt'>): Promise<void>;
+    load(rootHash: string): Promise<JournalAnchor[]>;
+}
+
+/**
+ * Self-contained document for an advocate; verifyJournal() re-checks it.
+ * The anchors are what the app fetched at export time - an advocate can
+ * re-fetch them from the server to rule out an edited export.
+ */
+export interface JournalExport {
+    format: 'athena-action-journal';
+    version: 2;
+    exportedAt: string;
+    caseId: string | null;
+    verification: JournalVerification;
+    anchors: JournalAnchor[];
+    entries: JournalEntry[];
+}
+
+interface PendingEntry {
+    action: JournalAction;
+    timestamp: number;
+    details: JournalDetails;
+}
+
+// ============ CONSTANTS ============
+
+export const JOURNAL_KEY = 'athena_journal';
+export const GENESIS_HASH = '0x' + '0'.repeat(64);
+
+export const JOURNAL_ACTION_LABELS: Record<JournalAction, string> = {
+    CASE_CREATED: 'Case created',
+    BUDGET_CALCULATED: 'Freedom budget calculated',
+    DEPOSIT_RECORDED: 'Cash deposit',
+    EVIDENCE_SECURED: 'Evidence secured',
+    YIELD_OPTIMIZED: 'Savings staked',
+    SOS_TRIGGERED: 'SOS transfer',
+    SILENT_SOS: 'Silent SOS',
+    POLICY_EXECUTED: 'Approved rule applied'
+};
+
+// ============ HASHING ============
+
+const hashEntry = (entry: Omit<JournalEntry, 'hash'>): Promise<string> => {
+    return generateHash(JSON.stringify([
+        entry.seq,
+        entry.action,
+        entry.timestamp,
+        entry.inputs,
+        entry.result,
+        entry.txHashes,
+        entry.prevHash
+    ]));
+};
+
+/**
+ * Re-check the whole chain, and that it still contains every anchored head.
+ * Works on exported copies too.
+ */
+export const verifyJournal = async (entries: JournalEntry[], anchors: JournalAnchor[] = []): Promise<JournalVerification> => {
+    let prevHash = GENESIS_HASH;
+
+    for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+        const fail = (reason: string): JournalVerification => ({
+            valid: false,
+            entries: entries.length,
+            headHash: prevHash,
+            anchoredThrough: null,
+            brokenAt: entry.seq ?? i,
+            reason
+        });
+
+        if (entry.seq !== i) return fail(`expected seq ${i}, found ${entry.seq}`);
+        if (entry.prevHash !== prevHash) return fail('previous hash does not match');
+        if (i > 0 && entry.timestamp < entries[i - 1].timestamp) return fail('timestamp goes backwards');
+
+        const { hash, ...body } = entry;
+        if (await hashEntry(body) !== hash) return fail('entry was modified');
+
+        prevHash = hash;
+    }
+
+    let anchoredThrough: number | null = null;
+    for (const anchor of anchors) {
+        const fail = (reason: string): JournalVerification => ({
+            valid: false,
+            entries: entries.length,
+            headHash: prevHash,
+            anchoredThrough,
+            brokenAt: anchor.seq,
+            reason
+        });
+
+        if (entries.length === 0 || anchor.rootHash !== entries[0].hash) return fail('anchor belongs to another chain');
+        if (anchor.seq >= entries.length) return fail('journal ends before an anchored entry');
+        if (entries[anchor.seq].hash !== anchor.headHash) return fail('entry differs from its anchored copy');
+
+        anchoredThrough = Math.max(anchoredThrough ?? -1, anchor.seq);
+    }
+
+    return { valid: true, entries: entries.length, headHash: prevHash, anchoredThrough };
+};
+
+// ============ JOURNAL CLASS ============
+
+export class ActionJournal {
+    private entries: JournalEntry[] | null = null; // Null until loaded (unlocked)
+    private pending: PendingEntry[] = [];
+    private queue: Promise<void> = Promise.resolve();
+
+    constructor(
+        private storage: StorageBackend,
+        private key: string = JOURNAL_KEY,
+        private anchors: JournalAnchorStore | null = null
+    ) { }
+
+    /**
+     * Append an entry. Never throws: if storage is locked the entry is kept
+     * in memory and chained by the next flush().
+     */
+    record(action: JournalAction, details: JournalDetails = {}): Promise<void> {
+        this.pending.push({ action, timestamp: Date.now(), details });
+        return this.flush();
+    }
+
+    /**
+     * Chain and persist pending entries (called again after unlock)
+     */
+    flush(): Promise<void> {
+        this.queue = this.queue
+            .then(async () => {
+                if (this.pending.length === 0) return;
+
+                const entries = await this.load();
+                const added: JournalEntry[] = [];
+                for (const item of this.pending) {
+                    const last = added[added.length - 1] || entries[entries.length - 1];
+                    const body: Omit<JournalEntry, 'hash'> = {
+                        seq: entries.length + added.length,
+                        action: item.action,
+                        timestamp: Math.max(item.timestamp, last?.timestamp ?? 0),
+                        inputs: item.details.inputs || {},
+                        result: item.details.result || {},
+                        txHashes: item.details.txHashes || [],
+                        prevHash: last?.hash ?? GENESIS_HASH
+                    };
+                    added.push({ ...body, hash: await hashEntry(body) });
+                }
+
+                const next = [...entries, ...added];
+                await this.storage.set(this.key, JSON.stringify(next));
+                this.entries = next;
+                this.pending = [];
+                this.anchor(next);
+            })
+            .catch(() => {
+                // Locked - entries stay pending until the next unlock
+            });
+        return this.queue;
+    }
+
+    async getEntries(): Promise<JournalEntry[]> {
+        await this.queue;
+        return [...await this.load()];
+    }
+
+    async verify(): Promise<JournalVerification> {
+        const entries = await this.getEntries();
+        return verifyJournal(entries, await this.loadAnchors(entries));
+    }
+
+    /**
+     * JSON document the person can hand to an advocate
+     */
+    async export(caseId: string | null = null): Promise<string> {
+        const entries = await this.getEntries();
+        const anchors = await this.loadAnchors(entries);
+        const doc: JournalExport = {
+            format: 'athena-action-journal',
+            version: 2,
+            exportedAt: new Date().toISOString(),
+            caseId,
+            verification: await verifyJournal(entries, anchors),
+            anchors,
+            entries
+        };
+        return JSON.stringify(doc, null, 2);
+    }
+
+    /**
+     * Drop the decrypted copy (session lock). Pending entries are kept.
+     */
+    unload(): void {
+        this.entries = null;
+    }
+
+    /**
+     * Delete the journal (wipe)
+     */
+    async destroy(): Promise<void> {
+        this.pending = [];
+        this.entries = [];
+        await this.queue;
+        await this.storage.remove(this.key);
+    }
+
+    /**
+     * Record the head off the device. Offline, the next write anchors the newer head.
+     */
+    private anchor(entries: JournalEntry[]): void {
+        if (!this.anchors || entries.length === 0) return;
+        const head = entries[entries.length - 1];
+        this.anchors
+            .save({ rootHash: entries[0].hash, seq: head.seq, headHash: head.hash })
+            .catch(() => {
+                // Offline or signed out - the chain itself is still intact
+            });
+    }
+
+    private async loadAnchors(entries: JournalEntry[]): Promise<JournalAnchor[]> {
+        if (!this.anchors || entries.length === 0) return [];
+        try {
+            return await this.anchors.load(entries[0].hash);
+        } catch (e) {
+            return []; // Offline - the export shows nothing as anchored
+        }
+    }
+
+    private async load(): Promise<JournalEntry[]> {
+        if (!this.entries) {
+            const saved = await this.storage.get(this.key);
+            this.entries = saved ? JSON.parse(saved) as JournalEntry[] : [];
+        }
+        return this.entries;
+    }
+}
+
+export default ActionJournal;
@@ -19,6 +19,7 @@ import {
 import { z } from "zod";
 import { getFraxService, VaultState } from "./frax-service";
 import { generateHash } from "../services/cryptoUtils";
+import { getBudgetEngine, parseBudgetInputs, COST_TABLES } from "./budget-engine";
 
 // ============ SCHEMAS ============
 
@@ -55,34 +56,34 @@ async function getVaultBalance(): Promise<VaultState> {
     return await fraxService.getVaultState();
 }
 
+// Destination and risk level of a calculate_budget call; the rest goes through parseBudgetInputs
+const BudgetToolTargetSchema = z.object({
+    destination: z.string().max(200).catch(''),
+    riskLevel: z.number().min(1).max(10).catch(5)
+}).catch({ destination: '', riskLevel: 5 });
+
 /**
- * Calculate escape budget based on parameters
+ * Calculate escape budget based on parameters (shared BudgetEngine).
+ * The arguments come from the model, so they are parsed - never passed on as is.
  */
-function calculateBudget(params: {
-    dependents: number;
-    destination: string;
-    riskLevel: number;
-    hasOwnMoney: boolean;
-}): {
+function calculateBudget(params: unknown): {
     targetAmount: number;
+    region: string;
     breakdown: string;
     urgency: string;
 } {
-    const TRANSPORT_PER_PERSON = 30;
-    const EMERGENCY_FOOD = 100;
-    const TEMP_SHELTER_PER_NIGHT = 75;
-    const NIGHTS_NEEDED = params.riskLevel >= 8 ? 1 : 3;
-
-    const transportCost = (params.dependents + 1) * TRANSPORT_PER_PERSON;
-    const shelterCost = params.hasOwnMoney ? 0 : TEMP_SHELTER_PER_NIGHT * NIGHTS_NEEDED;
-    const totalTarget = transportCost + EMERGENCY_FOOD + shelterCost;
-
-    const breakdown = `Transport: $${transportCost} (${params.dependents + 1} people), Food: $${EMERGENCY_FOOD}, Shelter: $${shelterCost}`;
-    const urgency = params.riskLevel >= 8 ? "CRITICAL - Immediate action required" :
-        params.riskLevel >= 5 ? "HIGH - Plan within 2 weeks" :
-            "MODERATE - Build savings gradually";
-
-    return { targetAmount: totalTarget, breakdown, urgency };
+    const inputs = parseBudgetInputs(params);
+    const { destination, riskLevel } = BudgetToolTargetSchema.parse(params ?? {});
+    const budget = getBudgetEngine().calculate({
+        ...inputs,
+        destination,
+        riskLevel,
+        hasOwnMoney: !!inputs.hasOwnMoney
+    });
+
+    const breakdown = budget.lines.map(line => `${line.label}: $${line.amount}`).join(', ');
+
+    return { targetAmount: budget.targetAmount, region: COST_TABLES[budget.region].label, breakdown, urgency: budget.urgency };
 }
 
 /**
@@ -185,7 +186,12 @@ export const athenaLlmAgent = new LlmAgent({
                 dependents: z.number().describe("Number of people escaping with the user (children, elderly)"),
                 destination: z.string().describe("Target city or location for escape"),
                 riskLevel: z.number().min(1).max(10).describe("Current danger level 1-10"),
-                hasOwnMoney: z.boolean().describe("Whether user has access to their own funds")
+                hasOwnMoney: z.boolean().describe("Whether user has access to their own funds"),
+                dependentAges: z.array(z.number()).optional().describe("Ages of the dependents, if known"),
+                distanceKm: z.number().optional().describe("Approximate distance to the destination in km"),
+                pets: z.number().optional().describe("Number of pets coming along"),
+                needsMedication: z.boolean().optional().describe("Whether anyone needs regular medication"),
+                includeLegal: z.boolean().optional().describe("Include protection order / custody legal fees (default true)")
             })
         }),
         new FunctionTool(secureEvidence, {
@@ -0,0 +1,167 @@
+/**
+ * Agent Policies
+ *
+ * Rules the person has approved for the agent to act on by itself. The
+ * agent's scheduler perceives the vault and evaluates them on every tick;
+ * evaluation is pure (no side effects) so any config can be simulated
+ * with a dry run before it is approved.
+ *
+ * Every policy is off until the person turns it on.
+ */
+
+import { VaultState } from './frax-service';
+import { EscapePlan } from './athena-agent';
+import { formatMoney } from './currency';
+
+// ============ TYPES ============
+
+export type AgentPolicyId = 'AUTO_STAKE' | 'GOAL_ALERT';
+
+export interface AgentPolicyConfig {
+    autoStake: {
+        enabled: boolean;
+        minIdleFrax: number; // Stake once this much FRAX sits idle
+    };
+    goalAlert: {
+        enabled: boolean;
+        targetPercent: number;
+        alertedForTarget?: number; // Goal amount already alerted for (one alert per goal)
+    };
+    intervalMs: number;
+}
+
+export interface PolicyDecision {
+    policy: AgentPolicyId;
+    action: 'STAKE' | 'ALERT' | 'NONE';
+    reason: string;
+    amount?: number;
+}
+
+export interface PolicyRunResult extends PolicyDecision {
+    executed: boolean;
+    outcome?: string;
+}
+
+export interface PolicyRun {
+    timestamp: number;
+    dryRun: boolean;
+    results: PolicyRunResult[];
+}
+
+export interface PolicyAlert {
+    policy: AgentPolicyId;
+    message: string;
+}
+
+export const AGENT_POLICY_LABELS: Record<AgentPolicyId, string> = {
+    AUTO_STAKE: 'Auto-stake idle savings',
+    GOAL_ALERT: 'Alert me when my goal is reached'
+};
+
+// ============ CONFIG ============
+
+const STORAGE_KEY = 'athena_agent_policies';
+
+export const DEFAULT_AGENT_POLICY_CONFIG: AgentPolicyConfig = {
+    autoStake: { enabled: false, minIdleFrax: 50 },
+    goalAlert: { enabled: false, targetPercent: 100 },
+    intervalMs: 5 * 60 * 1000
+};
+
+export function getAgentPolicyConfig(): AgentPolicyConfig {
+    try {
+        if (typeof localStorage !== 'undefined') {
+            const saved = localStorage.getItem(STORAGE_KEY);
+            if (saved) {
+                const parsed = JSON.parse(saved) as Partial<AgentPolicyConfig>;
+                return {
+                    autoStake: { ...DEFAULT_AGENT_POLICY_CONFIG.autoStake, ...parsed.autoStake },
+                    goalAlert: { ...DEFAULT_AGENT_POLICY_CONFIG.goalAlert, ...parsed.goalAlert },
+                    intervalMs: parsed.intervalMs || DEFAULT_AGENT_POLICY_CONFIG.intervalMs
+                };
+            }
+        }
+    } catch (e) {
+        // Corrupted config - use defaults
+    }
+    return {
+        autoStake: { ...DEFAULT_AGENT_POLICY_CONFIG.autoStake },
+        goalAlert: { ...DEFAULT_AGENT_POLICY_CONFIG.goalAlert },
+        intervalMs: DEFAULT_AGENT_POLICY_CONFIG.intervalMs
+    };
+}
+
+export function saveAgentPolicyConfig(config: AgentPolicyConfig): void {
+    try {
+        if (typeof localStorage !== 'undefined') {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+        }
+    } catch (e) {
+        // Storage might be unavailable
+    }
+}
+
+/**
+ * Forget the policy settings (wipe)
+ */
+export function clearAgentPolicyConfig(): void {
+    try {
+        if (typeof localStorage !== 'undefined') {
+            localStorage.removeItem(STORAGE_KEY);
+        }
+    } catch (e) {
+        // Storage might be unavailable
+    }
+}
+
+// ============ EVALUATION ============
+
+/**
+ * Decide what each enabled policy would do with the current state
+ */
+export function evaluatePolicies(
+    config: AgentPolicyConfig,
+    vault: VaultState,
+    plan: EscapePlan | null
+): PolicyDecision[] {
+    const decisions: PolicyDecision[] = [];
+
+    if (config.autoStake.enabled) {
+        if (vault.fraxBalance >= config.autoStake.minIdleFrax) {
+            decisions.push({
+                policy: 'AUTO_STAKE',
+                action: 'STAKE',
+                amount: vault.fraxBalance,
+                reason: `${vault.fraxBalance.toFixed(2)} FRAX idle (threshold ${config.autoStake.minIdleFrax})`
+            });
+        } else {
+            decisions.push({
+                policy: 'AUTO_STAKE',
+                action: 'NONE',
+                reason: `${vault.fraxBalance.toFixed(2)} FRAX idle, below ${config.autoStake.minIdleFrax}`
+            });
+        }
+    }
+
+    if (config.goalAlert.enabled) {
+        const target = plan?.freedomGoal.targetAmount || 0;
+        const percent = target > 0 ? (vault.totalValueUsd / target) * 100 : 0;
+
+        if (target <= 0) {
+            decisions.push({ policy: 'GOAL_ALERT', action: 'NONE', reason: 'No freedom goal set' });
+        } else if (percent < config.goalAlert.targetPercent) {
+            decisions.push({ policy: 'GOAL_ALERT', action: 'NONE', reason: `${percent.toFixed(0)}% of goal` });
+        } else if (config.goalAlert.alertedForTarget === target) {
+            decisions.push({ policy: 'GOAL_ALERT', action: 'NONE', reason: `${percent.toFixed(0)}% of goal, already alerted` });
+        } else {
+            decisions.push({
+                policy: 'GOAL_ALERT',
+                action: 'ALERT',
+                amount: target,
+                reason: `${percent.toFixed(0)}% of ${formatMoney(target, undefined, { decimals: 0 })} goal reached`
+            });
+        }
+    }
+
+    return decisions;
+}
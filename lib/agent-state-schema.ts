@@ -0,0 +1,163 @@
+/**
+ * Agent State Schema
+ *
+ * Persisted agent state is wrapped in a versioned envelope:
+ *   { version: 2, savedAt, state: AgentState }
+ *
+ * Loading runs the migration chain from the stored version up to the
+ * current one, then validates the result. Anything that can't be read
+ * (bad JSON, failed validation, a version from a newer build) is reported
+ * as unreadable so the caller can quarantine it instead of overwriting it.
+ *
+ * Version history:
+ * - 1: bare AgentState, no envelope (before this module)
+ * - 2: envelope; evidence records always carry a status
+ */
+
+import { AgentState, EvidenceRecord } from './athena-agent';
+
+// ============ TYPES ============
+
+export interface StateEnvelope {
+    version: number;
+    savedAt: number;
+    state: AgentState;
+}
+
+export interface DecodeResult {
+    state: AgentState | null;   // Null when the stored value can't be used
+    reason?: string;            // Why it can't be used
+    migratedFrom?: number;      // Set when an older version was upgraded
+}
+
+type Migration = (state: any) => any;
+
+// ============ CONSTANTS ============
+
+export const CURRENT_STATE_VERSION = 2;
+
+/**
+ * MIGRATIONS[n] upgrades a version n state to version n + 1
+ */
+const MIGRATIONS: Record<number, Migration> = {
+    1: (state) => ({
+        case: state.case ?? null,
+        evidence: Array.isArray(state.evidence)
+            ? state.evidence.map((record: any) => ({
+                ...record,
+                status: record.status ?? (record.txHash ? 'ON_CHAIN' : 'PENDING')
+            }))
+            : [],
+        escapePlan: state.escapePlan ?? null,
+        vaultState: state.vaultState ?? null,
+        lastUpdated: typeof state.lastUpdated === 'number' ? state.lastUpdated : Date.now()
+    })
+};
+
+const CASE_STATUSES = ['ACTIVE', 'EVACUATED', 'ARCHIVED'];
+const EVIDENCE_TYPES = ['TEXT', 'IMAGE', 'AUDIO', 'VIDEO'];
+const EVIDENCE_STATUSES = ['PENDING', 'ON_CHAIN', 'FAILED'];
+
+// ============ VALIDATION ============
+
+const isObject = (value: unknown): value is Record<string, any> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const validateEvidence = (record: EvidenceRecord, index: number): string | null => {
+    if (!isObject(record)) return `evidence[${index}] is not an object`;
+    if (typeof record.id !== 'string' || typeof record.hash !== 'string') return `evidence[${index}] has no id/hash`;
+    if (!EVIDENCE_TYPES.includes(record.type)) return `evidence[${index}] has unknown type ${record.type}`;
+    if (!EVIDENCE_STATUSES.includes(record.status)) return `evidence[${index}] has unknown status ${record.status}`;
+    if (typeof record.timestamp !== 'number') return `evidence[${index}] has no timestamp`;
+    return null;
+};
+
+/**
+ * First problem found in a current-version state, or null when it is valid
+ */
+export const validateAgentState = (state: unknown): string | null => {
+    if (!isObject(state)) return 'state is not an object';
+
+    if (state.case !== null) {
+        if (!isObject(state.case)) return 'case is not an object';
+        if (typeof state.case.caseId !== 'string') return 'case has no caseId';
+        if (!CASE_STATUSES.includes(state.case.status)) return `case has unknown status ${state.case.status}`;
+    }
+
+    if (!Array.isArray(state.evidence)) return 'evidence is not a list';
+    for (let i = 0; i < state.evidence.length; i++) {
+        const problem = validateEvidence(state.evidence[i], i);
+        if (problem) return problem;
+    }
+
+    if (state.escapePlan !== null) {
+        if (!isObject(state.escapePlan) || !isObject(state.escapePlan.freedomGoal)) return 'escapePlan is malformed';
+        if (typeof state.escapePlan.freedomGoal.targetAmount !== 'number') return 'escapePlan has no target amount';
+    }
+
+    if (state.vaultState !== null && !isObject(state.vaultState)) return 'vaultState is not an object';
+    if (typeof state.lastUpdated !== 'number') return 'lastUpdated is missing';
+
+    return null;
+};
+
+// ============ ENCODE / DECODE ============
+
+export const encodeAgentState = (state: AgentState): string => {
+    const envelope: StateEnvelope = {
+        version: CURRENT_STATE_VERSION,
+        savedAt: Date.now(),
+        state
+    };
+    return JSON.stringify(envelope);
+};
+
+/**
+ * Parse, migrate and validate a stored state. Never throws.
+ */
+export const decodeAgentState = (raw: string): DecodeResult => {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(raw);
+    } catch (e) {
+        return { state: null, reason: 'not valid JSON' };
+    }
+
+    if (!isObject(parsed)) {
+        return { state: null, reason: 'not an object' };
+    }
+
+    // Version 1 had no envelope
+    const hasEnvelope = typeof parsed.version === 'number' && 'state' in parsed;
+    const storedVersion: number = hasEnvelope ? parsed.version : 1;
+    let state: any = hasEnvelope ? parsed.state : parsed;
+
+    if (!Number.isInteger(storedVersion) || storedVersion < 1) {
+        return { state: null, reason: `invalid version ${storedVersion}` };
+    }
+    if (storedVersion > CURRENT_STATE_VERSION) {
+        return { state: null, reason: `version ${storedVersion} is newer than this build (${CURRENT_STATE_VERSION})` };
+    }
+
+    for (let version = storedVersion; version < CURRENT_STATE_VERSION; version++) {
+        const migrate = MIGRATIONS[version];
+        if (!migrate) {
+            return { state: null, reason: `no migration from version ${version}` };
+        }
+        try {
+            state = migrate(state);
+        } catch (e) {
+            return { state: null, reason: `migration from version ${version} failed` };
+        }
+    }
+
+    const problem = validateAgentState(state);
+    if (problem) {
+        return { state: null, reason: problem };
+    }
+
+    return storedVersion < CURRENT_STATE_VERSION
+        ? { state, migratedFrom: storedVersion }
+        : { state };
+};
@@ -10,18 +10,46 @@
  * - planEscape(): AI-powered escape planning with Gemini
  * - optimizeYield(): Auto-stake idle funds into sFRAX
  * - triggerSOS(): Emergency liquidation protocol
+ *
+ * The agent is observable: subscribe() to stateChanged, vaultUpdated,
+ * evidenceAdded and sosStarted/sosFinished instead of keeping copies.
+ * Every action is also written to a hash-chained journal (getJournal()).
+ *
+ * Autonomy: while unlocked, a scheduler runs the perceive → evaluate → act
+ * loop over the policies the person approved (agent-policies.ts).
  */
 
-import { getFraxService, VaultState, SOSResult, TransactionResult } from './frax-service';
+import { getFraxService, VaultState, SOSResult, SOSOptions, SOSDestinationResolver, TransactionResult } from './frax-service';
+import { YieldStats, YieldHistoryPoint, projectMonthlyYield } from './yield-tracker';
 import { generateHash } from '../services/cryptoUtils';
+import { getEncryptedStorage } from './encrypted-storage';
+import { getCaseIdentityService } from './case-identity';
+import { StorageBackend, getDefaultStorageBackend, isLockableStorage } from './storage-backend';
+import { encodeAgentState, decodeAgentState } from './agent-state-schema';
+import { ActionJournal, JournalAnchorStore, JOURNAL_KEY } from './action-journal';
+import { auth, saveJournalAnchor, loadJournalAnchors } from './firebase';
+import {
+    AgentPolicyConfig,
+    PolicyRun,
+    PolicyRunResult,
+    PolicyAlert,
+    getAgentPolicyConfig,
+    saveAgentPolicyConfig,
+    clearAgentPolicyConfig,
+    evaluatePolicies
+} from './agent-policies';
+import { getBudgetEngine, BudgetInput, BudgetBreakdown } from './budget-engine';
+import { formatMoney } from './currency';
+import { getPlanTaskStore } from './plan-tasks';
 
 // ============ TYPES ============
 
 export interface AthenaCase {
     caseId: string;
-    depositAddress: string;
+    depositAddress: string | null; // Null when neither a deposit key nor a wallet is available
     createdAt: number;
     status: 'ACTIVE' | 'EVACUATED' | 'ARCHIVED';
+    duressFlaggedAt?: number; // Set when the app was opened with the duress code
 }
 
 export interface EvidenceRecord {
@@ -31,6 +59,7 @@ export interface EvidenceRecord {
     timestamp: number;
     txHash?: string;
     status: 'PENDING' | 'ON_CHAIN' | 'FAILED';
+    mediaStored?: boolean; // Raw media kept locally (encrypted), see getEvidenceMedia()
     metadata?: {
         category?: string;
         riskLevel?: number;
@@ -44,6 +73,7 @@ export interface EscapePlan {
         targetAmount: number;
         currentAmount: number;
         currency: string;
+        breakdown?: BudgetBreakdown;
     };
     strategy: {
         step1: string;
@@ -63,6 +93,41 @@ export interface YieldOptimizationResult {
     message: string;
 }
 
+export type SilentSOSStep = 'SNAPSHOT_EVIDENCE' | 'ALERT_CONTACT' | 'TRANSFER_FUNDS';
+
+export interface SOSAlert {
+    caseId?: string;
+    message: string;
+    evidenceHash?: string;
+}
+
+/**
+ * Delivers the discreet SOS alert. Implementations decide the channel
+ * (Firestore queue, SMS gateway, ...). Resolve false on failure, never throw.
+ */
+export interface SafeContactNotifier {
+    readonly name: string;
+    notify(alert: SOSAlert): Promise<boolean>;
+}
+
+export interface EvidenceBundle {
+    caseId: string | null;
+    content: string;  // JSON: records, media, journal export
+    hash: string;     // SHA-256 of content (0x-prefixed, fits a bytes32)
+}
+
+export interface SilentSOSOptions {
+    steps: SilentSOSStep[];
+    notifier?: SafeContactNotifier;
+    safeContactAddress?: string; // Required for TRANSFER_FUNDS
+    preferredAsset?: SOSOptions['preferredAsset'];
+}
+
+export interface SilentSOSResult {
+    evidenceHash?: string;
+    logs: { step: SilentSOSStep; success: boolean; detail: string }[];
+}
+
 export interface AgentState {
     case: AthenaCase | null;
     evidence: EvidenceRecord[];
@@ -71,23 +136,114 @@ export interface AgentState {
     lastUpdated: number;
 }
 
+const createEmptyState = (): AgentState => ({
+    case: null,
+    evidence: [],
+    escapePlan: null,
+    vaultState: null,
+    lastUpdated: Date.now()
+});
+
+/**
+ * Events emitted by the agent. Payloads are snapshots - listeners must not mutate them.
+ */
+export interface AgentEventMap {
+    stateChanged: AgentState;
+    vaultUpdated: VaultState;
+    evidenceAdded: EvidenceRecord;
+    sosStarted: { safeContactAddress: string };
+    sosFinished: SOSResult;
+    policyRun: PolicyRun;
+    policyAlert: PolicyAlert;
+}
+
+export type AgentEvent = keyof AgentEventMap;
+export type AgentListener<E extends AgentEvent> = (payload: AgentEventMap[E]) => void;
+
+export interface AthenaAgentOptions {
+    storage?: StorageBackend;       // Agent state + evidence media (encrypted in the browser)
+    plainStorage?: StorageBackend;  // Non-sensitive values readable while locked
+    journalAnchors?: JournalAnchorStore | null; // Off-device journal heads (default: Firestore)
+}
+
+// Journal heads anchored in Firestore for the signed-in person
+const firestoreJournalAnchors: JournalAnchorStore = {
+    save: async anchor => {
+        const user = auth.currentUser;
+        if (user) await saveJournalAnchor(user.uid, anchor);
+    },
+    load: async rootHash => {
+        const user = auth.currentUser;
+        return user ? loadJournalAnchors(user.uid, rootHash) : [];
+    }
+};
+
+const STATE_KEY = 'athena_agent_state';
+const MEDIA_KEY_PREFIX = 'athena_media:';
+
+// Stored states that could not be read are moved here, never overwritten
+const QUARANTINE_KEY_PREFIX = 'athena_quarantine:';
+
+// Plaintext hash of pending evidence, so a silent SOS can anchor it while locked
+const SEALED_DIGEST_KEY = 'athena_sealed_digest';
+
+// Plaintext freedom-goal progress (a bare percentage), so POOL_STATUS works while locked
+const POOL_PROGRESS_KEY = 'athena_pool_progress';
+
+// Media (data URLs) put in an evidence bundle, total - the server copy is one document
+const BUNDLE_MEDIA_BUDGET = 600 * 1024;
+
+// Vault state younger than this is reused by policy runs instead of a new RPC round
+const FRESH_VAULT_MS = 60 * 1000;
+const POLICY_LOG_SIZE = 20;
+
+// Written by earlier versions - only ever removed
+const LEGACY_KEYS = ['athena_evidence', 'athena_plan'];
+
+const goalPercentage = (valueUsd: number, plan: EscapePlan): number => {
+    const target = plan.freedomGoal.targetAmount;
+    return target > 0 ? Math.min((valueUsd / target) * 100, 100) : 0;
+};
+
 // ============ AGENT CLASS ============
 
 export class AthenaAgent {
     private state: AgentState;
     private fraxService = getFraxService();
+    private storage: StorageBackend;
+    private plainStorage: StorageBackend;
+    private writeQueue: Promise<void> = Promise.resolve();
+    private listeners = new Map<AgentEvent, Set<AgentListener<any>>>();
+    private journal: ActionJournal;
+    private scheduler: ReturnType<typeof setInterval> | null = null;
+    private policyLog: PolicyRun[] = [];
+    private scheduledRun: Promise<PolicyRun> | null = null;
+    private sosDestination: SOSDestinationResolver | null = null;
 
-    constructor() {
-        this.state = {
-            case: null,
-            evidence: [],
-            escapePlan: null,
-            vaultState: null,
-            lastUpdated: Date.now()
-        };
+    // State is encrypted at rest: nothing is readable until unlock()
+    private locked = true;
+
+    constructor(options: AthenaAgentOptions = {}) {
+        this.state = createEmptyState();
+        this.storage = options.storage || getEncryptedStorage();
+        this.plainStorage = options.plainStorage || getDefaultStorageBackend();
+        this.journal = new ActionJournal(
+            this.storage,
+            JOURNAL_KEY,
+            options.journalAnchors !== undefined ? options.journalAnchors : firestoreJournalAnchors
+        );
 
-        // Try to restore state from localStorage
-        this.loadState();
+        // Pending transactions and the SOS marker name the safe wallet: encrypted like the state
+        // (while locked only hashes and step indexes go to plain storage)
+        this.fraxService.useStorage(this.storage, this.plainStorage);
+    }
+
+    /**
+     * Where an SOS interrupted while locked is resumed to after the next
+     * unlock - the safe contact is kept outside the agent (Firestore)
+     */
+    setSOSDestinationResolver(resolver: SOSDestinationResolver): void {
+        this.sosDestination = resolver;
     }
 
     // ============ PERCEPTION ============
@@ -100,6 +256,7 @@ export class AthenaAgent {
         this.state.vaultState = vaultState;
         this.state.lastUpdated = Date.now();
         this.saveState();
+        this.emit('vaultUpdated', vaultState);
         return vaultState;
     }
 
@@ -110,6 +267,33 @@ export class AthenaAgent {
         return { ...this.state };
     }
 
+    // ============ EVENTS ============
+
+    /**
+     * Subscribe to an agent event. Returns an unsubscribe function.
+     */
+    subscribe<E extends AgentEvent>(event: E, listener: AgentListener<E>): () => void {
+        let set = this.listeners.get(event);
+        if (!set) {
+            set = new Set();
+            this.listeners.set(event, set);
+        }
+        set.add(listener);
+        return () => {
+            set.delete(listener);
+        };
+    }
+
+    private emit<E extends AgentEvent>(event: E, payload: AgentEventMap[E]): void {
+        this.listeners.get(event)?.forEach(listener => {
+            try {
+                listener(payload);
+            } catch (e) {
+                console.error(`[AthenaAgent] ${event} listener failed:`, e);
+            }
+        });
+    }
+
     // ============ REASONING/PLANNING ============
 
     /**
@@ -117,49 +301,31 @@ export class AthenaAgent {
      * This is the entry point for a new user
      */
     async createAnonymousCase(): Promise<AthenaCase> {
-        // Generate unique case ID
-        const timestamp = Date.now();
-        const randomPart = Math.random().toString(36).substring(2, 8).toUpperCase();
-        const caseId = `ATHENA-${timestamp}-${randomPart}`;
-
-        // Generate deposit address (for crowdfunding)
-        // In production, this would be a derived HD wallet address
-        const depositAddress = this.fraxService.getAddress();
+        // Checksummed case ID + deposit address derived from the HD key (for crowdfunding)
+        const { caseId, depositAddress } = getCaseIdentityService().createIdentity(this.fraxService.getWalletAddress());
 
         const newCase: AthenaCase = {
             caseId,
             depositAddress,
-            createdAt: timestamp,
+            createdAt: Date.now(),
             status: 'ACTIVE'
         };
 
         this.state.case = newCase;
         this.saveState();
 
+        this.journal.record('CASE_CREATED', { result: { caseId, depositAddress } });
+
         console.log(`[AthenaAgent] Case created: ${caseId}`);
         return newCase;
     }
 
     /**
      * Analyze situation and create escape plan
-     * Uses reasoning to determine budget based on inputs
+     * Costs come from the BudgetEngine (same numbers the LLM tool quotes)
      */
-    calculateFreedomBudget(params: {
-        dependents: number;
-        destination: string;
-        hasOwnMoney: boolean;
-        riskLevel: number;
-    }): EscapePlan {
-        // Base costs (in USD)
-        const TRANSPORT_PER_PERSON = 30;
-        const EMERGENCY_FOOD = 100;
-        const TEMP_SHELTER_PER_NIGHT = 75;
-        const NIGHTS_NEEDED = params.riskLevel >= 8 ? 1 : 3;
-
-        // Calculate target
-        const transportCost = (params.dependents + 1) * TRANSPORT_PER_PERSON;
-        const shelterCost = params.hasOwnMoney ? 0 : TEMP_SHELTER_PER_NIGHT * NIGHTS_NEEDED;
-        const totalTarget = transportCost + EMERGENCY_FOOD + shelterCost;
+    calculateFreedomBudget(params: BudgetInput): EscapePlan {
+        const budget = getBudgetEngine().calculate(params);
 
         // Generate strategy based on risk
         let strategy: EscapePlan['strategy'];
@@ -187,9 +353,10 @@ export class AthenaAgent {
         const plan: EscapePlan = {
             isReady: false,
             freedomGoal: {
-                targetAmount: totalTarget,
+                targetAmount: budget.targetAmount,
                 currentAmount: this.state.vaultState?.totalValueUsd || 0,
-                currency: 'USD'
+                currency: budget.currency,
+                breakdown: budget.breakdown
             },
             strategy,
             riskLevel: params.riskLevel,
@@ -199,6 +366,16 @@ export class AthenaAgent {
         this.state.escapePlan = plan;
         this.saveState();
 
+        this.journal.record('BUDGET_CALCULATED', {
+            inputs: { ...params },
+            result: {
+                region: budget.region,
+                targetAmount: budget.targetAmount,
+                breakdown: { ...budget.breakdown },
+                currentAmount: plan.freedomGoal.currentAmount
+            }
+        });
+
         return plan;
     }
 
@@ -238,14 +415,73 @@ export class AthenaAgent {
             record.status = 'FAILED';
         }
 
+        // Keep the media itself locally (IndexedDB, encrypted) - too big for localStorage
+        if (type !== 'TEXT' && !this.locked) {
+            try {
+                await this.storage.set(MEDIA_KEY_PREFIX + record.id, content);
+                record.mediaStored = true;
+            } catch (e) {
+                console.warn('[AthenaAgent] Evidence media not stored locally:', e);
+            }
+        }
+
         // Add to state
         this.state.evidence.push(record);
         this.saveState();
+        this.emit('evidenceAdded', record);
+
+        this.journal.record('EVIDENCE_SECURED', {
+            inputs: { evidenceId: record.id, type, category: metadata?.category ?? null },
+            result: { hash: record.hash, status: record.status },
+            txHashes: record.txHash ? [record.txHash] : []
+        });
 
         console.log(`[AthenaAgent] Evidence secured: ${record.id} -> ${record.status}`);
         return record;
     }
 
+    /**
+     * Raw media of an evidence record, if it was stored locally
+     */
+    async getEvidenceMedia(evidenceId: string): Promise<string | null> {
+        if (this.locked) return null;
+        return this.storage.get(MEDIA_KEY_PREFIX + evidenceId);
+    }
+
+    /**
+     * Evidence bundle for a designated lawyer: the records, their media (while
+     * it fits in BUNDLE_MEDIA_BUDGET) and the journal export. Null while locked.
+     */
+    async buildEvidenceBundle(): Promise<EvidenceBundle | null> {
+        if (this.locked) return null;
+
+        const caseId = this.state.case?.caseId || null;
+        const evidence: Array<EvidenceRecord & { media?: string }> = [];
+        const mediaOmitted: string[] = [];
+        let mediaBytes = 0;
+        for (const record of this.state.evidence) {
+            const media = record.mediaStored ? await this.getEvidenceMedia(record.id).catch(() => null) : null;
+            if (media && mediaBytes + media.length <= BUNDLE_MEDIA_BUDGET) {
+                mediaBytes += media.length;
+                evidence.push({ ...record, media });
+            } else {
+                if (media) mediaOmitted.push(record.id);
+                evidence.push({ ...record });
+            }
+        }
+
+        const content = JSON.stringify({
+            format: 'athena-evidence-bundle',
+            version: 1,
+            createdAt: new Date().toISOString(),
+            caseId,
+            evidence,
+            mediaOmitted,
+            journal: JSON.parse(await this.journal.export(caseId))
+        });
+        return { caseId, content, hash: await generateHash(content) };
+    }
+
     /**
      * Optimize yield by staking idle FRAX into sFRAX
      */
@@ -266,37 +502,74 @@ export class AthenaAgent {
 
         // Deposit all idle FRAX into sFRAX vault
         const result = await this.fraxService.depositToVault(currentState.fraxBalance);
+        let outcome: YieldOptimizationResult;
 
         if (result.success) {
             const newState = await this.perceiveFinancialState();
-            const monthlyYield = (newState.sFraxBalance * (currentState.apy / 100)) / 12;
+            const monthlyYield = projectMonthlyYield(newState.sFraxValueInFrax, newState.apy);
 
-            return {
+            outcome = {
                 success: true,
                 previousBalance: currentState.sFraxBalance,
                 newBalance: newState.sFraxBalance,
-                apy: currentState.apy,
+                apy: newState.apy,
                 projectedMonthlyYield: monthlyYield,
-                message: `Optimized: +${currentState.fraxBalance.toFixed(2)} FRAX staked at ${currentState.apy}% APY`
+                message: `Optimized: +${currentState.fraxBalance.toFixed(2)} FRAX staked at ${newState.apy}% APY`
+            };
+        } else {
+            outcome = {
+                success: false,
+                previousBalance: currentState.sFraxBalance,
+                newBalance: currentState.sFraxBalance,
+                apy: currentState.apy,
+                projectedMonthlyYield: 0,
+                message: result.message
             };
         }
 
-        return {
-            success: false,
-            previousBalance: currentState.sFraxBalance,
-            newBalance: currentState.sFraxBalance,
-            apy: currentState.apy,
-            projectedMonthlyYield: 0,
-            message: result.message
-        };
+        this.journal.record('YIELD_OPTIMIZED', {
+            inputs: { amount: currentState.fraxBalance },
+            result: { success: outcome.success, newBalance: outcome.newBalance, apy: outcome.apy, message: outcome.message },
+            txHashes: result.txHash ? [result.txHash] : []
+        });
+
+        return outcome;
+    }
+
+    /**
+     * Vault APY (trailing 7/30-day from the share price) and its history
+     */
+    async getYieldReport(days: number = 30): Promise<{ stats: YieldStats; history: YieldHistoryPoint[] }> {
+        const stats = await this.fraxService.getYieldStats();
+        return { stats, history: this.fraxService.getYieldHistory(days) };
+    }
+
+    /**
+     * Record a verified cash deposit into the vault (simulated ledger while offline)
+     */
+    async recordCashDeposit(amountFrax: number): Promise<TransactionResult> {
+        const result = await this.fraxService.recordSimulatedDeposit(amountFrax);
+
+        if (result.success) {
+            await this.perceiveFinancialState();
+        }
+
+        this.journal.record('DEPOSIT_RECORDED', {
+            inputs: { amount: amountFrax },
+            result: { success: result.success, simulated: result.simulated ?? false, message: result.message },
+            txHashes: result.txHash ? [result.txHash] : []
+        });
+
+        return result;
     }
 
     /**
      * Execute SOS Protocol
      * Liquidates all positions and transfers to safe contact
      */
-    async triggerSOS(safeContactAddress: string): Promise<SOSResult> {
+    async triggerSOS(safeContactAddress: string, options: SOSOptions = {}): Promise<SOSResult> {
         console.log('[AthenaAgent] ⚠️ SOS PROTOCOL INITIATED');
+        this.emit('sosStarted', { safeContactAddress });
 
         // Update case status
         if (this.state.case) {
@@ -304,23 +577,149 @@ export class AthenaAgent {
         }
 
         // Execute blockchain SOS
-        const result = await this.fraxService.triggerSOS(safeContactAddress);
+        const result = await this.fraxService.triggerSOS(safeContactAddress, options);
+        this.finishSOS(result, options.preferredAsset ?? null);
+        return result;
+    }
+
+    /**
+     * Journal an SOS run (fresh or resumed after an unlock) and report it
+     */
+    private finishSOS(result: SOSResult, preferredAsset: SOSOptions['preferredAsset']): void {
+        this.journal.record('SOS_TRIGGERED', {
+            inputs: { safeContactAddress: result.destinationAddress, preferredAsset: preferredAsset ?? null, resumed: !!result.resumed },
+            result: {
+                success: result.success,
+                liquidatedAmount: result.liquidatedAmount,
+                transferredAmount: result.transferredAmount,
+                assets: result.assets.map(({ asset, amount, status }) => ({ asset, amount, status }))
+            },
+            txHashes: result.txHashes
+        });
 
         // Clear local state after successful evacuation
         if (result.success) {
             this.clearLocalState();
         }
 
+        this.emit('sosFinished', result);
+    }
+
+    /**
+     * Silent SOS (calculator code): nothing is shown, every step is attempted
+     * even if an earlier one fails. Order matters - evidence is snapshotted
+     * first so the alert can reference it, funds move last.
+     */
+    async runSilentSOS(options: SilentSOSOptions): Promise<SilentSOSResult> {
+        const result: SilentSOSResult = { logs: [] };
+        const state = this.state;
+        const log = (step: SilentSOSStep, success: boolean, detail: string) => {
+            result.logs.push({ step, success, detail });
+        };
+
+        if (options.steps.includes('SNAPSHOT_EVIDENCE')) {
+            try {
+                const pending = state.evidence.filter(record => record.status !== 'ON_CHAIN');
+                const sealed = this.locked ? await this.plainStorage.get(SEALED_DIGEST_KEY).catch(() => null) : null;
+                if (sealed) {
+                    // Locked: the records can't be read, anchor their sealed digest instead
+                    result.evidenceHash = sealed;
+                    const anchor = await this.fraxService.storeEvidenceHash(sealed, JSON.stringify({ kind: 'SOS_SNAPSHOT', sealed: true }));
+                    log('SNAPSHOT_EVIDENCE', anchor.success, `Sealed digest -> ${anchor.txHash || anchor.message}`);
+                } else if (pending.length === 0) {
+                    log('SNAPSHOT_EVIDENCE', true, 'No pending evidence');
+                } else {
+                    const snapshot = JSON.stringify(pending.map(record => ({ id: record.id, hash: record.hash })));
+                    result.evidenceHash = await generateHash(snapshot);
+                    const anchor = await this.fraxService.storeEvidenceHash(
+                        result.evidenceHash,
+                        JSON.stringify({ kind: 'SOS_SNAPSHOT', records: pending.length })
+                    );
+                    log('SNAPSHOT_EVIDENCE', anchor.success, `${pending.length} record(s) -> ${anchor.txHash || anchor.message}`);
+                }
+            } catch (e: any) {
+                log('SNAPSHOT_EVIDENCE', false, e?.message || 'Snapshot failed');
+            }
+        }
+
+        if (options.steps.includes('ALERT_CONTACT')) {
+            if (!options.notifier) {
+                log('ALERT_CONTACT', false, 'No notifier configured');
+            } else {
+                try {
+                    const sent = await options.notifier.notify({
+                        caseId: state.case?.caseId,
+                        message: 'Emergency: please check on me as soon as it is safe.',
+                        evidenceHash: result.evidenceHash
+                    });
+                    log('ALERT_CONTACT', sent, sent ? `Sent via ${options.notifier.name}` : `${options.notifier.name} failed`);
+                } catch (e: any) {
+                    log('ALERT_CONTACT', false, e?.message || 'Alert failed');
+                }
+            }
+        }
+
+        if (options.steps.includes('TRANSFER_FUNDS')) {
+            if (!options.safeContactAddress) {
+                log('TRANSFER_FUNDS', false, 'No safe wallet address');
+            } else {
+                try {
+                    const sos = await this.triggerSOS(options.safeContactAddress, { preferredAsset: options.preferredAsset });
+                    log('TRANSFER_FUNDS', sos.success, sos.success ? `${formatMoney(sos.transferredAmount)} transferred` : 'Transfer failed');
+                } catch (e: any) {
+                    log('TRANSFER_FUNDS', false, e?.message || 'Transfer failed');
+                }
+            }
+        }
+
+        this.journal.record('SILENT_SOS', {
+            inputs: { steps: options.steps },
+            result: { evidenceHash: result.evidenceHash ?? null, logs: result.logs }
+        });
+
+        console.log(`[AthenaAgent] Silent SOS finished (${result.logs.filter(l => l.success).length}/${result.logs.length} steps ok)`);
         return result;
     }
 
+    /**
+     * Record that the app was unlocked under duress.
+     * Only touches local case metadata - nothing user-visible changes.
+     */
+    flagDuress(): AthenaCase | null {
+        // Locked (the usual case behind the decoy): the encrypted state can't
+        // be touched without the unlock code, the backend flag still applies
+        if (this.locked || !this.state.case) {
+            return null;
+        }
+
+        this.state.case.duressFlaggedAt = Date.now();
+        this.saveState();
+
+        return this.state.case;
+    }
+
+    /**
+     * Wait until queued state writes have landed (before a lock)
+     */
+    async flush(): Promise<void> {
+        await this.writeQueue;
+    }
+
+    /**
+     * Case metadata, null while the session is locked
+     */
+    peekCase(): AthenaCase | null {
+        return this.locked ? null : this.state.case;
+    }
+
     /**
      * Quick balance check (for Flash Check command)
      */
-    async quickBalanceCheck(): Promise<{ balance: string; isOnline: boolean }> {
+    async quickBalanceCheck(): Promise<{ balance: string; totalValueUsd: number; isOnline: boolean }> {
         const state = await this.perceiveFinancialState();
         return {
-            balance: `$${state.totalValueUsd.toFixed(2)}`,
+            balance: formatMoney(state.totalValueUsd),
+            totalValueUsd: state.totalValueUsd,
             isOnline: state.isOnline
         };
     }
@@ -330,71 +729,304 @@ export class AthenaAgent {
      */
     async getPoolStatus(): Promise<{ percentage: number; donors: number }> {
         const state = await this.perceiveFinancialState();
-        const plan = this.state.escapePlan;
 
-        if (!plan) {
-            return { percentage: 0, donors: 0 };
+        let percentage: number;
+        if (this.locked) {
+            // The plan is encrypted: use the progress saved at the last unlocked write
+            const saved = await this.plainStorage.get(POOL_PROGRESS_KEY).catch(() => null);
+            if (saved === null || !isFinite(Number(saved))) {
+                return { percentage: 0, donors: 0 };
+            }
+            percentage = Number(saved);
+        } else {
+            const plan = this.state.escapePlan;
+            if (!plan) {
+                return { percentage: 0, donors: 0 };
+            }
+            percentage = goalPercentage(state.totalValueUsd, plan);
         }
 
-        const percentage = Math.min(
-            (state.totalValueUsd / plan.freedomGoal.targetAmount) * 100,
-            100
-        );
-
         // Simulated donor count (in production, would track real donations)
         const donors = Math.floor(percentage / 8) + 1;
 
         return { percentage, donors };
     }
 
-    // ============ STATE MANAGEMENT ============
+    // ============ AUTONOMY ============
 
-    private saveState(): void {
-        try {
-            if (typeof localStorage !== 'undefined') {
-                localStorage.setItem('athena_agent_state', JSON.stringify(this.state));
+    /**
+     * Start the perceive → evaluate → act loop (runs only while unlocked)
+     */
+    startScheduler(intervalMs: number = getAgentPolicyConfig().intervalMs): void {
+        this.stopScheduler();
+        this.scheduler = setInterval(() => this.schedulerTick(), intervalMs);
+    }
+
+    stopScheduler(): void {
+        if (this.scheduler) {
+            clearInterval(this.scheduler);
+            this.scheduler = null;
+        }
+    }
+
+    isSchedulerRunning(): boolean {
+        return this.scheduler !== null;
+    }
+
+    /**
+     * Evaluate policies against the current vault and plan. With dryRun the
+     * decisions are logged and returned but nothing is executed - pass a
+     * draft config to simulate it before approving.
+     */
+    async runPolicies(options: { dryRun?: boolean; config?: AgentPolicyConfig } = {}): Promise<PolicyRun> {
+        const dryRun = options.dryRun ?? false;
+        const config = options.config || getAgentPolicyConfig();
+        const run: PolicyRun = { timestamp: Date.now(), dryRun, results: [] };
+
+        // Plan and balances are unreadable while locked
+        if (this.locked) {
+            return run;
+        }
+
+        const vault = this.state.vaultState && Date.now() - this.state.lastUpdated < FRESH_VAULT_MS
+            ? this.state.vaultState
+            : await this.perceiveFinancialState();
+
+        for (const decision of evaluatePolicies(config, vault, this.state.escapePlan)) {
+            const result: PolicyRunResult = { ...decision, executed: false };
+
+            if (!dryRun && decision.action === 'STAKE') {
+                const staked = await this.optimizeYield();
+                result.executed = staked.success;
+                result.outcome = staked.message;
+            } else if (!dryRun && decision.action === 'ALERT') {
+                const saved = getAgentPolicyConfig();
+                saveAgentPolicyConfig({ ...saved, goalAlert: { ...saved.goalAlert, alertedForTarget: decision.amount } });
+                this.emit('policyAlert', { policy: decision.policy, message: decision.reason });
+                result.executed = true;
+                result.outcome = 'Alert shown';
             }
-        } catch (e) {
-            // Storage might be unavailable
+
+            if (result.executed) {
+                this.journal.record('POLICY_EXECUTED', {
+                    inputs: { policy: decision.policy, reason: decision.reason },
+                    result: { action: decision.action, outcome: result.outcome ?? null }
+                });
+            }
+
+            console.log(`[AthenaAgent] Policy ${decision.policy}${dryRun ? ' (dry run)' : ''}: ${decision.action} - ${decision.reason}`);
+            run.results.push(result);
         }
+
+        this.policyLog = [run, ...this.policyLog].slice(0, POLICY_LOG_SIZE);
+        this.emit('policyRun', run);
+        return run;
+    }
+
+    /**
+     * Most recent policy runs, newest first (memory only)
+     */
+    getPolicyLog(): PolicyRun[] {
+        return [...this.policyLog];
     }
 
-    private loadState(): void {
+    private async schedulerTick(): Promise<void> {
+        const config = getAgentPolicyConfig();
+        if (this.locked || this.scheduledRun || (!config.autoStake.enabled && !config.goalAlert.enabled)) {
+            return;
+        }
+
+        this.scheduledRun = this.runPolicies({ config });
         try {
-            if (typeof localStorage !== 'undefined') {
-                const saved = localStorage.getItem('athena_agent_state');
-                if (saved) {
-                    this.state = JSON.parse(saved);
-                }
-            }
+            await this.scheduledRun;
         } catch (e) {
-            // Storage might be unavailable or corrupted
+            console.warn('[AthenaAgent] Scheduled policy run failed:', e);
+        } finally {
+            this.scheduledRun = null;
         }
     }
 
+    // ============ STATE MANAGEMENT ============
+
     /**
-     * Clear all local state (used after SOS or Wipe)
+     * Drop everything held in memory (session lock) and forget the data key.
+     * Persisted state is untouched and nothing is written back until unlock().
      */
-    clearLocalState(): void {
-        this.state = {
-            case: null,
-            evidence: [],
-            escapePlan: null,
-            vaultState: null,
-            lastUpdated: Date.now()
-        };
+    lock(): void {
+        this.locked = true;
+        this.stopScheduler();
+        this.policyLog = [];
+        this.state = createEmptyState();
+        if (isLockableStorage(this.storage)) {
+            this.storage.lock();
+        }
+        this.journal.unload();
+        getPlanTaskStore().clear();
+        this.emit('stateChanged', this.getState());
+        console.log('[AthenaAgent] Session locked');
+    }
+
+    /**
+     * Decrypt state after the storage was unlocked with an unlock code.
+     * Fails closed: with a missing or wrong key the agent stays locked on an
+     * empty state (looks like a fresh install) and never overwrites storage.
+     */
+    async unlock(): Promise<boolean> {
+        await this.writeQueue;
+
+        // Plain backends (memory in Node) have nothing to unlock
+        if (isLockableStorage(this.storage) && !this.storage.isUnlocked()) {
+            this.lock();
+            return false;
+        }
 
         try {
-            if (typeof localStorage !== 'undefined') {
-                localStorage.removeItem('athena_agent_state');
-                localStorage.removeItem('athena_evidence');
-                localStorage.removeItem('athena_plan');
+            const saved = await this.storage.get(STATE_KEY);
+            const decoded = saved ? decodeAgentState(saved) : null;
+
+            if (decoded && !decoded.state) {
+                await this.quarantineState(saved, decoded.reason);
+            }
+
+            this.state = decoded?.state || createEmptyState();
+            this.locked = false;
+
+            // Chain anything recorded while locked (silent SOS)
+            this.journal.unload();
+            this.journal.flush();
+            this.startScheduler();
+
+            // Pending transactions / an interrupted SOS are only readable now
+            this.fraxService.resumeInterrupted(this.sosDestination || undefined)
+                .then(result => { if (result) this.finishSOS(result, null); })
+                .catch(e => console.error('[AthenaAgent] Resume failed:', e));
+
+            // Re-save so legacy plaintext / older versions are stored current and encrypted
+            if (decoded?.state) {
+                if (decoded.migratedFrom) {
+                    console.log(`[AthenaAgent] State migrated from version ${decoded.migratedFrom}`);
+                }
+                this.saveState();
+            } else {
+                this.emit('stateChanged', this.getState());
             }
+            return true;
         } catch (e) {
-            // Ignore storage errors
+            console.warn('[AthenaAgent] State could not be decrypted');
+            this.locked = true;
+            this.state = createEmptyState();
+            this.emit('stateChanged', this.getState());
+            return false;
         }
+    }
+
+    isLocked(): boolean {
+        return this.locked;
+    }
+
+    /**
+     * Hash-chained record of the agent's actions (readable while unlocked)
+     */
+    getJournal(): ActionJournal {
+        return this.journal;
+    }
+
+    /**
+     * Keep an unreadable state aside (encrypted like everything else) and
+     * remove it from the live key, so the next save can't destroy it
+     */
+    private async quarantineState(raw: string, reason: string): Promise<void> {
+        const key = `${QUARANTINE_KEY_PREFIX}${Date.now()}`;
+        await this.storage.set(key, raw);
+        await this.storage.remove(STATE_KEY);
+        console.warn(`[AthenaAgent] Stored state quarantined as ${key}: ${reason}`);
+    }
+
+    /**
+     * Keys of quarantined states (for export / support)
+     */
+    async listQuarantinedStates(): Promise<string[]> {
+        const keys = await this.storage.keys();
+        return keys.filter(key => key.startsWith(QUARANTINE_KEY_PREFIX));
+    }
+
+    private saveState(): void {
+        this.emit('stateChanged', this.getState());
+
+        // A locked agent holds an empty placeholder - never persist it
+        if (this.locked) return;
+
+        const serialized = encodeAgentState(this.state);
+        const pending = this.state.evidence.filter(record => record.status !== 'ON_CHAIN');
+        const plan = this.state.escapePlan;
+        const progress = plan
+            ? goalPercentage(this.state.vaultState?.totalValueUsd ?? plan.freedomGoal.currentAmount, plan)
+            : null;
+
+        // Encryption is async: writes are queued so they land in order
+        this.writeQueue = this.writeQueue
+            .then(async () => {
+                await this.storage.set(STATE_KEY, serialized);
+                await this.writeSealedDigest(pending);
+                if (progress === null) {
+                    await this.plainStorage.remove(POOL_PROGRESS_KEY);
+                } else {
+                    await this.plainStorage.set(POOL_PROGRESS_KEY, progress.toFixed(1));
+                }
+            })
+            .catch(e => console.error('[AthenaAgent] Save failed:', e));
+    }
+
+    private async writeSealedDigest(pending: EvidenceRecord[]): Promise<void> {
+        if (pending.length === 0) {
+            await this.plainStorage.remove(SEALED_DIGEST_KEY);
+            return;
+        }
+        const digest = await generateHash(JSON.stringify(pending.map(record => ({ id: record.id, hash: record.hash }))));
+        await this.plainStorage.set(SEALED_DIGEST_KEY, digest);
+    }
+
+    /**
+     * Clear all local state (used after SOS or Wipe): agent state, evidence
+     * media, quarantined states, the journal, plan task progress (here and on
+     * the server), pending transactions and the SOS marker, the sealed
+     * digest, the goal progress, policy settings, yield samples and the
+     * encryption keys
+     */
+    clearLocalState(): Promise<void> {
+        this.state = createEmptyState();
+        this.locked = true;
+        this.stopScheduler();
+        this.policyLog = [];
+        getPlanTaskStore().clear();
+        if (isLockableStorage(this.storage)) {
+            this.storage.lock();
+        }
+
+        this.writeQueue = this.writeQueue
+            .then(async () => {
+                const keys = await this.storage.keys();
+                const extra = keys.filter(k => k.startsWith(MEDIA_KEY_PREFIX) || k.startsWith(QUARANTINE_KEY_PREFIX));
+                for (const key of [STATE_KEY, ...extra]) {
+                    await this.storage.remove(key);
+                }
+                await getPlanTaskStore().destroy();
+                for (const key of [SEALED_DIGEST_KEY, POOL_PROGRESS_KEY, ...LEGACY_KEYS]) {
+                    await this.plainStorage.remove(key);
+                }
+                await this.journal.destroy();
+                await this.fraxService.clearPendingRecords();
+                clearAgentPolicyConfig();
+                this.fraxService.clearYieldHistory();
+                if (isLockableStorage(this.storage)) {
+                    await this.storage.destroyKeys();
+                }
+            })
+            .catch(e => console.error('[AthenaAgent] Wipe failed:', e));
 
+        this.emit('stateChanged', this.getState());
         console.log('[AthenaAgent] Local state cleared');
+        return this.writeQueue;
     }
 
     /**
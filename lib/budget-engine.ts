@@ -0,0 +1,298 @@
+/**
+ * Budget Engine
+ *
+ * The single place escape costs are computed. The agent (UI) and the
+ * calculate_budget LLM tool both call it, so the numbers a person sees in
+ * the planner and in the chat always match.
+ *
+ * Costs come from per-region tables (USD). To update prices, edit
+ * COST_TABLES or load fresher ones at runtime with setCostTables().
+ *
+ * The result always carries the four lines EscapePlan.freedomGoal.breakdown
+ * expects (transport, supplies, shelter, legal); pets and medication are
+ * part of supplies and itemised in `lines`.
+ *
+ * Inputs proposed by the model go through parseBudgetInputs() first: any
+ * field that does not validate is dropped and the engine default applies.
+ */
+
+import { z } from 'zod';
+
+// ============ TYPES ============
+
+export type BudgetRegion = 'US' | 'MX' | 'LATAM' | 'EU' | 'DEFAULT';
+
+export interface RegionCostTable {
+    label: string;
+    keywords: string[];         // Whole words/phrases matched against the destination text
+    transportBase: number;      // Per adult ticket, any distance
+    transportPerKm: number;     // Per adult, on top of the base
+    foodPerDay: number;         // Per adult
+    shelterPerNight: number;    // Room for the first person
+    shelterExtraPerPerson: number;
+    petPerDay: number;          // Food + pet-friendly surcharge
+    petDeposit: number;         // One-off (carrier, boarding deposit)
+    medicationPerDay: number;   // Default when no amount is given
+    legalBase: number;          // Consultation + protection order filing
+    legalPerChild: number;      // Emergency custody filing
+}
+
+export interface BudgetInput {
+    destination: string;
+    riskLevel: number;          // 1-10
+    hasOwnMoney: boolean;       // Existing access to funds/a place: no shelter needed
+    dependents?: number;        // Used when ages are unknown
+    dependentAges?: number[];   // Preferred over `dependents`
+    distanceKm?: number;
+    pets?: number;
+    medicationPerDay?: number;  // 0 / undefined = no medication
+    needsMedication?: boolean;  // Use the region default cost
+    includeLegal?: boolean;     // Default true
+    region?: BudgetRegion;      // Default: inferred from the destination
+}
+
+export interface BudgetBreakdown {
+    transport: number;
+    supplies: number;
+    shelter: number;
+    legal: number;
+}
+
+export interface BudgetLine {
+    category: keyof BudgetBreakdown;
+    label: string;
+    amount: number;
+}
+
+export interface BudgetResult {
+    region: BudgetRegion;
+    currency: 'USD';
+    days: number;
+    targetAmount: number;
+    breakdown: BudgetBreakdown;
+    lines: BudgetLine[];
+    urgency: string;
+}
+
+// ============ COST TABLES ============
+
+export const COST_TABLES: Record<BudgetRegion, RegionCostTable> = {
+    US: {
+        label: 'United States',
+        keywords: ['usa', 'united states', 'new york', 'new mexico', 'los angeles', 'chicago', 'houston', 'miami', 'texas', 'california', 'florida'],
+        transportBase: 25,
+        transportPerKm: 0.08,
+        foodPerDay: 35,
+        shelterPerNight: 90,
+        shelterExtraPerPerson: 15,
+        petPerDay: 10,
+        petDeposit: 50,
+        medicationPerDay: 8,
+        legalBase: 350,
+        legalPerChild: 150
+    },
+    MX: {
+        label: 'Mexico',
+        keywords: ['mexico', 'méxico', 'cdmx', 'guadalajara', 'monterrey', 'puebla', 'tijuana', 'cancun', 'cancún'],
+        transportBase: 10,
+        transportPerKm: 0.04,
+        foodPerDay: 12,
+        shelterPerNight: 35,
+        shelterExtraPerPerson: 6,
+        petPerDay: 4,
+        petDeposit: 20,
+        medicationPerDay: 4,
+        legalBase: 120,
+        legalPerChild: 60
+    },
+    LATAM: {
+        label: 'Latin America',
+        keywords: ['colombia', 'bogota', 'bogotá', 'peru', 'perú', 'lima', 'argentina', 'buenos aires', 'chile', 'santiago', 'guatemala', 'ecuador', 'brazil', 'brasil'],
+        transportBase: 8,
+        transportPerKm: 0.04,
+        foodPerDay: 10,
+        shelterPerNight: 30,
+        shelterExtraPerPerson: 5,
+        petPerDay: 4,
+        petDeposit: 15,
+        medicationPerDay: 4,
+        legalBase: 100,
+        legalPerChild: 50
+    },
+    EU: {
+        label: 'Europe',
+        keywords: ['spain', 'españa', 'madrid', 'barcelona', 'france', 'paris', 'germany', 'berlin', 'italy', 'rome', 'london', 'uk', 'portugal', 'lisbon'],
+        transportBase: 20,
+        transportPerKm: 0.1,
+        foodPerDay: 30,
+        shelterPerNight: 80,
+        shelterExtraPerPerson: 15,
+        petPerDay: 8,
+        petDeposit: 40,
+        medicationPerDay: 5,
+        legalBase: 250,
+        legalPerChild: 120
+    },
+    // Matches the previous flat estimate when nothing better is known
+    DEFAULT: {
+        label: 'Unknown region',
+        keywords: [],
+        transportBase: 30,
+        transportPerKm: 0,
+        foodPerDay: 25,
+        shelterPerNight: 75,
+        shelterExtraPerPerson: 10,
+        petPerDay: 8,
+        petDeposit: 40,
+        medicationPerDay: 6,
+        legalBase: 200,
+        legalPerChild: 100
+    }
+};
+
+// ============ CONSTANTS ============
+
+const DEFAULT_DISTANCE_KM = 50;
+const KM_PER_TRAVEL_DAY = 800;      // Longer trips need a night on the road
+const INFANT_AGE = 2;               // Travels free, needs formula/diapers
+const CHILD_AGE = 12;               // Half fare, smaller portions
+const INFANT_SUPPLIES_PER_DAY = 12;
+
+// ============ MODEL INPUT ============
+
+// A field that fails validation becomes undefined instead of failing the whole object
+const optional = <T extends z.ZodTypeAny>(schema: T) => schema.optional().catch(undefined);
+
+const BudgetInputsSchema = z.object({
+    hasOwnMoney: optional(z.boolean()),
+    dependents: optional(z.number().int().min(0).max(20)),
+    dependentAges: optional(z.array(z.number().min(0).max(120)).max(20)),
+    distanceKm: optional(z.number().min(0).max(20000)),
+    pets: optional(z.number().int().min(0).max(20)),
+    medicationPerDay: optional(z.number().min(0).max(1000)),
+    needsMedication: optional(z.boolean()),
+    includeLegal: optional(z.boolean()),
+    region: optional(z.enum(['US', 'MX', 'LATAM', 'EU', 'DEFAULT']))
+}).catch({});
+
+/**
+ * Budget inputs from model output (untrusted). Unknown and malformed fields
+ * are dropped; destination and risk level come from the plan itself.
+ */
+export function parseBudgetInputs(raw: unknown): Partial<BudgetInput> {
+    const parsed = BudgetInputsSchema.parse(raw ?? {});
+    return Object.fromEntries(Object.entries(parsed).filter(([, value]) => value !== undefined)) as Partial<BudgetInput>;
+}
+
+/**
+ * Lowercase words of a destination, space-padded so phrases match on word boundaries
+ */
+const toWords = (text: string): string => ` ${text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean).join(' ')} `;
+
+// ============ ENGINE CLASS ============
+
+export class BudgetEngine {
+    constructor(private tables: Record<BudgetRegion, RegionCostTable> = COST_TABLES) { }
+
+    /**
+     * Replace the cost tables (e.g. with prices fetched from the backend)
+     */
+    setCostTables(tables: Partial<Record<BudgetRegion, RegionCostTable>>): void {
+        this.tables = { ...this.tables, ...tables };
+    }
+
+    /**
+     * Region whose keyword matches the destination as whole words. The longest
+     * match wins, so "New Mexico" is the US and not Mexico.
+     */
+    resolveRegion(destination: string): BudgetRegion {
+        const text = toWords(destination);
+        let best: BudgetRegion = 'DEFAULT';
+        let bestLength = 0;
+
+        (Object.keys(this.tables) as BudgetRegion[]).forEach(region => {
+            this.tables[region].keywords.forEach(keyword => {
+                if (keyword.length > bestLength && text.includes(toWords(keyword))) {
+                    best = region;
+                    bestLength = keyword.length;
+                }
+            });
+        });
+        return best;
+    }
+
+    calculate(input: BudgetInput): BudgetResult {
+        const region = input.region || this.resolveRegion(input.destination || '');
+        const table = this.tables[region] || this.tables.DEFAULT;
+
+        const ages = input.dependentAges && input.dependentAges.length > 0
+            ? input.dependentAges
+            : Array.from({ length: Math.max(0, input.dependents || 0) }, () => CHILD_AGE); // Unknown ages count as adults
+        const infants = ages.filter(age => age < INFANT_AGE).length;
+        const children = ages.filter(age => age >= INFANT_AGE && age < CHILD_AGE).length;
+        const adults = 1 + ages.length - infants - children;
+        const people = 1 + ages.length;
+
+        const distanceKm = Math.max(0, input.distanceKm ?? DEFAULT_DISTANCE_KM);
+        const travelNights = Math.floor(distanceKm / KM_PER_TRAVEL_DAY);
+        const nights = (input.riskLevel >= 8 ? 1 : 3) + travelNights;
+        const days = nights + 1;
+
+        const lines: BudgetLine[] = [];
+        const add = (category: keyof BudgetBreakdown, label: string, amount: number) => {
+            if (amount > 0) lines.push({ category, label, amount: Math.round(amount) });
+        };
+
+        // Transport: infants ride free, children half fare
+        const fare = table.transportBase + table.transportPerKm * distanceKm;
+        add('transport', `Tickets for ${people} (${distanceKm} km)`, fare * (adults + children * 0.5));
+
+        // Supplies: food, infant supplies, pets, medication
+        add('supplies', 'Food', table.foodPerDay * days * (adults + children * 0.6 + infants * 0.3));
+        add('supplies', 'Baby supplies', INFANT_SUPPLIES_PER_DAY * days * infants);
+        if (input.pets && input.pets > 0) {
+            add('supplies', `Pets (${input.pets})`, (table.petDeposit + table.petPerDay * days) * input.pets);
+        }
+        const medicationPerDay = input.medicationPerDay || (input.needsMedication ? table.medicationPerDay : 0);
+        add('supplies', 'Medication (30 days)', medicationPerDay * 30);
+
+        // Shelter: not needed when the person already has money/a place
+        if (!input.hasOwnMoney) {
+            add('shelter', `${nights} night(s)`, (table.shelterPerNight + table.shelterExtraPerPerson * (people - 1)) * nights);
+        }
+
+        // Legal: protection order, plus emergency custody per child
+        if (input.includeLegal !== false) {
+            add('legal', 'Legal consultation + protection order', table.legalBase);
+            add('legal', 'Emergency custody', table.legalPerChild * (children + infants));
+        }
+
+        const breakdown: BudgetBreakdown = { transport: 0, supplies: 0, shelter: 0, legal: 0 };
+        lines.forEach(line => { breakdown[line.category] += line.amount; });
+
+        return {
+            region,
+            currency: 'USD',
+            days,
+            targetAmount: breakdown.transport + breakdown.supplies + breakdown.shelter + breakdown.legal,
+            breakdown,
+            lines,
+            urgency: input.riskLevel >= 8 ? 'CRITICAL - Immediate action required' :
+                input.riskLevel >= 5 ? 'HIGH - Plan within 2 weeks' :
+                    'MODERATE - Build savings gradually'
+        };
+    }
+}
+
+// ============ SINGLETON INSTANCE ============
+
+let budgetEngineInstance: BudgetEngine | null = null;
+
+export const getBudgetEngine = (): BudgetEngine => {
+    if (!budgetEngineInstance) {
+        budgetEngineInstance = new BudgetEngine();
+    }
+    return budgetEngineInstance;
+};
+
+export default BudgetEngine;
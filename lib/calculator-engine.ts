@@ -0,0 +1,432 @@
+/**
+ * Calculator Engine
+ *
+ * The arithmetic behind the Calculator disguise. It has to behave exactly
+ * like a stock phone calculator - an app that throws syntax errors or
+ * ignores the ± key gets noticed.
+ *
+ * - Tokenizer + recursive-descent parser (no eval)
+ * - Operator precedence (x ÷ before + -), unary minus
+ * - Percent like stock calculators: a + b% = a + a·b/100, a x b% = a·b/100
+ * - Repeated "=" re-applies the last operation to the result
+ * - Memory keys: MC, M+, M-, MR
+ *
+ * Secret-command detection is NOT part of this module; see command-detector.ts.
+ */
+
+// ============ TYPES ============
+
+export type CalculatorKey =
+    | '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9'
+    | '.' | '+' | '-' | 'x' | '÷' | '%' | '±' | '=' | 'C'
+    | 'MC' | 'M+' | 'M-' | 'MR';
+
+export type BinaryOperator = '+' | '-' | 'x' | '÷';
+
+export type Token =
+    | { type: 'number'; value: number }
+    | { type: 'operator'; value: BinaryOperator }
+    | { type: 'unary'; value: '-' }
+    | { type: 'percent' };
+
+export type ExpressionNode =
+    | { type: 'number'; value: number }
+    | { type: 'negate'; operand: ExpressionNode }
+    | { type: 'percent'; operand: ExpressionNode }
+    | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode };
+
+export interface CalculatorState {
+    expression: string;      // What has been typed since the last result
+    display: string;         // What the screen shows
+    memory: number;
+    lastOperation: { operator: BinaryOperator; operand: number } | null;
+    justEvaluated: boolean;  // Display holds a result of "="
+    error: boolean;
+}
+
+export class CalculatorError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CalculatorError';
+    }
+}
+
+// ============ CONSTANTS ============
+
+const OPERATORS: BinaryOperator[] = ['+', '-', 'x', '÷'];
+const MAX_INPUT_LENGTH = 40;
+const SIGNIFICANT_DIGITS = 12;
+
+export const ERROR_DISPLAY = 'Error';
+
+const isOperator = (char: string): char is BinaryOperator => OPERATORS.includes(char as BinaryOperator);
+const isDigit = (char: string): boolean => char >= '0' && char <= '9';
+
+// ============ TOKENIZER ============
+
+/**
+ * Split a calculator expression into tokens.
+ * A "-" at the start or right after an operator is a unary minus.
+ */
+export function tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < expression.length) {
+        const char = expression[i];
+
+        if (isDigit(char) || char === '.') {
+            let literal = '';
+            while (i < expression.length && (isDigit(expression[i]) || expression[i] === '.')) {
+                literal += expression[i];
+                i++;
+            }
+            if (literal === '.' || literal.split('.').length > 2) {
+                throw new CalculatorError(`Invalid number: ${literal}`);
+            }
+            tokens.push({ type: 'number', value: parseFloat(literal) });
+            continue;
+        }
+
+        if (char === '%') {
+            tokens.push({ type: 'percent' });
+            i++;
+            continue;
+        }
+
+        if (isOperator(char)) {
+            const previous = tokens[tokens.length - 1];
+            const startsOperand = !previous || previous.type === 'operator' || previous.type === 'unary';
+            if (char === '-' && startsOperand) {
+                tokens.push({ type: 'unary', value: '-' });
+            } else {
+                tokens.push({ type: 'operator', value: char });
+            }
+            i++;
+            continue;
+        }
+
+        throw new CalculatorError(`Unexpected character: ${char}`);
+    }
+
+    return tokens;
+}
+
+// ============ PARSER ============
+
+/**
+ * Recursive-descent parser
+ *
+ * expression := term (('+' | '-') term)*
+ * term       := factor (('x' | '÷') factor)*
+ * factor     := '-' factor | primary '%'*
+ * primary    := number
+ */
+export function parse(tokens: Token[]): ExpressionNode {
+    let position = 0;
+
+    const peek = (): Token | undefined => tokens[position];
+
+    const parsePrimary = (): ExpressionNode => {
+        const token = peek();
+        if (!token || token.type !== 'number') {
+            throw new CalculatorError('Expected a number');
+        }
+        position++;
+        return { type: 'number', value: token.value };
+    };
+
+    const parseFactor = (): ExpressionNode => {
+        const token = peek();
+        if (token?.type === 'unary') {
+            position++;
+            return { type: 'negate', operand: parseFactor() };
+        }
+
+        let node = parsePrimary();
+        while (peek()?.type === 'percent') {
+            position++;
+            node = { type: 'percent', operand: node };
+        }
+        return node;
+    };
+
+    const parseTerm = (): ExpressionNode => {
+        let node = parseFactor();
+        let token = peek();
+        while (token?.type === 'operator' && (token.value === 'x' || token.value === '÷')) {
+            position++;
+            node = { type: 'binary', operator: token.value, left: node, right: parseFactor() };
+            token = peek();
+        }
+        return node;
+    };
+
+    const parseExpression = (): ExpressionNode => {
+        let node = parseTerm();
+        let token = peek();
+        while (token?.type === 'operator' && (token.value === '+' || token.value === '-')) {
+            position++;
+            node = { type: 'binary', operator: token.value, left: node, right: parseTerm() };
+            token = peek();
+        }
+        return node;
+    };
+
+    const tree = parseExpression();
+    if (position < tokens.length) {
+        throw new CalculatorError('Unexpected input after expression');
+    }
+    return tree;
+}
+
+// ============ EVALUATION ============
+
+const applyOperator = (operator: BinaryOperator, left: number, right: number): number => {
+    switch (operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case 'x': return left * right;
+        case '÷':
+            if (right === 0) throw new CalculatorError('Division by zero');
+            return left / right;
+    }
+};
+
+export function evaluateNode(node: ExpressionNode): number {
+    switch (node.type) {
+        case 'number':
+            return node.value;
+        case 'negate':
+            return -evaluateNode(node.operand);
+        case 'percent':
+            return evaluateNode(node.operand) / 100;
+        case 'binary': {
+            const left = evaluateNode(node.left);
+            // Stock-calculator percent: "200 + 10%" means 200 + 10% of 200
+            if ((node.operator === '+' || node.operator === '-') && node.right.type === 'percent') {
+                const percentage = evaluateNode(node.right.operand);
+                return applyOperator(node.operator, left, left * percentage / 100);
+            }
+            return applyOperator(node.operator, left, evaluateNode(node.right));
+        }
+    }
+}
+
+/**
+ * Evaluate a full calculator expression. Trailing operators are ignored
+ * ("5+" = 5), as on phone calculators.
+ */
+export function evaluateExpression(expression: string): number {
+    const trimmed = expression.replace(/[+\-x÷]+$/, '');
+    if (!trimmed) return 0;
+
+    const result = evaluateNode(parse(tokenize(trimmed)));
+    if (!Number.isFinite(result)) {
+        throw new CalculatorError('Result out of range');
+    }
+    return result;
+}
+
+/**
+ * Format a number the way a phone screen shows it (no float noise)
+ */
+export function formatNumber(value: number): string {
+    if (!Number.isFinite(value)) return ERROR_DISPLAY;
+    if (Object.is(value, -0) || value === 0) return '0';
+
+    const rounded = parseFloat(value.toPrecision(SIGNIFICANT_DIGITS));
+    const abs = Math.abs(rounded);
+    if (abs >= 1e15 || abs < 1e-9) {
+        return rounded.toExponential(6).replace(/\.?0+e/, 'e');
+    }
+    return rounded.toString();
+}
+
+// ============ STATE MACHINE ============
+
+export const createCalculatorState = (memory: number = 0): CalculatorState => ({
+    expression: '',
+    display: '0',
+    memory,
+    lastOperation: null,
+    justEvaluated: false,
+    error: false
+});
+
+/**
+ * Find the last operator and its operand, used for repeated "="
+ */
+const findLastOperation = (expression: string): CalculatorState['lastOperation'] => {
+    const tokens = tokenize(expression.replace(/[+\-x÷]+$/, ''));
+    for (let i = tokens.length - 1; i >= 0; i--) {
+        const token = tokens[i];
+        if (token.type === 'operator') {
+            try {
+                const operand = evaluateNode(parse(tokens.slice(i + 1)));
+                return { operator: token.value, operand };
+            } catch {
+                return null;
+            }
+        }
+    }
+    return null;
+};
+
+/**
+ * Split off the number currently being typed ("12+3.5" -> ["12+", "3.5"])
+ */
+const splitTrailingNumber = (expression: string): [string, string] => {
+    const match = expression.match(/(-?[\d.]*%*)$/);
+    let trailing = match ? match[1] : '';
+    let head = expression.slice(0, expression.length - trailing.length);
+
+    // A "-" belongs to the number only when it is a unary minus
+    if (trailing.startsWith('-') && head !== '' && !isOperator(head[head.length - 1])) {
+        head += '-';
+        trailing = trailing.slice(1);
+    }
+    return [head, trailing];
+};
+
+const withExpression = (state: CalculatorState, expression: string): CalculatorState => ({
+    ...state,
+    expression,
+    display: expression || '0',
+    justEvaluated: false,
+    error: false
+});
+
+const currentValue = (state: CalculatorState): number => {
+    if (state.error) return 0;
+    if (state.justEvaluated) return parseFloat(state.display) || 0;
+    return evaluateExpression(state.expression);
+};
+
+const showError = (state: CalculatorState): CalculatorState => ({
+    ...state,
+    expression: '',
+    display: ERROR_DISPLAY,
+    lastOperation: null,
+    justEvaluated: false,
+    error: true
+});
+
+/**
+ * Apply one key press and return the next state (pure)
+ */
+export function pressKey(state: CalculatorState, key: CalculatorKey): CalculatorState {
+    try {
+        switch (key) {
+            case 'C':
+                return createCalculatorState(state.memory);
+
+            case 'MC':
+                return { ...state, memory: 0 };
+
+            case 'M+':
+            case 'M-': {
+                const value = currentValue(state);
+                const memory = key === 'M+' ? state.memory + value : state.memory - value;
+                return { ...state, memory };
+            }
+
+            case 'MR': {
+                const recalled = formatNumber(state.memory);
+                if (state.justEvaluated || state.error) {
+                    return withExpression(state, recalled);
+                }
+                const [head] = splitTrailingNumber(state.expression);
+                return withExpression(state, head + recalled);
+            }
+
+            case '=': {
+                if (state.error) return state;
+
+                // Repeated "=": re-apply the last operation to the result
+                if (state.justEvaluated) {
+                    if (!state.lastOperation) return state;
+                    const base = parseFloat(state.display) || 0;
+                    const result = applyOperator(state.lastOperation.operator, base, state.lastOperation.operand);
+                    if (!Number.isFinite(result)) return showError(state);
+                    return { ...state, display: formatNumber(result) };
+                }
+
+                if (!state.expression) return state;
+                const result = evaluateExpression(state.expression);
+                return {
+                    ...state,
+                    expression: '',
+                    display: formatNumber(result),
+                    lastOperation: findLastOperation(state.expression),
+                    justEvaluated: true,
+                    error: false
+                };
+            }
+
+            case '±': {
+                const source = state.justEvaluated ? state.display : state.expression;
+                if (state.error || !source) return state;
+                const [head, trailing] = splitTrailingNumber(source);
+                if (!trailing) return state;
+                const toggled = trailing.startsWith('-') ? trailing.slice(1) : `-${trailing}`;
+                return withExpression(state, head + toggled);
+            }
+
+            case '%': {
+                const source = state.justEvaluated ? state.display : state.expression;
+                const [, trailing] = splitTrailingNumber(source);
+                if (!trailing || trailing === '-') return state;
+                return withExpression(state, source + '%');
+            }
+
+            case '+':
+            case '-':
+            case 'x':
+            case '÷': {
+                // Continue from a result, or from 0 after an error
+                let expression = state.justEvaluated ? state.display : state.error ? '0' : state.expression;
+                if (!expression) {
+                    // Leading minus starts a negative number
+                    return key === '-' ? withExpression(state, '-') : withExpression(state, '0' + key);
+                }
+
+                const last = expression[expression.length - 1];
+                if (isOperator(last)) {
+                    // "5x-" : minus after x/÷ starts a negative operand
+                    if (key === '-' && (last === 'x' || last === '÷')) {
+                        return withExpression(state, expression + key);
+                    }
+                    // Otherwise the new operator replaces the pending one(s)
+                    expression = expression.replace(/[+\-x÷]+$/, '');
+                    if (!expression) return withExpression(state, key === '-' ? '-' : '');
+                }
+                return withExpression(state, expression + key);
+            }
+
+            case '.': {
+                const base = state.justEvaluated || state.error ? '' : state.expression;
+                const [, trailing] = splitTrailingNumber(base);
+                if (trailing.includes('.') || trailing.includes('%')) return state;
+                const prefix = trailing === '' || trailing === '-' ? '0.' : '.';
+                return withExpression(state, (base + prefix).slice(0, MAX_INPUT_LENGTH));
+            }
+
+            default: {
+                // Digits - a new number after a result replaces it
+                const base = state.justEvaluated || state.error ? '' : state.expression;
+                const [head, trailing] = splitTrailingNumber(base);
+                if (trailing.includes('%')) return state;
+                if (base.length >= MAX_INPUT_LENGTH) return state;
+                // Avoid leading zeros ("007" -> "7")
+                const number = trailing === '0' ? key : trailing === '-0' ? `-${key}` : trailing + key;
+                return withExpression(state, head + number);
+            }
+        }
+    } catch (error) {
+        if (error instanceof CalculatorError) {
+            return showError(state);
+        }
+        throw error;
+    }
+}
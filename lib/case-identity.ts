@@ -0,0 +1,197 @@
+/**
+ * Case Identity Service
+ *
+ * Single source of case IDs and per-case deposit addresses.
+ *
+ * ID format: ATHENA-XXXX-XXXX-XXXX-C
+ * - 12 random Crockford base32 characters from the platform CSPRNG (60 bits)
+ * - C: Luhn mod 32 check character, so a mistyped character or swapped
+ *   neighbours are rejected before anything reaches the chain
+ * Older IDs (ATHENA-<timestamp>-<random>) are still recognised as legacy.
+ *
+ * Deposit addresses are derived from an HD key: child index = first 31 bits
+ * of keccak256(caseId) under m/44'/60'/0'/0. The client only needs the
+ * extended PUBLIC key (DEPOSIT_XPUB); the seed stays with the backend.
+ * Without a configured key it fails closed: donations go to the person's own
+ * connected wallet, or the case gets no deposit address at all. The public
+ * demo key is only used on the local devnet profile.
+ */
+
+import { ethers } from 'ethers';
+import { getChainConfig } from './chain-config';
+
+// ============ TYPES ============
+
+export interface CaseIdentity {
+    caseId: string;
+    depositAddress: string | null;  // Null when no deposit key or wallet is available
+    derivationIndex: number | null; // Null unless derived from the deposit key
+}
+
+// ============ CONSTANTS ============
+
+const PREFIX = 'ATHENA';
+const ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ'; // Crockford base32 (no I, L, O, U)
+const RANDOM_LENGTH = 12;
+const GROUP_SIZE = 4;
+
+const CASE_ID_PATTERN = /^ATHENA-([0-9A-HJKMNP-TV-Z]{4})-([0-9A-HJKMNP-TV-Z]{4})-([0-9A-HJKMNP-TV-Z]{4})-([0-9A-HJKMNP-TV-Z])$/;
+const LEGACY_CASE_ID_PATTERN = /^ATHENA-\d{13}-[0-9A-Z]{4,6}$/;
+
+const DEPOSIT_PATH = "m/44'/60'/0'/0";
+
+// Public Hardhat/Anvil test mnemonic - local devnet only, anyone can spend from it
+const DEMO_MNEMONIC = 'test test test test test test test test test test test junk';
+
+// ============ ID HELPERS ============
+
+/**
+ * Luhn mod 32 check character over the random part
+ */
+const checkCharacter = (body: string): string => {
+    const n = ALPHABET.length;
+    let factor = 2;
+    let sum = 0;
+
+    for (let i = body.length - 1; i >= 0; i--) {
+        let addend = factor * ALPHABET.indexOf(body[i]);
+        factor = factor === 2 ? 1 : 2;
+        addend = Math.floor(addend / n) + (addend % n);
+        sum += addend;
+    }
+
+    return ALPHABET[(n - (sum % n)) % n];
+};
+
+/**
+ * Uppercase, drop spaces and map look-alike characters (O -> 0, I/L -> 1)
+ */
+export const normalizeCaseId = (input: string): string => {
+    return input
+        .trim()
+        .toUpperCase()
+        .replace(/\s+/g, '')
+        .replace(/O/g, '0') // The ATHENA prefix has no O, I or L
+        .replace(/[IL]/g, '1');
+};
+
+export const generateCaseId = (): string => {
+    const bytes = crypto.getRandomValues(new Uint8Array(RANDOM_LENGTH));
+    // 256 is a multiple of 32, so the modulo is unbiased
+    const body = Array.from(bytes).map(b => ALPHABET[b % ALPHABET.length]).join('');
+    const groups = body.match(new RegExp(`.{${GROUP_SIZE}}`, 'g'))!;
+    return `${PREFIX}-${groups.join('-')}-${checkCharacter(body)}`;
+};
+
+/**
+ * Current-format ID with a matching check character
+ */
+export const isValidCaseId = (caseId: string): boolean => {
+    const match = normalizeCaseId(caseId).match(CASE_ID_PATTERN);
+    if (!match) return false;
+    const body = match[1] + match[2] + match[3];
+    return checkCharacter(body) === match[4];
+};
+
+/**
+ * IDs issued before the checksum format (cannot be verified, only recognised)
+ */
+export const isLegacyCaseId = (caseId: string): boolean => {
+    return LEGACY_CASE_ID_PATTERN.test(caseId.trim());
+};
+
+// ============ SERVICE CLASS ============
+
+export class CaseIdentityService {
+    private root: ethers.HDNodeWallet | ethers.HDNodeVoidWallet | null = null;
+
+    /**
+     * @param extendedKey xpub (preferred) or xprv at m/44'/60'/0'/0
+     * @param mnemonic Used when no extended key is given (backend / tests)
+     * @param allowDemoKey Fall back to the public test mnemonic (local devnet only)
+     */
+    constructor(extendedKey?: string, mnemonic?: string, allowDemoKey: boolean = false) {
+        if (extendedKey) {
+            this.root = ethers.HDNodeWallet.fromExtendedKey(extendedKey);
+        } else if (mnemonic) {
+            this.root = ethers.HDNodeWallet.fromPhrase(mnemonic, undefined, DEPOSIT_PATH).neuter();
+        } else if (allowDemoKey) {
+            console.warn('[CaseIdentity] No DEPOSIT_XPUB configured - using the public demo key (local devnet)');
+            this.root = ethers.HDNodeWallet.fromPhrase(DEMO_MNEMONIC, undefined, DEPOSIT_PATH).neuter();
+        } else {
+            console.warn('[CaseIdentity] No DEPOSIT_XPUB configured - cases get no derived deposit address');
+        }
+    }
+
+    /**
+     * Whether deposit addresses can be derived per case
+     */
+    hasDepositKey(): boolean {
+        return this.root !== null;
+    }
+
+    generateCaseId(): string {
+        return generateCaseId();
+    }
+
+    isValidCaseId(caseId: string): boolean {
+        return isValidCaseId(caseId);
+    }
+
+    /**
+     * Deterministic child index for a case (non-hardened, 31 bits)
+     */
+    derivationIndex(caseId: string): number {
+        const digest = ethers.keccak256(ethers.toUtf8Bytes(normalizeCaseId(caseId)));
+        return parseInt(digest.slice(2, 10), 16) & 0x7fffffff;
+    }
+
+    /**
+     * Same case ID always gives the same deposit address (null without a deposit key)
+     */
+    deriveDepositAddress(caseId: string): string | null {
+        return this.root ? this.root.deriveChild(this.derivationIndex(caseId)).address : null;
+    }
+
+    /**
+     * New case ID plus its deposit address
+     * @param walletAddress The person's own connected wallet, used when no deposit key is configured
+     */
+    createIdentity(walletAddress: string | null = null): CaseIdentity {
+        const caseId = generateCaseId();
+        if (!this.root) {
+            return { caseId, derivationIndex: null, depositAddress: walletAddress };
+        }
+        const derivationIndex = this.derivationIndex(caseId);
+        return {
+            caseId,
+            derivationIndex,
+            depositAddress: this.root.deriveChild(derivationIndex).address
+        };
+    }
+}
+
+// ============ SINGLETON INSTANCE ============
+
+let caseIdentityInstance: CaseIdentityService | null = null;
+
+const readEnv = (name: 'DEPOSIT_XPUB' | 'DEPOSIT_MNEMONIC'): string | undefined => {
+    try {
+        return name === 'DEPOSIT_XPUB' ? process.env.DEPOSIT_XPUB : process.env.DEPOSIT_MNEMONIC;
+    } catch (e) {
+        return undefined; // No process in the browser unless Vite defines it
+    }
+};
+
+export const getCaseIdentityService = (): CaseIdentityService => {
+    if (!caseIdentityInstance) {
+        caseIdentityInstance = new CaseIdentityService(
+            readEnv('DEPOSIT_XPUB'),
+            readEnv('DEPOSIT_MNEMONIC'),
+            getChainConfig().network === 'local'
+        );
+    }
+    return caseIdentityInstance;
+};
+
+export default CaseIdentityService;
@@ -0,0 +1,198 @@
+/**
+ * Chain Configuration
+ *
+ * Network profiles and the provider layer behind FraxService. The active
+ * profile comes from CHAIN_NETWORK / CHAIN_RPC_URL at build time and can be
+ * overridden at runtime (saveChainConfig), e.g. to point a test build at a
+ * different node or at contracts deployed somewhere else.
+ *
+ * The "local" profile targets an Anvil/Hardhat node with the mock FRAX, USDC,
+ * ERC-4626 sFRAX and swap router from contracts/mocks, plus the dead man's switch
+ * contract (scripts/deploy-local.cjs). Its
+ * addresses are where a fresh node puts them, and it signs with a public
+ * dev account, so the vault, SOS and evidence paths run end to end offline.
+ */
+
+import { JsonRpcProvider } from 'ethers';
+
+// ============ TYPES ============
+
+export type NetworkId = 'fraxtal' | 'fraxtal-testnet' | 'ethereum' | 'sepolia' | 'local';
+
+export interface NetworkConfig {
+    name: string;
+    rpcUrl: string;
+    chainId: number;
+    sFraxAddress: string;
+    fraxAddress: string;
+    usdcAddress: string;
+    explorerUrl: string;    // Empty when the chain has no explorer
+    swapRouterAddress?: string; // Uniswap V2-style router (SOS asset swap)
+    deadManSwitchAddress?: string; // contracts/DeadManSwitch.sol (check-in deadline on-chain)
+    devPrivateKey?: string; // Only for local devnets
+}
+
+export interface ChainConfig {
+    network: NetworkId;
+    rpcUrl?: string;
+    sFraxAddress?: string;
+    fraxAddress?: string;
+    usdcAddress?: string;
+    swapRouterAddress?: string;
+    deadManSwitchAddress?: string;
+}
+
+// ============ NETWORK PROFILES ============
+
+// Fraxtal L2 Mainnet
+const FRAXTAL_MAINNET: NetworkConfig = {
+    name: 'Fraxtal',
+    rpcUrl: 'https://rpc.frax.com',
+    chainId: 252,
+    sFraxAddress: '0xfc00000000000000000000000000000000000008', // Canonical sFRAX on Fraxtal
+    fraxAddress: '0xFc00000000000000000000000000000000000001',  // FRAX on Fraxtal
+    usdcAddress: '0xDcc0F2D8F90FDe85b10aC1c8Ab57dc0AE946A543',  // Bridged USDC
+    explorerUrl: 'https://fraxscan.com'
+};
+
+// Ethereum Mainnet (Fallback / Testing)
+const ETHEREUM_MAINNET: NetworkConfig = {
+    name: 'Ethereum',
+    rpcUrl: 'https://eth.llamarpc.com',
+    chainId: 1,
+    sFraxAddress: '0xA663B02CF0a4b149d2aD41910CB81e23e1c41c32', // sFRAX on Ethereum
+    fraxAddress: '0x853d955aCEf822Db058eb8505911ED77F175b99e',  // FRAX
+    usdcAddress: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',  // USDC
+    explorerUrl: 'https://etherscan.io'
+};
+
+// Fraxtal Testnet (For hackathon demo)
+const FRAXTAL_TESTNET: NetworkConfig = {
+    name: 'Fraxtal Testnet',
+    rpcUrl: 'https://rpc.testnet.frax.com',
+    chainId: 2523,
+    sFraxAddress: '0x0000000000000000000000000000000000000000', // Will deploy our own pool
+    fraxAddress: '0x0000000000000000000000000000000000000000',  // Native frxETH
+    usdcAddress: '0x0000000000000000000000000000000000000000',
+    explorerUrl: 'https://holesky.fraxscan.com'
+};
+
+// Sepolia Testnet (Backup)
+const SEPOLIA_TESTNET: NetworkConfig = {
+    name: 'Sepolia',
+    rpcUrl: 'https://rpc.sepolia.org',
+    chainId: 11155111,
+    sFraxAddress: '0x0000000000000000000000000000000000000000',
+    fraxAddress: '0x0000000000000000000000000000000000000000',
+    usdcAddress: '0x0000000000000000000000000000000000000000',
+    explorerUrl: 'https://sepolia.etherscan.io'
+};
+
+// Anvil/Hardhat node with the mocks deployed by scripts/deploy-local.cjs
+const LOCAL_DEVNET: NetworkConfig = {
+    name: 'Local Devnet',
+    rpcUrl: 'http://127.0.0.1:8545',
+    chainId: 31337,
+    fraxAddress: '0x5FbDB2315678afecb367f032d93F642f64180aa3',  // MockERC20 (deployer nonce 0)
+    usdcAddress: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',  // MockERC20, 6 decimals (nonce 1)
+    sFraxAddress: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0', // MockERC4626 (nonce 2)
+    swapRouterAddress: '0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9', // MockSwapRouter (nonce 3)
+    deadManSwitchAddress: '0xDc64a140Aa3E981100a9becA4E685f962f0cF6C9', // DeadManSwitch (nonce 4)
+    explorerUrl: '',
+    // Anvil/Hardhat dev account #1 - publicly known, never holds real funds
+    devPrivateKey: '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d'
+};
+
+export const NETWORKS: Record<NetworkId, NetworkConfig> = {
+    'fraxtal': FRAXTAL_MAINNET,
+    'fraxtal-testnet': FRAXTAL_TESTNET,
+    'ethereum': ETHEREUM_MAINNET,
+    'sepolia': SEPOLIA_TESTNET,
+    'local': LOCAL_DEVNET
+};
+
+// ============ CONFIG ============
+
+const STORAGE_KEY = 'athena_chain_config';
+
+const envValue = (value: string | undefined): string | undefined => value || undefined;
+
+const getDefaultChainConfig = (): ChainConfig => {
+    let network: NetworkId = 'fraxtal';
+    let rpcUrl: string | undefined;
+    try {
+        const envNetwork = envValue(process.env.CHAIN_NETWORK) as NetworkId;
+        if (envNetwork && NETWORKS[envNetwork]) network = envNetwork;
+        rpcUrl = envValue(process.env.CHAIN_RPC_URL);
+    } catch (e) {
+        // No process.env in this environment
+    }
+    return { network, rpcUrl };
+};
+
+export function getChainConfig(): ChainConfig {
+    try {
+        if (typeof localStorage !== 'undefined') {
+            const saved = localStorage.getItem(STORAGE_KEY);
+            if (saved) {
+                const parsed = JSON.parse(saved) as ChainConfig;
+                if (NETWORKS[parsed.network]) {
+                    return parsed;
+                }
+            }
+        }
+    } catch (e) {
+        // Corrupted config - use defaults
+    }
+    return getDefaultChainConfig();
+}
+
+/**
+ * Override the build-time network (takes effect on the next load)
+ */
+export function saveChainConfig(config: ChainConfig | null): void {
+    try {
+        if (typeof localStorage !== 'undefined') {
+            if (config) {
+                localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+            } else {
+                localStorage.removeItem(STORAGE_KEY);
+            }
+        }
+    } catch (e) {
+        // Storage might be unavailable
+    }
+}
+
+// ============ PROVIDER LAYER ============
+
+/**
+ * Profile for a config, with its RPC URL and contract address overrides applied
+ */
+export function resolveNetwork(config: ChainConfig = getChainConfig()): NetworkConfig {
+    const base = NETWORKS[config.network] || FRAXTAL_MAINNET;
+    return {
+        ...base,
+        rpcUrl: config.rpcUrl || base.rpcUrl,
+        sFraxAddress: config.sFraxAddress || base.sFraxAddress,
+        fraxAddress: config.fraxAddress || base.fraxAddress,
+        usdcAddress: config.usdcAddress || base.usdcAddress,
+        swapRouterAddress: config.swapRouterAddress || base.swapRouterAddress,
+        deadManSwitchAddress: config.deadManSwitchAddress || base.deadManSwitchAddress
+    };
+}
+
+/**
+ * JSON-RPC provider pinned to the profile's chain: no network auto-detection,
+ * so an unreachable node fails the first call instead of retrying forever
+ */
+export function createProvider(network: NetworkConfig): JsonRpcProvider {
+    return new JsonRpcProvider(network.rpcUrl, network.chainId, { staticNetwork: true });
+}
+
+/**
+ * Explorer link for a transaction, if the chain has an explorer
+ */
+export function getTxUrl(network: NetworkConfig, txHash: string): string | undefined {
+    return network.explorerUrl ? `${network.explorerUrl}/tx/${txHash}` : undefined;
+}
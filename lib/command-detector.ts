@@ -0,0 +1,122 @@
+/**
+ * Secret Command Detector
+ *
+ * Sits on top of the calculator engine: it watches raw key presses and
+ * asks the command registry whether the keys typed since the last reset
+ * form a secret sequence. The engine itself never knows about commands.
+ * Wrong guesses are reported to the unlock guard (brute-force lockout).
+ * Unlock codes are handed to the encrypted state store the moment they
+ * match - the only time the plaintext code exists.
+ */
+
+import { getCommandRegistry, CommandRegistry, MathOsCommand, LEGEND_SEQUENCE, CALCULATOR_KEYS, DEFAULT_SEQUENCES, normalizeSequence } from './command-registry';
+import { getUnlockGuard, UnlockGuard } from './unlock-guard';
+import { getEncryptedStorage, EncryptedStorageBackend, UnlockSlot, UNLOCK_SLOTS } from './encrypted-storage';
+
+// ============ TYPES ============
+
+export type DetectedCommand = MathOsCommand | 'TOGGLE_LEGEND';
+
+// ============ DETECTOR CLASS ============
+
+export class CommandDetector {
+    private buffer = '';
+
+    constructor(
+        private registry: CommandRegistry = getCommandRegistry(),
+        private guard: UnlockGuard = getUnlockGuard(),
+        private store: EncryptedStorageBackend = getEncryptedStorage()
+    ) { }
+
+    /**
+     * Feed one key press. Resolves to a command when the sequence matches,
+     * otherwise null and the key should go to the calculator engine.
+     */
+    async push(key: string): Promise<DetectedCommand | null> {
+        if (key === 'C') {
+            this.reset();
+            return null;
+        }
+
+        // Memory keys are not part of any sequence
+        if (!CALCULATOR_KEYS.includes(key)) {
+            return null;
+        }
+
+        await this.registry.whenReady();
+        const candidate = this.buffer + key;
+
+        if (candidate === LEGEND_SEQUENCE) {
+            this.reset();
+            return 'TOGGLE_LEGEND';
+        }
+
+        if (this.registry.isTrigger(key)) {
+            const command = await this.settle(candidate);
+            if (command) {
+                this.reset();
+                return command;
+            }
+        }
+
+        // A finished calculation starts a fresh sequence
+        this.buffer = key === '=' ? '' : candidate;
+        return null;
+    }
+
+    /**
+     * Match a whole typed string at once (shells with a text field instead
+     * of a keypad, e.g. a search box). Anything that is not made purely of
+     * calculator keys is ordinary input.
+     */
+    async matchText(text: string): Promise<DetectedCommand | null> {
+        this.reset();
+
+        const normalized = normalizeSequence(text);
+        if (!normalized || !Array.from(normalized).every(key => CALCULATOR_KEYS.includes(key))) {
+            return null;
+        }
+        if (normalized === LEGEND_SEQUENCE) {
+            return 'TOGGLE_LEGEND';
+        }
+        return this.settle(normalized);
+    }
+
+    /**
+     * Resolve a finished sequence through the registry and the unlock guard
+     */
+    private async settle(sequence: string): Promise<MathOsCommand | null> {
+        const command = await this.registry.resolve(sequence);
+        if (command) {
+            const allowed = this.guard.filter(command);
+            if (allowed === 'LOGIN' || allowed === 'GENESIS') {
+                await this.unlockStore(allowed, normalizeSequence(sequence));
+            }
+            return allowed;
+        }
+        // A failed attempt only counts towards the lockout - it never runs a command
+        if (this.registry.isFailedAttempt(sequence)) {
+            this.guard.recordFailedAttempt();
+        }
+        return null;
+    }
+
+    /**
+     * Unwrap the state key. Slots still on their factory code are included
+     * so a first-time keyring opens with either code.
+     */
+    private async unlockStore(slot: UnlockSlot, code: string): Promise<void> {
+        const factoryCodes: Partial<Record<UnlockSlot, string>> = {};
+        UNLOCK_SLOTS
+            .filter(other => other !== slot && this.registry.isFactoryCode(other))
+            .forEach(other => { factoryCodes[other] = DEFAULT_SEQUENCES[other]; });
+
+        await this.store.unlockWithCode(slot, code, factoryCodes);
+    }
+
+    reset(): void {
+        this.buffer = '';
+    }
+}
+
+export default CommandDetector;
@@ -0,0 +1,447 @@
+/**
+ * Math-OS Command Registry
+ *
+ * Maps calculator key sequences to the secret commands the app understands.
+ * Every person picks their own sequences, so the codes published on the
+ * landing page stop working as soon as they are changed.
+ *
+ * Sequences are never stored in plaintext: only a salted PBKDF2 hash per
+ * command is kept in localStorage, at the same cost as the keyring wrap of
+ * the encrypted store. The legend renders from this registry.
+ */
+
+import { generateSalt, deriveSecretHash } from '../services/cryptoUtils';
+import { KEY_ITERATIONS } from './encrypted-storage';
+
+// ============ TYPES ============
+
+export type MathOsCommand = 'GENESIS' | 'LOGIN' | 'DURESS' | 'FLASH_CHECK' | 'POOL_STATUS' | 'SOS' | 'WIPE' | 'CHECK_IN';
+
+export interface CommandDefinition {
+    command: MathOsCommand;
+    label: string;
+    tone: 'normal' | 'danger' | 'warning';
+    hidden?: boolean;   // Never listed in the on-screen legend
+}
+
+export interface LegendEntry extends CommandDefinition {
+    sequence: string;   // Printable sequence (defaults only) or the person's hint
+    isDefault: boolean;
+}
+
+interface RegistryEntry {
+    command: MathOsCommand;
+    hash: string;
+    shapeHash?: string;    // Legacy (digit-masked shape), dropped on load
+    neighborHashes?: string[];  // Legacy (per-position masked hashes), dropped on load
+    iterations?: number;   // Legacy cheaper hash, redone at the registry's cost on the next match
+    isDefault: boolean;
+    hint?: string;
+}
+
+interface StoredRegistry {
+    version: 1;
+    salt: string;
+    iterations: number;
+    triggers: string[];    // Final keys of the registered sequences
+    entries: RegistryEntry[];
+}
+
+// ============ CONSTANTS ============
+
+const STORAGE_KEY = 'athena_command_registry';
+// A cheaper hash would be the easier way to brute-force the unlock code
+const HASH_ITERATIONS = KEY_ITERATIONS;
+
+// Keys available on the calculator keypad
+export const CALCULATOR_KEYS = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9', '.', '+', '-', 'x', '÷', '%', '±', '='];
+
+// Reserved for the legend toggle, cannot be assigned to a command
+export const LEGEND_SEQUENCE = '%=';
+
+// Codes that open the vault; their factory values are the first ones an abuser tries
+const UNLOCK_COMMANDS: MathOsCommand[] = ['LOGIN', 'GENESIS'];
+
+// A number, an operator, then another number somewhere in the sequence
+const ARITHMETIC_PATTERN = /[0-9.][+\-x÷][±]?[0-9.]/;
+
+export const COMMAND_DEFINITIONS: CommandDefinition[] = [
+    { command: 'GENESIS', label: 'Genesis Setup', tone: 'normal' },
+    { command: 'LOGIN', label: 'Unlock Vault', tone: 'normal' },
+    { command: 'DURESS', label: 'Duress Unlock', tone: 'warning', hidden: true },
+    { command: 'FLASH_CHECK', label: 'Flash Balance', tone: 'normal' },
+    { command: 'POOL_STATUS', label: 'Pool Status', tone: 'normal' },
+    { command: 'SOS', label: 'TRIGGER SOS', tone: 'danger' },
+    { command: 'WIPE', label: 'Wipe Cache', tone: 'warning' },
+    { command: 'CHECK_IN', label: "I'm OK (Check-in)", tone: 'normal', hidden: true }
+];
+
+// Factory codes - public knowledge, people should replace them.
+// The duress and check-in codes have no factory value: they only exist once the person sets them.
+export const DEFAULT_SEQUENCES: Partial<Record<MathOsCommand, string>> = {
+    GENESIS: '1+1=',
+    LOGIN: '1999=',
+    FLASH_CHECK: '9÷11=',
+    POOL_STATUS: '7x7=',
+    SOS: '0÷0=',
+    WIPE: '...'
+};
+
+// ============ HELPERS ============
+
+/**
+ * Normalize typed input to calculator key symbols (* -> x, / -> ÷)
+ */
+export const normalizeSequence = (sequence: string): string => {
+    return sequence
+        .replace(/\s+/g, '')
+        .replace(/\*/g, 'x')
+        .replace(/X/g, 'x')
+        .replace(/\//g, '÷');
+};
+
+/**
+ * Spaced-out form used by the legend ("9 ÷ 11 =")
+ */
+export const formatSequence = (sequence: string): string => {
+    return sequence.replace(/([+\-x÷%=±])/g, ' $1 ').replace(/\s+/g, ' ').trim();
+};
+
+// ============ REGISTRY CLASS ============
+
+export class CommandRegistry {
+    private stored: StoredRegistry | null = null;
+    private ready: Promise<void>;
+
+    constructor() {
+        this.ready = this.load();
+    }
+
+    /**
+     * Wait until the registry has been loaded (or seeded with defaults)
+     */
+    async whenReady(): Promise<void> {
+        await this.ready;
+    }
+
+    /**
+     * Validate a candidate sequence. Returns an error message or null.
+     */
+    validateSequence(sequence: string): string | null {
+        const normalized = normalizeSequence(sequence);
+
+        if (normalized.length < 2) {
+            return 'Use at least 2 keys.';
+        }
+        if (normalized.length > 24) {
+            return 'Use 24 keys or fewer.';
+        }
+        if (!Array.from(normalized).every(key => CALCULATOR_KEYS.includes(key))) {
+            return 'Only calculator keys are allowed.';
+        }
+        if (normalized === LEGEND_SEQUENCE) {
+            return `${LEGEND_SEQUENCE} is reserved for the legend.`;
+        }
+        const last = normalized[normalized.length - 1];
+        if (last !== '=' && last !== '.') {
+            return 'The code must end with = or .';
+        }
+        return null;
+    }
+
+    /**
+     * Resolve a typed sequence to its command, if any
+     */
+    async resolve(sequence: string): Promise<MathOsCommand | null> {
+        await this.ready;
+        if (!this.stored || !sequence) return null;
+
+        const normalized = normalizeSequence(sequence);
+        if (!this.isTrigger(normalized[normalized.length - 1])) return null;
+
+        const match = await this.findEntry(normalized);
+        if (match?.iterations) {
+            await this.upgradeEntry(match, normalized);
+        }
+        return match ? match.command : null;
+    }
+
+    /**
+     * Validate a sequence for a command, including clashes with the codes of
+     * other commands. Returns an error message or null.
+     */
+    async checkSequence(command: MathOsCommand, sequence: string): Promise<string | null> {
+        await this.ready;
+
+        const error = this.validateSequence(sequence);
+        if (error) return error;
+
+        const clash = await this.findEntry(normalizeSequence(sequence));
+        if (clash && clash.command !== command) {
+            return 'That code is already used by another command.';
+        }
+        return null;
+    }
+
+    /**
+     * Whether a sequence that matched nothing looks like a code being guessed
+     * rather than a sum. Decided from public facts only - nothing derived
+     * from the registered codes - so it can't leak or weaken them:
+     * - it is a published unlock code that has been replaced ("1999=" once
+     *   LOGIN is custom), or
+     * - it is not arithmetic: no operator between two numbers ("4821=", "12..")
+     */
+    isFailedAttempt(sequence: string): boolean {
+        if (!this.stored || !sequence) return false;
+
+        const normalized = normalizeSequence(sequence);
+        if (!this.isTrigger(normalized[normalized.length - 1])) return false;
+
+        const retiredCode = UNLOCK_COMMANDS
+            .some(command => this.hasSequence(command) && !this.isFactoryCode(command) && normalized === DEFAULT_SEQUENCES[command]);
+
+        return retiredCode || !ARITHMETIC_PATTERN.test(normalized);
+    }
+
+    /**
+     * Whether a key press can complete a registered sequence
+     */
+    isTrigger(key: string): boolean {
+        return !!this.stored && this.stored.triggers.includes(key);
+    }
+
+    /**
+     * Assign a new sequence to a command (stored as a salted hash)
+     */
+    async setSequence(command: MathOsCommand, sequence: string, hint?: string): Promise<void> {
+        await this.ready;
+
+        const error = await this.checkSequence(command, sequence);
+        if (error) {
+            throw new Error(error);
+        }
+
+        const normalized = normalizeSequence(sequence);
+        const current = this.requireStored();
+        const hash = await deriveSecretHash(normalized, current.salt, current.iterations);
+
+        const entry: RegistryEntry = {
+            command,
+            hash,
+            isDefault: normalized === DEFAULT_SEQUENCES[command],
+            hint: hint?.trim() || undefined
+        };
+
+        const triggers = new Set(current.triggers);
+        triggers.add(normalized[normalized.length - 1]);
+
+        this.stored = {
+            ...current,
+            triggers: Array.from(triggers),
+            entries: [...current.entries.filter(e => e.command !== command), entry]
+        };
+        this.persist();
+
+        console.log(`[CommandRegistry] Code updated for ${command}`);
+    }
+
+    /**
+     * Restore the factory codes (new salt, old hashes discarded)
+     */
+    async resetToDefaults(): Promise<void> {
+        await this.ready;
+        this.stored = await this.buildDefaultRegistry();
+        this.persist();
+    }
+
+    /**
+     * Legend rows, in display order. Custom codes only show the person's hint,
+     * hidden commands (duress) are never listed.
+     */
+    getLegend(): LegendEntry[] {
+        const entries = this.stored?.entries || [];
+
+        return COMMAND_DEFINITIONS
+            .filter(definition => !definition.hidden)
+            .map(definition => {
+                const entry = entries.find(e => e.command === definition.command);
+                const isDefault = !entry || entry.isDefault;
+                return {
+                    ...definition,
+                    isDefault,
+                    sequence: isDefault
+                        ? formatSequence(DEFAULT_SEQUENCES[definition.command] || '')
+                        : entry?.hint || '••••'
+                };
+            });
+    }
+
+    /**
+     * Whether a command currently has any code assigned
+     */
+    hasSequence(command: MathOsCommand): boolean {
+        return !!this.stored?.entries.some(entry => entry.command === command);
+    }
+
+    /**
+     * Whether a command is still on its public factory code
+     */
+    isFactoryCode(command: MathOsCommand): boolean {
+        const entry = this.stored?.entries.find(e => e.command === command);
+        return !!entry && entry.isDefault;
+    }
+
+    /**
+     * True while at least one command still uses its public factory code
+     */
+    usesDefaults(): boolean {
+        return this.getLegend().some(entry => entry.isDefault);
+    }
+
+    // ============ PERSISTENCE ============
+
+    private async load(): Promise<void> {
+        try {
+            if (typeof localStorage !== 'undefined') {
+                const saved = localStorage.getItem(STORAGE_KEY);
+                if (saved) {
+                    const parsed = JSON.parse(saved) as StoredRegistry;
+                    if (parsed.version === 1 && parsed.salt && Array.isArray(parsed.entries)) {
+                        this.stored = await this.raiseHashCost(this.dropLegacyHashes(parsed));
+                        return;
+                    }
+                }
+            }
+        } catch (e) {
+            // Corrupted registry - fall back to defaults below
+        }
+
+        this.stored = await this.buildDefaultRegistry();
+        this.persist();
+    }
+
+    private async buildDefaultRegistry(): Promise<StoredRegistry> {
+        const salt = generateSalt();
+        const entries: RegistryEntry[] = [];
+
+        for (const definition of COMMAND_DEFINITIONS) {
+            const sequence = DEFAULT_SEQUENCES[definition.command];
+            if (!sequence) continue;
+            entries.push({
+                command: definition.command,
+                hash: await deriveSecretHash(sequence, salt, HASH_ITERATIONS),
+                isDefault: true
+            });
+        }
+
+        const triggers = new Set(Object.values(DEFAULT_SEQUENCES).map(seq => seq![seq!.length - 1]));
+
+        return {
+            version: 1,
+            salt,
+            iterations: HASH_ITERATIONS,
+            triggers: Array.from(triggers),
+            entries
+        };
+    }
+
+    /**
+     * Older registries kept extra hashes for near-miss detection (a
+     * digit-masked shape, then one hash per position with that key masked).
+     * Both reveal the code length and are easier to brute-force than the
+     * code itself - remove them.
+     */
+    private dropLegacyHashes(stored: StoredRegistry): StoredRegistry {
+        if (!stored.entries.some(entry => entry.shapeHash || entry.neighborHashes)) {
+            return stored;
+        }
+
+        const entries = stored.entries.map(({ shapeHash, neighborHashes, ...entry }) => entry);
+        const migrated = { ...stored, entries };
+        this.stored = migrated;
+        this.persist();
+        return migrated;
+    }
+
+    /**
+     * Registries hashed at a lower cost move to HASH_ITERATIONS. Factory codes
+     * are public and are rehashed now; custom codes keep their old cost
+     * (per entry) until they are next typed.
+     */
+    private async raiseHashCost(stored: StoredRegistry): Promise<StoredRegistry> {
+        if (stored.iterations >= HASH_ITERATIONS) {
+            return stored;
+        }
+
+        const entries: RegistryEntry[] = [];
+        for (const entry of stored.entries) {
+            const factory = DEFAULT_SEQUENCES[entry.command];
+            if (entry.isDefault && factory) {
+                const { iterations, ...rest } = entry;
+                entries.push({ ...rest, hash: await deriveSecretHash(factory, stored.salt, HASH_ITERATIONS) });
+            } else {
+                entries.push({ ...entry, iterations: entry.iterations || stored.iterations });
+            }
+        }
+
+        const migrated = { ...stored, iterations: HASH_ITERATIONS, entries };
+        this.stored = migrated;
+        this.persist();
+        return migrated;
+    }
+
+    /**
+     * The entry a normalized sequence hashes to. One derivation per hash cost
+     * in use - a single one once every legacy entry has been rehashed.
+     */
+    private async findEntry(normalized: string): Promise<RegistryEntry | undefined> {
+        const stored = this.requireStored();
+        const costs = new Set(stored.entries.map(entry => entry.iterations || stored.iterations));
+
+        for (const iterations of costs) {
+            const hash = await deriveSecretHash(normalized, stored.salt, iterations);
+            const match = stored.entries.find(entry => (entry.iterations || stored.iterations) === iterations && entry.hash === hash);
+            if (match) return match;
+        }
+        return undefined;
+    }
+
+    private async upgradeEntry(entry: RegistryEntry, normalized: string): Promise<void> {
+        const stored = this.requireStored();
+        const { iterations, ...rest } = entry;
+        const upgraded: RegistryEntry = { ...rest, hash: await deriveSecretHash(normalized, stored.salt, stored.iterations) };
+
+        this.stored = { ...stored, entries: stored.entries.map(e => (e === entry ? upgraded : e)) };
+        this.persist();
+    }
+
+    private requireStored(): StoredRegistry {
+        if (!this.stored) {
+            throw new Error('Command registry not loaded');
+        }
+        return this.stored;
+    }
+
+    private persist(): void {
+        try {
+            if (typeof localStorage !== 'undefined' && this.stored) {
+                localStorage.setItem(STORAGE_KEY, JSON.stringify(this.stored));
+            }
+        } catch (e) {
+            // Storage might be unavailable
+        }
+    }
+}
+
+// ============ SINGLETON INSTANCE ============
+
+let commandRegistryInstance: CommandRegistry | null = null;
+
+export const getCommandRegistry = (): CommandRegistry => {
+    if (!commandRegistryInstance) {
+        commandRegistryInstance = new CommandRegistry();
+    }
+    return commandRegistryInstance;
+};
+
+export default CommandRegistry;
@@ -0,0 +1,87 @@
+/**
+ * Covert Output
+ *
+ * How FLASH_CHECK / POOL_STATUS answer. In DISPLAY mode the number is written
+ * into the calculator display as if it were the result of the typed sum,
+ * with no "$" or "Pool:" label, and vanishes on the next key press.
+ *
+ * Encodings (only the person knows which one is active):
+ * - PLAIN: the number itself (balance 1234.5 -> "1234.5")
+ * - THOUSANDTHS: divided by 1000 (balance 1234.5 -> "1.2345")
+ * - OFFSET: plus a personal number (offset 317: balance 1234.5 -> "1551.5")
+ */
+
+import { formatNumber } from './calculator-engine';
+
+// ============ TYPES ============
+
+export type CovertMode = 'OVERLAY' | 'DISPLAY';
+export type CovertEncoding = 'PLAIN' | 'THOUSANDTHS' | 'OFFSET';
+
+export interface CovertOutputConfig {
+    mode: CovertMode;
+    encoding: CovertEncoding;
+    offset: number; // Used by OFFSET
+}
+
+// ============ CONSTANTS ============
+
+const STORAGE_KEY = 'athena_covert_output';
+
+export const COVERT_ENCODING_LABELS: Record<CovertEncoding, string> = {
+    PLAIN: 'Plain number',
+    THOUSANDTHS: 'Divided by 1000',
+    OFFSET: 'Plus my secret number'
+};
+
+export const DEFAULT_COVERT_OUTPUT_CONFIG: CovertOutputConfig = {
+    mode: 'DISPLAY',
+    encoding: 'PLAIN',
+    offset: 0
+};
+
+// ============ CONFIG ============
+
+export function getCovertOutputConfig(): CovertOutputConfig {
+    try {
+        if (typeof localStorage !== 'undefined') {
+            const saved = localStorage.getItem(STORAGE_KEY);
+            if (saved) {
+                return { ...DEFAULT_COVERT_OUTPUT_CONFIG, ...JSON.parse(saved) };
+            }
+        }
+    } catch (e) {
+        // Corrupted config - use defaults
+    }
+    return { ...DEFAULT_COVERT_OUTPUT_CONFIG };
+}
+
+export function saveCovertOutputConfig(config: CovertOutputConfig): void {
+    try {
+        if (typeof localStorage !== 'undefined') {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+        }
+    } catch (e) {
+        // Storage might be unavailable
+    }
+}
+
+// ============ ENCODING ============
+
+/**
+ * Encode a value as an ordinary-looking calculator result
+ */
+export function encodeCovertValue(value: number, config: CovertOutputConfig = getCovertOutputConfig()): string {
+    // Cents are enough - more digits would look odd for a "result"
+    const cents = Number.isFinite(value) ? Math.round(value * 100) / 100 : 0;
+
+    switch (config.encoding) {
+        case 'THOUSANDTHS':
+            return formatNumber(cents / 1000);
+        case 'OFFSET':
+            return formatNumber(cents + (Number(config.offset) || 0));
+        case 'PLAIN':
+        default:
+            return formatNumber(cents);
+    }
+}
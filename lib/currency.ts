@@ -0,0 +1,238 @@
+/**
+ * Currency
+ *
+ * Every amount is stored in the base unit (USD - FRAX/USDC are USD
+ * stablecoins); only the display is local. Conversion uses a rate table
+ * bundled with the app, which can be replaced with a fresher one at
+ * runtime (updateFxTable - validated, and ignored if malformed or older than
+ * the bundled table). Screens show how old the rates in use are, because an
+ * outdated rate can make a goal look closer than it is.
+ *
+ * The display currency is picked from the device locale (es-PE -> PEN)
+ * until the person chooses one.
+ */
+
+import { z } from 'zod';
+
+// ============ TYPES ============
+
+export type CurrencyCode = 'USD' | 'PEN' | 'MXN' | 'KES' | 'COP' | 'GTQ' | 'BRL' | 'CLP' | 'EUR';
+
+export interface FxTable {
+    base: 'USD';
+    updatedAt: string;                  // ISO date the rates were taken
+    rates: Record<CurrencyCode, number>; // Units of the currency per 1 USD
+}
+
+export type FxFreshness = 'FRESH' | 'STALE' | 'OUTDATED';
+
+export interface FxStaleness {
+    freshness: FxFreshness;
+    ageDays: number;
+    updatedAt: string;
+}
+
+interface CurrencyInfo {
+    label: string;
+    locale: string;
+    countries: string[]; // ISO 3166 region codes that default to it
+}
+
+// ============ CONSTANTS ============
+
+export const BASE_CURRENCY: CurrencyCode = 'USD';
+
+const FX_TABLE_KEY = 'athena_fx_table';
+const DISPLAY_CURRENCY_KEY = 'athena_display_currency';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CLOCK_SKEW_MS = DAY_MS; // A table dated further ahead than this is rejected
+const STALE_AFTER_DAYS = 7;
+const OUTDATED_AFTER_DAYS = 30;
+
+export const CURRENCIES: Record<CurrencyCode, CurrencyInfo> = {
+    USD: { label: 'US Dollar', locale: 'en-US', countries: ['US', 'EC', 'SV', 'PA'] },
+    PEN: { label: 'Sol (Peru)', locale: 'es-PE', countries: ['PE'] },
+    MXN: { label: 'Peso (Mexico)', locale: 'es-MX', countries: ['MX'] },
+    KES: { label: 'Shilling (Kenya)', locale: 'en-KE', countries: ['KE'] },
+    COP: { label: 'Peso (Colombia)', locale: 'es-CO', countries: ['CO'] },
+    GTQ: { label: 'Quetzal (Guatemala)', locale: 'es-GT', countries: ['GT'] },
+    BRL: { label: 'Real (Brazil)', locale: 'pt-BR', countries: ['BR'] },
+    CLP: { label: 'Peso (Chile)', locale: 'es-CL', countries: ['CL'] },
+    EUR: { label: 'Euro', locale: 'es-ES', countries: ['ES', 'FR', 'DE', 'IT', 'PT', 'NL', 'BE', 'AT', 'IE'] }
+};
+
+// Shipped with the app; used until a fresher valid table is stored
+export const BUNDLED_FX_TABLE: FxTable = {
+    base: 'USD',
+    updatedAt: '2026-10-01',
+    rates: {
+        USD: 1,
+        PEN: 3.74,
+        MXN: 18.6,
+        KES: 129.2,
+        COP: 4050,
+        GTQ: 7.71,
+        BRL: 5.42,
+        CLP: 945,
+        EUR: 0.92
+    }
+};
+
+// ============ FX TABLE ============
+
+const rate = z.number().finite().positive();
+
+const FxTableSchema = z.object({
+    base: z.literal('USD'),
+    updatedAt: z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid date'),
+    rates: z.object({
+        USD: z.literal(1),
+        PEN: rate,
+        MXN: rate,
+        KES: rate,
+        COP: rate,
+        GTQ: rate,
+        BRL: rate,
+        CLP: rate,
+        EUR: rate
+    })
+});
+
+/**
+ * A well-formed table that is newer than the bundled one and not dated in the future, or null
+ */
+function parseFxTable(input: unknown, now: number = Date.now()): FxTable | null {
+    const parsed = FxTableSchema.safeParse(input);
+    if (!parsed.success) return null;
+    const updatedAt = Date.parse(parsed.data.updatedAt);
+    if (updatedAt <= Date.parse(BUNDLED_FX_TABLE.updatedAt) || updatedAt > now + CLOCK_SKEW_MS) return null;
+    return parsed.data as FxTable;
+}
+
+/**
+ * The table in use: a stored update if it is valid, otherwise the bundled one
+ */
+export function getFxTable(): FxTable {
+    try {
+        if (typeof localStorage !== 'undefined') {
+            const saved = localStorage.getItem(FX_TABLE_KEY);
+            if (saved) {
+                const table = parseFxTable(JSON.parse(saved));
+                if (table) return table;
+            }
+        }
+    } catch (e) {
+        // Corrupted table - use the bundled one
+    }
+    return BUNDLED_FX_TABLE;
+}
+
+/**
+ * Store a fresher rate table (e.g. fetched from a rates endpoint). Returns
+ * false and keeps the current one if it is malformed, has a rate that isn't
+ * a positive number, or is not newer than the table in use.
+ */
+export function updateFxTable(input: unknown): boolean {
+    const table = parseFxTable(input);
+    if (!table || Date.parse(table.updatedAt) <= Date.parse(getFxTable().updatedAt)) return false;
+
+    try {
+        if (typeof localStorage !== 'undefined') {
+            localStorage.setItem(FX_TABLE_KEY, JSON.stringify(table));
+            return true;
+        }
+    } catch (e) {
+        // Storage might be unavailable
+    }
+    return false;
+}
+
+export function getFxStaleness(table: FxTable = getFxTable(), now: number = Date.now()): FxStaleness {
+    const ageDays = Math.max(0, Math.floor((now - Date.parse(table.updatedAt)) / DAY_MS));
+    const freshness: FxFreshness = ageDays > OUTDATED_AFTER_DAYS ? 'OUTDATED' :
+        ageDays > STALE_AFTER_DAYS ? 'STALE' : 'FRESH';
+    return { freshness, ageDays, updatedAt: table.updatedAt };
+}
+
+// ============ DISPLAY CURRENCY ============
+
+/**
+ * Currency of the device's region (es-PE -> PEN), USD if unknown
+ */
+export function detectLocalCurrency(): CurrencyCode {
+    const locale = typeof navigator !== 'undefined' ? navigator.language || '' : '';
+    const region = locale.split('-')[1]?.toUpperCase();
+    const match = (Object.keys(CURRENCIES) as CurrencyCode[])
+        .find(code => region && CURRENCIES[code].countries.includes(region));
+    return match || BASE_CURRENCY;
+}
+
+export function getDisplayCurrency(): CurrencyCode {
+    try {
+        if (typeof localStorage !== 'undefined') {
+            const saved = localStorage.getItem(DISPLAY_CURRENCY_KEY) as CurrencyCode;
+            if (saved && CURRENCIES[saved]) {
+                return saved;
+            }
+        }
+    } catch (e) {
+        // Storage might be unavailable
+    }
+    return detectLocalCurrency();
+}
+
+export function saveDisplayCurrency(currency: CurrencyCode): void {
+    try {
+        if (typeof localStorage !== 'undefined') {
+            localStorage.setItem(DISPLAY_CURRENCY_KEY, currency);
+        }
+    } catch (e) {
+        // Storage might be unavailable
+    }
+}
+
+// ============ CONVERSION ============
+
+export function fromBase(amount: number, currency: CurrencyCode = getDisplayCurrency(), table: FxTable = getFxTable()): number {
+    return amount * (table.rates[currency] || 1);
+}
+
+export function toBase(amount: number, currency: CurrencyCode = getDisplayCurrency(), table: FxTable = getFxTable()): number {
+    return amount / (table.rates[currency] || 1);
+}
+
+/**
+ * Format a base-unit amount in the display currency ("S/ 1,234.50")
+ */
+export function formatMoney(
+    amount: number,
+    currency: CurrencyCode = getDisplayCurrency(),
+    options: { decimals?: number } = {}
+): string {
+    const value = Number.isFinite(amount) ? fromBase(amount, currency) : 0;
+    try {
+        return new Intl.NumberFormat(CURRENCIES[currency].locale, {
+            style: 'currency',
+            currency,
+            minimumFractionDigits: options.decimals,
+            maximumFractionDigits: options.decimals
+        }).format(value);
+    } catch (e) {
+        // Intl without currency data
+        return `${currency} ${value.toFixed(options.decimals ?? 2)}`;
+    }
+}
+
+/**
+ * Symbol alone, for input prefixes ("S/", "KSh", "$")
+ */
+export function currencySymbol(currency: CurrencyCode = getDisplayCurrency()): string {
+    try {
+        const part = new Intl.NumberFormat(CURRENCIES[currency].locale, { style: 'currency', currency })
+            .formatToParts(0)
+            .find(p => p.type === 'currency');
+        return part?.value || currency;
+    } catch (e) {
+        return currency;
+    }
+}
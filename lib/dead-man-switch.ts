@@ -0,0 +1,381 @@
+/**
+ * Dead Man's Switch
+ *
+ * Opt-in. The person checks in with a secret calculator code (CHECK_IN);
+ * the calculator just shows the sum. If no check-in arrives within the
+ * interval plus the grace period, the chosen actions run: anchor the
+ * evidence snapshot and queue a notice to a lawyer, alert the safe contact, SOS.
+ *
+ * Timeline after each check-in:
+ *   lastCheckIn ── warnAt ── dueAt ── (grace) ── deadline
+ *                  reminder  window    banner     actions fire
+ *
+ * Enforced without the phone:
+ * - Firestore (dead_man_switches/{uid}) holds the deadline; past it, the
+ *   delivery worker alerts the safe contact and sends the evidence bundle
+ *   staged for the lawyer (restaged whenever the switch is saved or checked
+ *   in while unlocked).
+ * - TRIGGER_SOS arms contracts/DeadManSwitch.sol where the network has it:
+ *   the wallet approves its tokens to the contract, every check-in moves the
+ *   on-chain deadline, and after it anyone can call trigger() to send the
+ *   tokens to the safe contact.
+ * The watcher here also runs the actions on this device, the next time the
+ * app is open (any screen, locked or not) after the deadline.
+ */
+
+import { ZeroHash } from 'ethers';
+import { getAthenaAgent, SilentSOSStep } from './athena-agent';
+import { getFraxService } from './frax-service';
+import {
+    auth,
+    saveDeadManSwitch,
+    queueEvidenceRelease,
+    stageEvidenceRelease,
+    deleteStagedEvidenceRelease,
+    DeadManSwitchRecord
+} from './firebase';
+import { runSilentSOS, resolveSafeDestination } from './silent-sos';
+
+// ============ TYPES ============
+
+export type DeadManAction = 'RELEASE_EVIDENCE' | 'ALERT_CONTACT' | 'TRIGGER_SOS';
+
+export type DeadManStatus = 'DISABLED' | 'OK' | 'WARNING' | 'GRACE' | 'EXPIRED';
+
+export interface DeadManConfig {
+    enabled: boolean;
+    intervalHours: number;
+    graceHours: number;
+    warningHours: number; // Reminder this long before the window closes
+    actions: DeadManAction[];
+    lawyerEmail?: string;
+}
+
+interface DeadManState {
+    lastCheckIn: number;
+    firedAt?: number;
+    releaseHash?: string; // Staged evidence bundle
+    onChain?: boolean;    // DeadManSwitch contract armed
+}
+
+export interface DeadManTimeline {
+    status: DeadManStatus;
+    lastCheckIn: number;
+    warnAt: number;
+    dueAt: number;
+    deadline: number;
+}
+
+export const DEAD_MAN_ACTION_LABELS: Record<DeadManAction, string> = {
+    RELEASE_EVIDENCE: 'Anchor my evidence and notify my lawyer',
+    ALERT_CONTACT: 'Alert my safe contact',
+    TRIGGER_SOS: 'Send my funds to my safe wallet'
+};
+
+// ============ CONFIG ============
+
+const CONFIG_KEY = 'athena_dead_man_config';
+const STATE_KEY = 'athena_dead_man_state';
+const HOUR_MS = 60 * 60 * 1000;
+const WATCH_INTERVAL_MS = 60 * 1000;
+
+export const DEFAULT_DEAD_MAN_CONFIG: DeadManConfig = {
+    enabled: false,
+    intervalHours: 72,
+    graceHours: 24,
+    warningHours: 12,
+    actions: ['ALERT_CONTACT']
+};
+
+// Step of the silent SOS pipeline each action maps to
+const ACTION_STEPS: Record<DeadManAction, SilentSOSStep> = {
+    RELEASE_EVIDENCE: 'SNAPSHOT_EVIDENCE',
+    ALERT_CONTACT: 'ALERT_CONTACT',
+    TRIGGER_SOS: 'TRANSFER_FUNDS'
+};
+
+export function getDeadManConfig(): DeadManConfig {
+    try {
+        if (typeof localStorage !== 'undefined') {
+            const saved = localStorage.getItem(CONFIG_KEY);
+            if (saved) {
+                const parsed = JSON.parse(saved) as DeadManConfig;
+                if (Array.isArray(parsed.actions)) {
+                    return { ...DEFAULT_DEAD_MAN_CONFIG, ...parsed };
+                }
+            }
+        }
+    } catch (e) {
+        // Corrupted config - use defaults
+    }
+    return { ...DEFAULT_DEAD_MAN_CONFIG };
+}
+
+export function saveDeadManConfig(config: DeadManConfig): void {
+    try {
+        if (typeof localStorage !== 'undefined') {
+            localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+        }
+    } catch (e) {
+        // Storage might be unavailable
+    }
+}
+
+// ============ TIMELINE ============
+
+/**
+ * Where a switch stands at `now`. Pure.
+ */
+export function evaluateDeadManSwitch(config: DeadManConfig, lastCheckIn: number, now: number = Date.now()): DeadManTimeline {
+    const dueAt = lastCheckIn + config.intervalHours * HOUR_MS;
+    const warnAt = dueAt - config.warningHours * HOUR_MS;
+    const deadline = dueAt + config.graceHours * HOUR_MS;
+
+    let status: DeadManStatus = 'OK';
+    if (!config.enabled) status = 'DISABLED';
+    else if (now >= deadline) status = 'EXPIRED';
+    else if (now >= dueAt) status = 'GRACE';
+    else if (now >= warnAt) status = 'WARNING';
+
+    return { status, lastCheckIn, warnAt, dueAt, deadline };
+}
+
+// ============ SWITCH CLASS ============
+
+export class DeadManSwitch {
+    private watcher: ReturnType<typeof setInterval> | null = null;
+    private firing = false;
+
+    getTimeline(): DeadManTimeline {
+        return evaluateDeadManSwitch(getDeadManConfig(), this.readState().lastCheckIn);
+    }
+
+    /**
+     * Save the config, restage the evidence bundle and arm or disarm the
+     * contract. Turning the switch on counts as a check-in.
+     */
+    async configure(config: DeadManConfig): Promise<void> {
+        const previous = getDeadManConfig();
+        saveDeadManConfig(config);
+
+        let state = this.readState();
+        if (config.enabled && !previous.enabled) {
+            state = { ...state, lastCheckIn: Date.now(), firedAt: undefined };
+        }
+        state = await this.stageRelease(config, state);
+        state = await this.syncContract(config, previous, state);
+        this.writeState(state);
+        await this.sync();
+    }
+
+    /**
+     * Proof of life (CHECK_IN code). Never throws; false when the switch is off.
+     */
+    async checkIn(): Promise<boolean> {
+        const config = getDeadManConfig();
+        if (!config.enabled) return false;
+
+        const previousHash = this.readState().releaseHash;
+        const state = await this.stageRelease(config, { ...this.readState(), lastCheckIn: Date.now() });
+        this.writeState(state);
+        console.log('[DeadManSwitch] Checked in');
+
+        if (state.onChain) {
+            // Mined in the background - the calculator doesn't wait for it
+            const releaseHash = state.releaseHash && state.releaseHash !== previousHash ? state.releaseHash : ZeroHash;
+            getFraxService().deadManCheckIn(releaseHash)
+                .then(result => { if (!result.success) console.warn('[DeadManSwitch] On-chain check-in failed:', result.message); })
+                .catch(() => { });
+        }
+        await this.sync();
+        return true;
+    }
+
+    /**
+     * Mirror the timeline to Firestore - the deadline the backend enforces
+     */
+    async sync(): Promise<void> {
+        const user = auth.currentUser;
+        if (!user) return;
+
+        const config = getDeadManConfig();
+        const state = this.readState();
+        const timeline = evaluateDeadManSwitch(config, state.lastCheckIn);
+        const record: DeadManSwitchRecord = {
+            enabled: config.enabled,
+            actions: config.actions,
+            lastCheckIn: timeline.lastCheckIn,
+            warnAt: timeline.warnAt,
+            dueAt: timeline.dueAt,
+            deadline: timeline.deadline,
+            firedAt: state.firedAt,
+            lawyerEmail: config.lawyerEmail,
+            caseId: getAthenaAgent().peekCase()?.caseId,
+            releaseHash: state.releaseHash,
+            switchContract: state.onChain ? getFraxService().getNetworkInfo().deadManSwitchAddress : undefined,
+            chainId: state.onChain ? getFraxService().getNetworkInfo().chainId : undefined
+        };
+
+        try {
+            await saveDeadManSwitch(user.uid, record);
+        } catch (e) {
+            // Retried on the next check-in or config change
+        }
+    }
+
+    /**
+     * Run the actions if the deadline passed and they haven't run yet. Never throws.
+     */
+    async enforce(): Promise<boolean> {
+        const config = getDeadManConfig();
+        const state = this.readState();
+        const { status } = evaluateDeadManSwitch(config, state.lastCheckIn);
+        if (status !== 'EXPIRED' || state.firedAt || this.firing) return false;
+
+        this.firing = true;
+        try {
+            this.writeState({ ...state, firedAt: Date.now() });
+            console.log('[DeadManSwitch] Deadline passed - running actions');
+
+            const result = await runSilentSOS({ steps: config.actions.map(action => ACTION_STEPS[action]) });
+
+            const user = auth.currentUser;
+            if (config.actions.includes('RELEASE_EVIDENCE') && config.lawyerEmail && user) {
+                await queueEvidenceRelease(user.uid, {
+                    lawyerEmail: config.lawyerEmail,
+                    caseId: getAthenaAgent().peekCase()?.caseId,
+                    evidenceHash: result?.evidenceHash,
+                    releaseHash: state.releaseHash
+                }).catch(() => null);
+            }
+
+            await this.sync();
+            return true;
+        } finally {
+            this.firing = false;
+        }
+    }
+
+    /**
+     * Put the current evidence bundle where the backend can release it.
+     * Needs the agent unlocked - otherwise the last staged bundle stays.
+     */
+    private async stageRelease(config: DeadManConfig, state: DeadManState): Promise<DeadManState> {
+        const user = auth.currentUser;
+        if (!user) return state;
+
+        const wanted = config.enabled && config.actions.includes('RELEASE_EVIDENCE') && !!config.lawyerEmail;
+        try {
+            if (!wanted) {
+                if (state.releaseHash) {
+                    await deleteStagedEvidenceRelease(user.uid);
+                }
+                return { ...state, releaseHash: undefined };
+            }
+
+            const bundle = await getAthenaAgent().buildEvidenceBundle();
+            if (!bundle || bundle.hash === state.releaseHash) return state;
+            await stageEvidenceRelease(user.uid, {
+                lawyerEmail: config.lawyerEmail!,
+                caseId: bundle.caseId,
+                bundle: bundle.content,
+                bundleHash: bundle.hash
+            });
+            return { ...state, releaseHash: bundle.hash };
+        } catch (e) {
+            // Offline - restaged on the next check-in or config change
+            return state;
+        }
+    }
+
+    /**
+     * Arm the contract for TRIGGER_SOS (again when the timing changed), disarm it otherwise
+     */
+    private async syncContract(config: DeadManConfig, previous: DeadManConfig, state: DeadManState): Promise<DeadManState> {
+        const frax = getFraxService();
+        const wanted = config.enabled && config.actions.includes('TRIGGER_SOS');
+
+        if (!wanted) {
+            if (state.onChain) {
+                const result = await frax.disarmDeadManSwitch();
+                if (!result.success) console.warn('[DeadManSwitch] Disarm failed:', result.message);
+                return { ...state, onChain: !result.success };
+            }
+            return state;
+        }
+
+        const timingChanged = config.intervalHours !== previous.intervalHours || config.graceHours !== previous.graceHours;
+        if ((state.onChain && !timingChanged) || !frax.hasDeadManContract()) return state;
+
+        const destination = await resolveSafeDestination();
+        if (!destination) {
+            console.warn('[DeadManSwitch] No safe wallet - funds are only sent from this device');
+            return state;
+        }
+        const result = await frax.armDeadManSwitch(
+            destination.address,
+            config.intervalHours * 3600,
+            config.graceHours * 3600,
+            state.releaseHash || ZeroHash
+        );
+        if (!result.success) {
+            console.warn('[DeadManSwitch] Arm failed:', result.message);
+            return state;
+        }
+        return { ...state, onChain: true };
+    }
+
+    /**
+     * Enforcement loop while the app is open (any screen, locked or not) - the
+     * on-device fallback to the backend and contract
+     */
+    startWatching(): void {
+        if (this.watcher) return;
+        this.enforce().catch(() => { });
+        this.watcher = setInterval(() => this.enforce().catch(() => { }), WATCH_INTERVAL_MS);
+    }
+
+    stopWatching(): void {
+        if (this.watcher) {
+            clearInterval(this.watcher);
+            this.watcher = null;
+        }
+    }
+
+    private readState(): DeadManState {
+        try {
+            if (typeof localStorage !== 'undefined') {
+                const saved = localStorage.getItem(STATE_KEY);
+                if (saved) {
+                    return JSON.parse(saved) as DeadManState;
+                }
+            }
+        } catch (e) {
+            // Corrupted state - treated as a check-in now
+        }
+        return { lastCheckIn: Date.now() };
+    }
+
+    private writeState(state: DeadManState): void {
+        try {
+            if (typeof localStorage !== 'undefined') {
+                localStorage.setItem(STATE_KEY, JSON.stringify(state));
+            }
+        } catch (e) {
+            // Storage might be unavailable
+        }
+    }
+}
+
+// ============ SINGLETON INSTANCE ============
+
+let deadManSwitchInstance: DeadManSwitch | null = null;
+
+export const getDeadManSwitch = (): DeadManSwitch => {
+    if (!deadManSwitchInstance) {
+        deadManSwitchInstance = new DeadManSwitch();
+    }
+    return deadManSwitchInstance;
+};
+
+export default DeadManSwitch;
@@ -0,0 +1,129 @@
+/**
+ * Disguise Selection
+ *
+ * Decides which harmless-looking shell (Calculator, Recipes, Period Tracker)
+ * the app opens as. Two mechanisms:
+ * - Per installation: the shell saved on this device
+ * - By access code: a launch link (?k=CODE) bound to a specific shell, so each
+ *   home-screen install can look like a different app
+ *
+ * The shell components themselves live in components/DisguiseShell.tsx.
+ */
+
+import { generateSalt } from '../services/cryptoUtils';
+
+// ============ TYPES ============
+
+export type DisguiseShellId = 'CALCULATOR' | 'RECIPES' | 'PERIOD_TRACKER';
+
+export interface DisguiseConfig {
+    defaultShell: DisguiseShellId;
+    accessCodes: Record<string, DisguiseShellId>; // launch code -> shell
+}
+
+export interface DisguiseShellInfo {
+    id: DisguiseShellId;
+    name: string;
+    title: string; // Browser tab / home-screen title
+    covertDisplay: boolean; // Can show FLASH_CHECK / POOL_STATUS as an ordinary result
+}
+
+// ============ CONSTANTS ============
+
+const STORAGE_KEY = 'athena_disguise';
+const ACCESS_PARAM = 'k';
+
+export const DISGUISE_SHELL_INFO: Record<DisguiseShellId, DisguiseShellInfo> = {
+    CALCULATOR: { id: 'CALCULATOR', name: 'Calculator', title: 'Calculator', covertDisplay: true },
+    RECIPES: { id: 'RECIPES', name: 'Recipes', title: 'My Recipes', covertDisplay: false },
+    PERIOD_TRACKER: { id: 'PERIOD_TRACKER', name: 'Period Tracker', title: 'Cycle', covertDisplay: false }
+};
+
+const DEFAULT_CONFIG: DisguiseConfig = {
+    defaultShell: 'CALCULATOR',
+    accessCodes: {}
+};
+
+// ============ CONFIG ============
+
+export function getDisguiseConfig(): DisguiseConfig {
+    try {
+        if (typeof localStorage !== 'undefined') {
+            const saved = localStorage.getItem(STORAGE_KEY);
+            if (saved) {
+                const parsed = JSON.parse(saved) as DisguiseConfig;
+                if (parsed.defaultShell in DISGUISE_SHELL_INFO) {
+                    return { ...DEFAULT_CONFIG, ...parsed };
+                }
+            }
+        }
+    } catch (e) {
+        // Corrupted config - use defaults
+    }
+    return { ...DEFAULT_CONFIG, accessCodes: {} };
+}
+
+export function saveDisguiseConfig(config: DisguiseConfig): void {
+    try {
+        if (typeof localStorage !== 'undefined') {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+        }
+    } catch (e) {
+        // Storage might be unavailable
+    }
+}
+
+// ============ RESOLUTION ============
+
+/**
+ * Pick the shell for this launch: access code first, then the installation default
+ */
+export function resolveActiveShell(search: string = typeof window !== 'undefined' ? window.location.search : ''): DisguiseShellId {
+    const config = getDisguiseConfig();
+    const code = new URLSearchParams(search).get(ACCESS_PARAM);
+
+    if (code && config.accessCodes[code]) {
+        return config.accessCodes[code];
+    }
+    return config.defaultShell;
+}
+
+/**
+ * Create a launch code bound to a shell (replaces any previous code for it)
+ */
+export function createAccessCode(shell: DisguiseShellId): string {
+    const config = getDisguiseConfig();
+    const code = generateSalt(4);
+
+    const accessCodes = Object.fromEntries(
+        Object.entries(config.accessCodes).filter(([, target]) => target !== shell)
+    ) as Record<string, DisguiseShellId>;
+    accessCodes[code] = shell;
+
+    saveDisguiseConfig({ ...config, accessCodes });
+    return code;
+}
+
+export function getAccessCodeFor(shell: DisguiseShellId): string | null {
+    const entry = Object.entries(getDisguiseConfig().accessCodes).find(([, target]) => target === shell);
+    return entry ? entry[0] : null;
+}
+
+/**
+ * Launch link to add to the home screen for a given code
+ */
+export function getAccessLink(code: string): string {
+    const base = typeof window !== 'undefined'
+        ? `${window.location.origin}${window.location.pathname}`
+        : '/';
+    return `${base}?${ACCESS_PARAM}=${encodeURIComponent(code)}`;
+}
+
+/**
+ * Set the browser title to match the shell (the tab must not say "Athena")
+ */
+export function applyShellTitle(shell: DisguiseShellId): void {
+    if (typeof document !== 'undefined') {
+        document.title = DISGUISE_SHELL_INFO[shell].title;
+    }
+}
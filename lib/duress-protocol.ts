@@ -0,0 +1,118 @@
+/**
+ * Duress Protocol
+ *
+ * Runs when the app is unlocked with the duress code. The screen shows the
+ * decoy dashboard while the person's chosen protective actions run quietly
+ * in the background. Failures are swallowed: nothing may surface on screen.
+ *
+ * The agent locks behind the decoy, so whatever needs the open session (the
+ * local flag, the case ID) is taken first with prepareDuress().
+ */
+
+import { getAthenaAgent } from './athena-agent';
+import { auth, flagCaseDuress, queueSafeContactAlert } from './firebase';
+
+// ============ TYPES ============
+
+export type DuressAction = 'FLAG_CASE' | 'QUEUE_ALERT';
+
+// Taken from the open session before the agent locks
+export interface DuressSnapshot {
+    caseId?: string;
+}
+
+export interface DuressConfig {
+    actions: DuressAction[];
+}
+
+export const DURESS_ACTION_LABELS: Record<DuressAction, string> = {
+    FLAG_CASE: 'Flag my case',
+    QUEUE_ALERT: 'Alert my safe contact'
+};
+
+// ============ CONFIG ============
+
+const STORAGE_KEY = 'athena_duress_config';
+
+const DEFAULT_CONFIG: DuressConfig = {
+    actions: ['FLAG_CASE', 'QUEUE_ALERT']
+};
+
+export function getDuressConfig(): DuressConfig {
+    try {
+        if (typeof localStorage !== 'undefined') {
+            const saved = localStorage.getItem(STORAGE_KEY);
+            if (saved) {
+                const parsed = JSON.parse(saved) as DuressConfig;
+                if (Array.isArray(parsed.actions)) {
+                    return parsed;
+                }
+            }
+        }
+    } catch (e) {
+        // Corrupted config - use defaults
+    }
+    return { ...DEFAULT_CONFIG };
+}
+
+export function saveDuressConfig(config: DuressConfig): void {
+    try {
+        if (typeof localStorage !== 'undefined') {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+        }
+    } catch (e) {
+        // Storage might be unavailable
+    }
+}
+
+// ============ PROTOCOL ============
+
+/**
+ * Flag the case locally (FLAG_CASE) and note its ID while the session is
+ * still open - call before locking the agent. An already locked session
+ * gives an empty snapshot: the backend flag still applies. Never throws.
+ */
+export async function prepareDuress(config: DuressConfig = getDuressConfig()): Promise<DuressSnapshot> {
+    const agent = getAthenaAgent();
+    try {
+        const athenaCase = config.actions.includes('FLAG_CASE') ? agent.flagDuress() : agent.peekCase();
+        await agent.flush();
+        return { caseId: athenaCase?.caseId };
+    } catch (e) {
+        return {};
+    }
+}
+
+/**
+ * Run the configured protective actions. Never throws.
+ */
+export async function runDuressProtocol(
+    config: DuressConfig = getDuressConfig(),
+    snapshot: DuressSnapshot = {}
+): Promise<void> {
+    const user = auth.currentUser;
+
+    for (const action of config.actions) {
+        try {
+            switch (action) {
+                case 'FLAG_CASE':
+                    if (user) {
+                        await flagCaseDuress(user.uid, snapshot.caseId);
+                    }
+                    break;
+
+                case 'QUEUE_ALERT':
+                    if (user) {
+                        await queueSafeContactAlert(user.uid, {
+                            reason: 'DURESS',
+                            caseId: snapshot.caseId,
+                            message: 'Check-in requested: the app was opened under pressure.'
+                        });
+                    }
+                    break;
+            }
+        } catch (e) {
+            // Silent by design - keep going with the remaining actions
+        }
+    }
+}
@@ -0,0 +1,226 @@
+/**
+ * Encrypted Storage Backend
+ *
+ * Wraps another StorageBackend and encrypts every value (AES-256-GCM). The
+ * data key is random and never stored in the clear: it is wrapped once per
+ * unlock code (LOGIN, GENESIS) with a key derived from that code via
+ * PBKDF2-SHA256. The keyring lives in the inner backend.
+ *
+ * The unlock code only exists in memory for the instant it is typed, so the
+ * command detector hands it over right after the registry matches it.
+ * Locking zeroes the data key; nothing can be read again until the next unlock.
+ */
+
+import {
+    EncryptedBlob,
+    generateSalt,
+    deriveAesKey,
+    importAesKey,
+    aesGcmEncrypt,
+    aesGcmDecrypt
+} from '../services/cryptoUtils';
+import { StorageBackend, LockableStorageBackend, getDefaultStorageBackend } from './storage-backend';
+
+// ============ TYPES ============
+
+export type UnlockSlot = 'LOGIN' | 'GENESIS';
+
+interface StoredKeyring {
+    version: 1;
+    salt: string;
+    iterations: number;
+    wraps: Partial<Record<UnlockSlot, EncryptedBlob>>;
+}
+
+interface StoredEnvelope extends EncryptedBlob {
+    v: 1;
+}
+
+export class EncryptedStoreError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'EncryptedStoreError';
+    }
+}
+
+// ============ CONSTANTS ============
+
+const KEYRING_KEY = 'athena_keyring';
+export const KEY_ITERATIONS = 150000;
+
+export const UNLOCK_SLOTS: UnlockSlot[] = ['LOGIN', 'GENESIS'];
+
+// ============ BACKEND CLASS ============
+
+export class EncryptedStorageBackend implements LockableStorageBackend {
+    readonly name: string;
+    private dataKey: CryptoKey | null = null;
+    private rawDataKey: Uint8Array | null = null;
+
+    constructor(private inner: StorageBackend = getDefaultStorageBackend()) {
+        this.name = `encrypted(${inner.name})`;
+    }
+
+    /**
+     * Unwrap the data key with an unlock code. The first unlock ever creates
+     * the keyring; extra codes (e.g. untouched factory codes for the other
+     * slots) are wrapped at the same time so they open the same data.
+     */
+    async unlockWithCode(slot: UnlockSlot, code: string, extraCodes: Partial<Record<UnlockSlot, string>> = {}): Promise<boolean> {
+        const keyring = await this.readKeyring();
+
+        if (!keyring) {
+            this.rawDataKey = crypto.getRandomValues(new Uint8Array(32));
+            this.dataKey = await importAesKey(this.rawDataKey);
+
+            const fresh: StoredKeyring = { version: 1, salt: generateSalt(), iterations: KEY_ITERATIONS, wraps: {} };
+            const codes: Partial<Record<UnlockSlot, string>> = { ...extraCodes, [slot]: code };
+            for (const [target, targetCode] of Object.entries(codes) as [UnlockSlot, string][]) {
+                fresh.wraps[target] = await this.wrap(targetCode, fresh);
+            }
+            await this.inner.set(KEYRING_KEY, JSON.stringify(fresh));
+
+            console.log('[EncryptedStorage] Keyring created');
+            return true;
+        }
+
+        const wrapped = keyring.wraps[slot];
+        if (!wrapped) {
+            this.lock();
+            return false;
+        }
+
+        try {
+            const kek = await deriveAesKey(code, keyring.salt, keyring.iterations);
+            this.rawDataKey = await aesGcmDecrypt(kek, wrapped);
+            this.dataKey = await importAesKey(this.rawDataKey);
+            return true;
+        } catch (e) {
+            // Wrong code or tampered keyring - fail closed
+            this.lock();
+            return false;
+        }
+    }
+
+    /**
+     * Wrap the (unlocked) data key under a new code for a slot
+     */
+    async setCode(slot: UnlockSlot, code: string): Promise<void> {
+        const keyring = await this.readKeyring();
+        if (!keyring || !this.rawDataKey) {
+            throw new EncryptedStoreError('Store is locked');
+        }
+        keyring.wraps[slot] = await this.wrap(code, keyring);
+        await this.inner.set(KEYRING_KEY, JSON.stringify(keyring));
+    }
+
+    isUnlocked(): boolean {
+        return this.dataKey !== null;
+    }
+
+    /**
+     * Forget the data key (session lock)
+     */
+    lock(): void {
+        if (this.rawDataKey) {
+            this.rawDataKey.fill(0);
+        }
+        this.rawDataKey = null;
+        this.dataKey = null;
+    }
+
+    /**
+     * Remove the keyring: everything encrypted so far becomes unreadable
+     */
+    async destroyKeys(): Promise<void> {
+        this.lock();
+        await this.inner.remove(KEYRING_KEY);
+    }
+
+    // ============ STORAGE BACKEND ============
+
+    async set(key: string, value: string): Promise<void> {
+        if (!this.dataKey) {
+            throw new EncryptedStoreError('Store is locked');
+        }
+        const blob = await aesGcmEncrypt(this.dataKey, value);
+        const envelope: StoredEnvelope = { v: 1, ...blob };
+        await this.inner.set(key, JSON.stringify(envelope));
+    }
+
+    /**
+     * Decrypt a value. Null when nothing is stored. Legacy plaintext values
+     * are returned as-is (the caller re-saves them encrypted).
+     * Throws EncryptedStoreError when it cannot be decrypted.
+     */
+    async get(key: string): Promise<string | null> {
+        const saved = await this.inner.get(key);
+        if (saved === null) return null;
+
+        let parsed: any = null;
+        try {
+            parsed = JSON.parse(saved);
+        } catch (e) {
+            // Not JSON - can't be one of our envelopes
+        }
+
+        if (parsed?.v !== 1 || !parsed.iv || !parsed.data) {
+            return saved; // Written before encryption existed
+        }
+
+        if (!this.dataKey) {
+            throw new EncryptedStoreError('Store is locked');
+        }
+
+        try {
+            const plain = await aesGcmDecrypt(this.dataKey, parsed as StoredEnvelope);
+            return new TextDecoder().decode(plain);
+        } catch (e) {
+            throw new EncryptedStoreError('Wrong key or tampered value');
+        }
+    }
+
+    async remove(key: string): Promise<void> {
+        await this.inner.remove(key);
+    }
+
+    async keys(): Promise<string[]> {
+        const keys = await this.inner.keys();
+        return keys.filter(key => key !== KEYRING_KEY);
+    }
+
+    // ============ KEYRING ============
+
+    private async wrap(code: string, keyring: StoredKeyring): Promise<EncryptedBlob> {
+        const kek = await deriveAesKey(code, keyring.salt, keyring.iterations);
+        return aesGcmEncrypt(kek, this.rawDataKey!);
+    }
+
+    private async readKeyring(): Promise<StoredKeyring | null> {
+        try {
+            const saved = await this.inner.get(KEYRING_KEY);
+            if (saved) {
+                const parsed = JSON.parse(saved) as StoredKeyring;
+                if (parsed.version === 1 && parsed.salt && parsed.wraps) {
+                    return parsed;
+                }
+            }
+        } catch (e) {
+            // Corrupted keyring - treated as missing
+        }
+        return null;
+    }
+}
+
+// ============ SINGLETON INSTANCE ============
+
+let encryptedStorageInstance: EncryptedStorageBackend | null = null;
+
+export const getEncryptedStorage = (): EncryptedStorageBackend => {
+    if (!encryptedStorageInstance) {
+        encryptedStorageInstance = new EncryptedStorageBackend();
+    }
+    return encryptedStorageInstance;
+};
+
+export default EncryptedStorageBackend;
@@ -24,12 +24,17 @@ import {
     getDoc,
     addDoc,
     query,
+    where,
     orderBy,
     limit,
     getDocs,
     serverTimestamp,
+    runTransaction,
+    deleteDoc,
     Timestamp
 } from 'firebase/firestore';
+import { generateCaseId } from './case-identity';
+import { JournalAnchor } from './action-journal';
 
 // ============ FIREBASE CONFIG ============
 
@@ -92,7 +97,7 @@ export async function registerUser(
             displayName,
             email: user.email || email,
             createdAt: new Date(),
-            caseId: `ATHENA-${Date.now()}-${Math.random().toString(36).slice(2, 6).toUpperCase()}`
+            caseId: generateCaseId()
         };
 
         await setDoc(doc(db, 'users', user.uid), {
@@ -242,18 +247,113 @@ export async function loadChatHistory(
     }
 }
 
+// ============ ESCAPE PLAN VERSIONS ============
+//
+// Every generated, edited or restored plan is kept as an immutable version
+// in users/{uid}/plan_versions/v{n}. plans/current is a copy of the active
+// version (plus its number) so existing readers keep working. The case ID
+// is fixed by the first version and never changes afterwards.
+
+export type PlanVersionSource = 'GENERATED' | 'EDITED' | 'ROLLBACK';
+
+export interface PlanVersionRecord {
+    version: number;
+    source: PlanVersionSource;
+    plan: any;
+    createdAt: number;              // ms since epoch
+    rolledBackFrom: number | null;  // Version restored by a ROLLBACK
+}
+
 /**
- * Save escape plan to Firestore
+ * Save escape plan to Firestore as a new version. Returns the stored record
+ * (its plan carries the stable case ID).
  */
-export async function saveEscapePlan(userId: string, plan: any): Promise<void> {
+export async function saveEscapePlan(
+    userId: string,
+    plan: any,
+    rolledBackFrom: number | null = null
+): Promise<PlanVersionRecord> {
     try {
-        await setDoc(doc(db, 'users', userId, 'plans', 'current'), {
-            ...plan,
-            updatedAt: serverTimestamp()
+        const currentRef = doc(db, 'users', userId, 'plans', 'current');
+
+        return await runTransaction(db, async (transaction) => {
+            const current = await transaction.get(currentRef);
+            const previous = current.exists() ? current.data() : null;
+
+            // Saved before versioning: keep that plan as v1 so it can be rolled back to
+            const legacy = previous && typeof previous.version !== 'number' ? previous : null;
+            const legacyRef = doc(db, 'users', userId, 'plan_versions', 'v1');
+
+            const version = legacy ? 2 : (previous?.version || 0) + 1;
+            const versionRef = doc(db, 'users', userId, 'plan_versions', `v${version}`);
+
+            // Transactions read everything before the first write
+            if ((await transaction.get(versionRef)).exists()) {
+                throw new Error(`Plan version ${version} already exists`);
+            }
+            if (legacy && (await transaction.get(legacyRef)).exists()) {
+                throw new Error('Plan version 1 already exists');
+            }
+
+            if (legacy) {
+                const { version: _legacyVersion, updatedAt: legacyUpdatedAt, ...legacyPlan } = legacy;
+                const legacyRecord: PlanVersionRecord = {
+                    version: 1,
+                    source: 'GENERATED',
+                    plan: { ...legacyPlan, caseId: legacyPlan.caseId || null },
+                    createdAt: typeof legacyUpdatedAt?.toMillis === 'function' ? legacyUpdatedAt.toMillis() : Date.now(),
+                    rolledBackFrom: null
+                };
+                transaction.set(legacyRef, legacyRecord);
+            }
+
+            const { version: _version, updatedAt: _updatedAt, ...planData } = plan;
+            const record: PlanVersionRecord = {
+                version,
+                source: rolledBackFrom !== null ? 'ROLLBACK' : previous ? 'EDITED' : 'GENERATED',
+                plan: { ...planData, caseId: previous?.caseId || plan.caseId || null },
+                createdAt: Date.now(),
+                rolledBackFrom
+            };
+
+            transaction.set(versionRef, record);
+            transaction.set(currentRef, {
+                ...record.plan,
+                version,
+                updatedAt: serverTimestamp()
+            });
+            return record;
         });
     } catch (error) {
         console.error('[Firebase] Save plan error:', error);
+        throw error;
+    }
+}
+
+/**
+ * All versions of the escape plan, newest first
+ */
+export async function loadPlanVersions(userId: string, maxVersions: number = 50): Promise<PlanVersionRecord[]> {
+    try {
+        const versionsRef = collection(db, 'users', userId, 'plan_versions');
+        const q = query(versionsRef, orderBy('version', 'desc'), limit(maxVersions));
+        const snapshot = await getDocs(q);
+        return snapshot.docs.map(doc => doc.data() as PlanVersionRecord);
+    } catch (error) {
+        console.error('[Firebase] Load plan versions error:', error);
+        return [];
+    }
+}
+
+/**
+ * Make an earlier version active again (recorded as a new version)
+ */
+export async function rollbackEscapePlan(userId: string, version: number): Promise<PlanVersionRecord> {
+    const target = await getDoc(doc(db, 'users', userId, 'plan_versions', `v${version}`));
+    if (!target.exists()) {
+        throw new Error(`Plan version ${version} not found`);
     }
+    return saveEscapePlan(userId, (target.data() as PlanVersionRecord).plan, version);
 }
 
 /**
@@ -269,6 +369,107 @@ export async function loadEscapePlan(userId: string): Promise<any | null> {
     }
 }
 
+// ============ PLAN TASKS ============
+
+/**
+ * Task progress for the active case (no task text - that comes from the plan)
+ */
+export interface PlanTasksRecord {
+    caseId: string | null;
+    startedAt: number;
+    progress: Record<string, { status: string; updatedAt: number }>;
+}
+
+export async function savePlanTasks(userId: string, record: PlanTasksRecord): Promise<void> {
+    try {
+        await setDoc(doc(db, 'users', userId, 'plans', 'tasks'), {
+            ...record,
+            updatedAt: serverTimestamp()
+        });
+    } catch (error) {
+        console.error('[Firebase] Save plan tasks error:', error);
+        throw error;
+    }
+}
+
+export async function loadPlanTasks(userId: string): Promise<PlanTasksRecord | null> {
+    try {
+        const tasksDoc = await getDoc(doc(db, 'users', userId, 'plans', 'tasks'));
+        if (!tasksDoc.exists()) return null;
+        const { caseId, startedAt, progress } = tasksDoc.data();
+        return { caseId: caseId || null, startedAt, progress: progress || {} };
+    } catch (error) {
+        console.error('[Firebase] Load plan tasks error:', error);
+        throw error;
+    }
+}
+
+// ============ JOURNAL ANCHORS ============
+
+// users/{uid}/journal_anchors/{root}_{seq}. Security rules must allow create
+// only (no update or delete) - an anchor the device could rewrite proves nothing.
+
+export async function saveJournalAnchor(userId: string, anchor: Omit<JournalAnchor, 'anchoredAt'>): Promise<void> {
+    try {
+        await setDoc(doc(db, 'users', userId, 'journal_anchors', `${anchor.rootHash.slice(2, 18)}_${anchor.seq}`), {
+            ...anchor,
+            anchoredAt: serverTimestamp()
+        });
+    } catch (error) {
+        console.error('[Firebase] Save journal anchor error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Anchors of one chain, oldest first
+ */
+export async function loadJournalAnchors(userId: string, rootHash: string): Promise<JournalAnchor[]> {
+    try {
+        const anchorsRef = collection(db, 'users', userId, 'journal_anchors');
+        const snapshot = await getDocs(query(anchorsRef, where('rootHash', '==', rootHash)));
+        return snapshot.docs
+            .map(anchorDoc => {
+                const data = anchorDoc.data();
+                return {
+                    rootHash: data.rootHash,
+                    seq: data.seq,
+                    headHash: data.headHash,
+                    anchoredAt: data.anchoredAt instanceof Timestamp ? data.anchoredAt.toDate().toISOString() : null
+                };
+            })
+            .sort((a, b) => a.seq - b.seq);
+    } catch (error) {
+        console.error('[Firebase] Load journal anchors error:', error);
+        throw error;
+    }
+}
+
+export async function deletePlanTasks(userId: string): Promise<void> {
+    try {
+        await deleteDoc(doc(db, 'users', userId, 'plans', 'tasks'));
+    } catch (error) {
+        console.error('[Firebase] Delete plan tasks error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Readiness is derived from tasks and funding, so it updates the active
+ * plan in place instead of creating a new version
+ */
+export async function savePlanReadiness(userId: string, isReady: boolean, score: number): Promise<void> {
+    try {
+        await setDoc(doc(db, 'users', userId, 'plans', 'current'), {
+            isReady,
+            readinessScore: score
+        }, { merge: true });
+    } catch (error) {
+        console.error('[Firebase] Save plan readiness error:', error);
+        throw error;
+    }
+}
+
 // ============ SAFE CONTACT FUNCTIONS ============
 
 export type WithdrawalMethod = 'WALLET' | 'PHONE' | 'CASH_CODE';
@@ -280,6 +481,7 @@ export interface SafeContactInfo {
 
     // For WALLET method
     walletAddress?: string;
+    preferredAsset?: 'FRAX' | 'USDC'; // Asset the SOS sweep swaps into
 
     // For PHONE method (Yape, M-Pesa, etc.)
     phoneNumber?: string;
@@ -335,6 +537,7 @@ export async function getSafeContact(userId: string): Promise<SafeContactInfo |
                 relationship: data.relationship,
                 withdrawalMethod: data.withdrawalMethod || 'WALLET',
                 walletAddress: data.walletAddress,
+                preferredAsset: data.preferredAsset || undefined,
                 phoneNumber: data.phoneNumber,
                 phoneCountry: data.phoneCountry,
                 fullName: data.fullName,
@@ -387,6 +590,162 @@ export async function updateSafeContact(
     });
 }
 
+// ============ PROTECTIVE ALERTS ============
+
+export type AlertReason = 'DURESS' | 'SOS';
+
+export interface SafeContactAlert {
+    reason: AlertReason;
+    caseId?: string;
+    message: string;
+    evidenceHash?: string; // Snapshot of evidence taken when the alert fired
+}
+
+/**
+ * Quietly mark the case as opened under duress (visible to advocates/backend only)
+ */
+export async function flagCaseDuress(userId: string, caseId?: string): Promise<void> {
+    try {
+        await setDoc(doc(db, 'users', userId), {
+            duressFlaggedAt: serverTimestamp(),
+            ...(caseId ? { duressCaseId: caseId } : {})
+        }, { merge: true });
+    } catch (error) {
+        console.error('[Firebase] Flag duress error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Queue an alert for the safe contact. Delivery is handled server-side.
+ */
+export async function queueSafeContactAlert(userId: string, alert: SafeContactAlert): Promise<string> {
+    try {
+        const alertsRef = collection(db, 'users', userId, 'alerts');
+        const docRef = await addDoc(alertsRef, {
+            ...alert,
+            caseId: alert.caseId || null, // Firestore doesn't accept undefined
+            evidenceHash: alert.evidenceHash || null,
+            status: 'QUEUED',
+            createdAt: serverTimestamp()
+        });
+        return docRef.id;
+    } catch (error) {
+        console.error('[Firebase] Queue alert error:', error);
+        throw error;
+    }
+}
+
+// ============ DEAD MAN'S SWITCH ============
+
+/**
+ * Server copy of the switch, written on every check-in and config change.
+ * This is the deadline the backend enforces without the phone: once
+ * `deadline` passes with no newer check-in and no `firedAt`, the delivery
+ * worker (the same one that sends queued alerts) alerts the safe contact
+ * and sends the staged evidence release (users/{uid}/evidence_releases/staged)
+ * to the lawyer. Funds are enforced on-chain instead (contracts/DeadManSwitch.sol,
+ * `switchContract`) - the worker can also call its trigger().
+ */
+export interface DeadManSwitchRecord {
+    enabled: boolean;
+    actions: string[];
+    lastCheckIn: number;    // ms since epoch
+    warnAt: number;         // In-app pre-expiry reminder starts
+    dueAt: number;          // Check-in window closes
+    deadline: number;       // Grace period over - run the actions
+    firedAt?: number;       // Actions already ran on the phone - don't repeat
+    lawyerEmail?: string;
+    caseId?: string;
+    releaseHash?: string;   // Hash of the staged evidence bundle
+    switchContract?: string; // Armed DeadManSwitch contract, if any
+    chainId?: number;
+}
+
+export async function saveDeadManSwitch(userId: string, record: DeadManSwitchRecord): Promise<void> {
+    try {
+        await setDoc(doc(db, 'dead_man_switches', userId), {
+            ...record,
+            lawyerEmail: record.lawyerEmail || null, // Firestore doesn't accept undefined
+            caseId: record.caseId || null,
+            firedAt: record.firedAt || null,
+            releaseHash: record.releaseHash || null,
+            switchContract: record.switchContract || null,
+            chainId: record.chainId || null,
+            updatedAt: serverTimestamp()
+        });
+    } catch (error) {
+        console.error('[Firebase] Save dead man switch error:', error);
+        throw error;
+    }
+}
+
+export interface EvidenceRelease {
+    lawyerEmail: string;
+    caseId?: string;
+    evidenceHash?: string;
+    releaseHash?: string; // Staged bundle to send with the notice
+}
+
+export interface StagedEvidenceRelease {
+    lawyerEmail: string;
+    caseId: string | null;
+    bundle: string;       // JSON evidence bundle (AthenaAgent.buildEvidenceBundle)
+    bundleHash: string;
+}
+
+/**
+ * Stage the evidence bundle for the lawyer. It stays unsent (STAGED) until
+ * the switch deadline passes without a check-in - then the delivery worker
+ * sends it, whether or not the phone is around. Replaced on every restage.
+ */
+export async function stageEvidenceRelease(userId: string, release: StagedEvidenceRelease): Promise<void> {
+    try {
+        await setDoc(doc(db, 'users', userId, 'evidence_releases', 'staged'), {
+            ...release,
+            status: 'STAGED',
+            updatedAt: serverTimestamp()
+        });
+    } catch (error) {
+        console.error('[Firebase] Stage evidence release error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Remove the staged bundle (switch turned off, or wipe)
+ */
+export async function deleteStagedEvidenceRelease(userId: string): Promise<void> {
+    try {
+        await deleteDoc(doc(db, 'users', userId, 'evidence_releases', 'staged'));
+    } catch (error) {
+        console.error('[Firebase] Delete staged release error:', error);
+        throw error;
+    }
+}
+
+/**
+ * Queue a release notice for the designated lawyer (the phone saw the
+ * deadline pass first). It points at the staged bundle by its hash.
+ */
+export async function queueEvidenceRelease(userId: string, release: EvidenceRelease): Promise<string> {
+    try {
+        const releasesRef = collection(db, 'users', userId, 'evidence_releases');
+        const docRef = await addDoc(releasesRef, {
+            lawyerEmail: release.lawyerEmail,
+            caseId: release.caseId || null,
+            evidenceHash: release.evidenceHash || null,
+            releaseHash: release.releaseHash || null,
+            status: 'QUEUED',
+            createdAt: serverTimestamp()
+        });
+        return docRef.id;
+    } catch (error) {
+        console.error('[Firebase] Queue evidence release error:', error);
+        throw error;
+    }
+}
+
 // ============ EVIDENCE LOCKER STORAGE ============
 
 /**
@@ -0,0 +1,50 @@
+/**
+ * Plan History
+ *
+ * Compares two escape plan versions field by field so the person can see
+ * what changed (goal, destination, safe contact, risk) before rolling back.
+ * Pure; versions themselves are stored by firebase.ts.
+ */
+
+import { EscapePlan } from '../types';
+
+// ============ TYPES ============
+
+export type PlanField = 'GOAL' | 'DESTINATION' | 'CONTACT' | 'RISK_LEVEL';
+
+export interface PlanChange {
+    field: PlanField;
+    before: string | number | null;
+    after: string | number | null;
+}
+
+export const PLAN_FIELD_LABELS: Record<PlanField, string> = {
+    GOAL: 'Freedom goal',
+    DESTINATION: 'Destination',
+    CONTACT: 'Safe contact',
+    RISK_LEVEL: 'Risk level'
+};
+
+// ============ DIFF ============
+
+const contactOf = (plan: EscapePlan | null): string | null => {
+    const contact = plan?.emergencyContact;
+    if (!contact?.name) return null;
+    return contact.relationship ? `${contact.name} (${contact.relationship})` : contact.name;
+};
+
+/**
+ * Fields that differ from `before` to `after`. Goal amounts are base-unit (USD).
+ */
+export function diffPlans(before: EscapePlan | null, after: EscapePlan | null): PlanChange[] {
+    const fields: Array<[PlanField, string | number | null, string | number | null]> = [
+        ['GOAL', before?.freedomGoal?.targetAmount ?? null, after?.freedomGoal?.targetAmount ?? null],
+        ['DESTINATION', before?.destination || null, after?.destination || null],
+        ['CONTACT', contactOf(before), contactOf(after)],
+        ['RISK_LEVEL', before?.riskLevel ?? null, after?.riskLevel ?? null]
+    ];
+
+    return fields
+        .filter(([, a, b]) => a !== b)
+        .map(([field, a, b]) => ({ field, before: a, after: b }));
+}
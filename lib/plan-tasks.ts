@@ -0,0 +1,358 @@
+/**
+ * Plan Tasks
+ *
+ * Turns an escape plan's strategy (three phases) and nextSteps into dated
+ * tasks with a status, dependencies and the tab where each one gets done.
+ * Task text always comes from the plan itself; only progress (status and
+ * dates, keyed by task id) is stored - in the agent's encrypted store and in
+ * Firestore (users/{uid}/plans/tasks), merged per task by most recent change.
+ * Task ids are hashes of the task text, so neither copy spells out the plan,
+ * and a phase whose text changes starts over.
+ *
+ * Progress and funding feed a readiness score; at READY_SCORE the plan
+ * counts as ready (EscapePlan.isReady).
+ */
+
+import { id as keccakId } from 'ethers';
+import { EscapePlan, AgentTab } from '../types';
+import { auth, loadPlanTasks, savePlanTasks, deletePlanTasks, savePlanReadiness, PlanTasksRecord } from './firebase';
+import { getEncryptedStorage } from './encrypted-storage';
+import { StorageBackend } from './storage-backend';
+
+// ============ TYPES ============
+
+export type TaskStatus = 'TODO' | 'DONE';
+
+export interface TaskProgress {
+    status: TaskStatus;
+    updatedAt: number;
+}
+
+export interface PlanTask {
+    id: string;
+    kind: 'PHASE' | 'NEXT_STEP';
+    title: string;
+    detail: string;
+    status: TaskStatus;
+    dueAt: number;
+    dependsOn: string[];
+    tab: AgentTab | null; // Where the task gets done
+    blocked: boolean;     // A dependency is still open
+    overdue: boolean;
+}
+
+// Same shape as the server copy (PlanTasksRecord), with typed statuses
+interface StoredProgress extends PlanTasksRecord {
+    progress: Record<string, TaskProgress>;
+}
+
+export interface PlanReadiness {
+    score: number;        // 0-100
+    tasksDone: number;
+    tasksTotal: number;
+    fundedPercent: number;
+    isReady: boolean;
+}
+
+// ============ CONSTANTS ============
+
+// Same key as the plaintext copy earlier versions kept, so that copy is replaced
+const STORAGE_KEY = 'athena_plan_tasks';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const READY_SCORE = 80;
+
+// Readiness: 70% tasks (phases count double), 30% funding
+const TASK_WEIGHT = 70;
+const FUNDING_WEIGHT = 30;
+
+const PHASE_TITLES = ['Phase 1: Immediate Security', 'Phase 2: Logistics & Funding', 'Phase 3: Extraction'];
+
+// Days from the start of the plan until each phase is due, by risk
+const PHASE_DUE_DAYS = (riskLevel: number): number[] =>
+    riskLevel >= 8 ? [1, 2, 3] : riskLevel >= 5 ? [3, 14, 28] : [7, 30, 60];
+
+// Where a next step gets done, by what it mentions
+const TAB_KEYWORDS: Array<[AgentTab, string[]]> = [
+    ['EVIDENCE', ['locker', 'evidence', 'document', 'photo']],
+    ['HOME', ['vault', 'balance', 'save', 'deposit', 'recharge']],
+    ['SOS', ['sos', 'emergency contact', 'safe contact']]
+];
+
+// ============ BUILDING ============
+
+const textHash = (text: string): string => keccakId(text).slice(2, 14);
+
+const stepId = (text: string): string => `step-${textHash(text)}`;
+const phaseId = (index: number, detail: string): string => `phase-${index + 1}-${textHash(detail)}`;
+
+const TASK_ID = /^(step|phase-\d)-[0-9a-f]{12}$/;
+
+// Ids used by earlier versions: a slug of the step text, the bare phase number
+const legacyStepId = (text: string): string =>
+    'step-' + text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40);
+const legacyPhaseId = (index: number): string => `phase-${index + 1}`;
+
+const planTexts = (plan: EscapePlan) => ({
+    nextSteps: Array.from(new Set((plan.nextSteps || []).filter(Boolean))),
+    phases: [plan.strategy?.step1, plan.strategy?.step2, plan.strategy?.step3].map(detail => detail || '')
+});
+
+/**
+ * Progress with earlier-version ids moved to the current ids of this plan.
+ * Legacy ids that match no task here, or more than one (truncated slugs),
+ * are dropped - they spell out the text.
+ */
+function migrateProgress(plan: EscapePlan, progress: Record<string, TaskProgress>): Record<string, TaskProgress> {
+    const { nextSteps, phases } = planTexts(plan);
+    const renamed = new Map<string, string | null>();
+    const rename = (legacy: string, id: string) => renamed.set(legacy, renamed.has(legacy) ? null : id);
+    nextSteps.forEach(text => rename(legacyStepId(text), stepId(text)));
+    phases.forEach((detail, i) => rename(legacyPhaseId(i), phaseId(i, detail)));
+
+    const migrated: Record<string, TaskProgress> = {};
+    for (const [id, entry] of Object.entries(progress || {})) {
+        if (TASK_ID.test(id)) {
+            migrated[id] = entry;
+        } else if (renamed.get(id) && !migrated[renamed.get(id)!]) {
+            migrated[renamed.get(id)!] = entry;
+        }
+    }
+    return migrated;
+}
+
+const tabFor = (text: string): AgentTab | null => {
+    const lower = text.toLowerCase();
+    const match = TAB_KEYWORDS.find(([, keywords]) => keywords.some(keyword => lower.includes(keyword)));
+    return match ? match[0] : null;
+};
+
+/**
+ * Tasks for a plan with the stored progress applied. Pure.
+ */
+export function buildPlanTasks(
+    plan: EscapePlan,
+    startedAt: number,
+    progress: Record<string, TaskProgress> = {},
+    now: number = Date.now()
+): PlanTask[] {
+    const phaseDays = PHASE_DUE_DAYS(plan.riskLevel);
+    const { nextSteps, phases } = planTexts(plan);
+    const stepIds = nextSteps.map(stepId);
+    const phaseIds = phases.map((detail, i) => phaseId(i, detail));
+
+    const drafts: Array<Omit<PlanTask, 'status' | 'blocked' | 'overdue'>> = [
+        // Next steps are "what to do now": due with phase 1
+        ...nextSteps.map((text, i) => ({
+            id: stepIds[i],
+            kind: 'NEXT_STEP' as const,
+            title: text,
+            detail: '',
+            dueAt: startedAt + phaseDays[0] * DAY_MS,
+            dependsOn: [],
+            tab: tabFor(text)
+        })),
+        ...phases.map((detail, i) => ({
+            id: phaseIds[i],
+            kind: 'PHASE' as const,
+            title: PHASE_TITLES[i],
+            detail,
+            dueAt: startedAt + phaseDays[i] * DAY_MS,
+            // Each phase waits for the previous one; extraction waits for everything
+            dependsOn: i === 0 ? [] : i === 1 ? [phaseIds[0]] : [phaseIds[1], ...stepIds],
+            tab: i === 1 ? 'HOME' as AgentTab : null
+        }))
+    ];
+
+    const statusOf = (id: string): TaskStatus => progress[id]?.status || 'TODO';
+    const isOpen = (id: string) => statusOf(id) === 'TODO';
+
+    return drafts.map(draft => {
+        const status = statusOf(draft.id);
+        return {
+            ...draft,
+            status,
+            blocked: status === 'TODO' && draft.dependsOn.some(isOpen),
+            overdue: status === 'TODO' && now > draft.dueAt
+        };
+    });
+}
+
+/**
+ * Readiness score from task progress and how much of the goal is funded. Pure.
+ */
+export function computeReadiness(tasks: PlanTask[], fundsUsd: number, goalUsd: number): PlanReadiness {
+    const weightOf = (task: PlanTask) => task.kind === 'PHASE' ? 2 : 1;
+    const total = tasks.reduce((sum, task) => sum + weightOf(task), 0);
+    const done = tasks
+        .filter(task => task.status === 'DONE')
+        .reduce((sum, task) => sum + weightOf(task), 0);
+
+    const fundedPercent = goalUsd > 0 ? Math.min(100, (fundsUsd / goalUsd) * 100) : 0;
+    const score = Math.round(
+        (total > 0 ? done / total : 0) * TASK_WEIGHT + (fundedPercent / 100) * FUNDING_WEIGHT
+    );
+
+    return {
+        score,
+        tasksDone: tasks.filter(task => task.status === 'DONE').length,
+        tasksTotal: tasks.length,
+        fundedPercent,
+        isReady: score >= READY_SCORE
+    };
+}
+
+// ============ STORE CLASS ============
+
+export class PlanTaskStore {
+    private cache: StoredProgress | null = null;
+    private writeQueue: Promise<void> = Promise.resolve();
+    private generation = 0;     // Bumped by clear(), so syncs started before it don't write back
+
+    /**
+     * @param storage Where progress is kept on the device - the agent's encrypted store
+     */
+    constructor(private storage: StorageBackend = getEncryptedStorage()) { }
+
+    /**
+     * Tasks for the plan, from local progress. Progress belongs to one case:
+     * a plan for another case starts fresh.
+     */
+    async getTasks(plan: EscapePlan): Promise<PlanTask[]> {
+        const record = await this.readFor(plan);
+        return buildPlanTasks(plan, record.startedAt, record.progress);
+    }
+
+    async setStatus(plan: EscapePlan, taskId: string, status: TaskStatus): Promise<PlanTask[]> {
+        const record = await this.readFor(plan);
+        record.progress[taskId] = { status, updatedAt: Date.now() };
+        this.write(record);
+        this.sync(plan).catch(() => { });
+        return buildPlanTasks(plan, record.startedAt, record.progress);
+    }
+
+    /**
+     * Merge local and server progress (latest change per task wins) and store
+     * the result on both sides. Never throws.
+     */
+    async sync(plan: EscapePlan): Promise<PlanTask[]> {
+        const generation = this.generation;
+        const local = await this.readFor(plan);
+        const user = auth.currentUser;
+        if (!user) return buildPlanTasks(plan, local.startedAt, local.progress);
+
+        let merged = local;
+        try {
+            const remote = await loadPlanTasks(user.uid);
+            if (generation !== this.generation) return [];
+            if (remote && remote.caseId === local.caseId) {
+                const progress = migrateProgress(plan, remote.progress as Record<string, TaskProgress>);
+                for (const [id, entry] of Object.entries(local.progress)) {
+                    if (!progress[id] || entry.updatedAt > progress[id].updatedAt) {
+                        progress[id] = entry;
+                    }
+                }
+                merged = { caseId: local.caseId, startedAt: Math.min(local.startedAt, remote.startedAt), progress };
+                this.write(merged);
+            }
+            await savePlanTasks(user.uid, merged);
+        } catch (e) {
+            // Offline - retried on the next change
+        }
+        return buildPlanTasks(plan, merged.startedAt, merged.progress);
+    }
+
+    /**
+     * Forget the progress held in memory (session lock). The stored copies
+     * stay, readable again after unlock.
+     */
+    clear(): void {
+        this.generation++;
+        this.cache = null;
+    }
+
+    /**
+     * Delete progress on the device and on the server (wipe). The server
+     * delete is not awaited - offline it completes once the app reconnects.
+     */
+    async destroy(): Promise<void> {
+        this.clear();
+        await this.writeQueue;
+        await this.storage.remove(STORAGE_KEY);
+
+        const user = auth.currentUser;
+        if (user) {
+            deletePlanTasks(user.uid).catch(() => {
+                // Left for the next wipe or sign-out cleanup
+            });
+        }
+    }
+
+    /**
+     * Record the readiness on the server copy of the plan. Never throws.
+     */
+    async publishReadiness(readiness: PlanReadiness): Promise<void> {
+        const user = auth.currentUser;
+        if (!user) return;
+        try {
+            await savePlanReadiness(user.uid, readiness.isReady, readiness.score);
+        } catch (e) {
+            // Recomputed and retried on the next change
+        }
+    }
+
+    private async readFor(plan: EscapePlan): Promise<StoredProgress> {
+        const caseId = plan.caseId || null;
+        if (this.cache && this.cache.caseId === caseId) {
+            return this.cache;
+        }
+
+        let saved: string | null;
+        try {
+            saved = await this.storage.get(STORAGE_KEY);
+        } catch (e) {
+            // Locked - nothing to show yet, and nothing to overwrite
+            return { caseId, startedAt: Date.now(), progress: {} };
+        }
+
+        try {
+            if (saved) {
+                const parsed = JSON.parse(saved) as StoredProgress;
+                if (parsed.caseId === caseId && parsed.progress) {
+                    // Also re-saves progress from earlier versions encrypted, without text-derived ids
+                    const record = { ...parsed, progress: migrateProgress(plan, parsed.progress) };
+                    this.write(record);
+                    return record;
+                }
+            }
+        } catch (e) {
+            // Corrupted progress - start fresh
+        }
+        const fresh: StoredProgress = { caseId, startedAt: Date.now(), progress: {} };
+        this.write(fresh);
+        return fresh;
+    }
+
+    private write(record: StoredProgress): void {
+        this.cache = record;
+        const serialized = JSON.stringify(record);
+        this.writeQueue = this.writeQueue
+            .then(() => this.storage.set(STORAGE_KEY, serialized))
+            .catch(() => {
+                // Store locked - kept in memory, saved with the next change
+            });
+    }
+}
+
+// ============ SINGLETON INSTANCE ============
+
+let planTaskStoreInstance: PlanTaskStore | null = null;
+
+export const getPlanTaskStore = (): PlanTaskStore => {
+    if (!planTaskStoreInstance) {
+        planTaskStoreInstance = new PlanTaskStore();
+    }
+    return planTaskStoreInstance;
+};
+
+export default PlanTaskStore;
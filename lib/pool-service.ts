@@ -6,6 +6,7 @@
  */
 
 import { ethers, Contract, Wallet, JsonRpcProvider, formatEther, parseEther } from 'ethers';
+import { generateCaseId, isValidCaseId, isLegacyCaseId, normalizeCaseId } from './case-identity';
 
 // Deployment info
 const ATHENA_POOL_ADDRESS = '0x4Bca7ebC3Cba0ea5Ada962E319BfB8353De81605';
@@ -95,9 +96,7 @@ export class AthenaPoolService {
      * Generate a unique case ID
      */
     generateCaseId(): string {
-        const timestamp = Date.now();
-        const random = Math.random().toString(36).substring(2, 6).toUpperCase();
-        return `ATHENA-${timestamp}-${random}`;
+        return generateCaseId();
     }
 
     /**
@@ -108,6 +107,13 @@ export class AthenaPoolService {
         ownerAddress: string,
         safeContactAddress: string
     ): Promise<{ success: boolean; txHash: string; error?: string }> {
+        // Same rule as getCaseInfo: checksummed IDs are normalized, legacy IDs pass as-is
+        if (isValidCaseId(caseId)) {
+            caseId = normalizeCaseId(caseId);
+        } else if (!isLegacyCaseId(caseId)) {
+            return { success: false, txHash: '', error: 'Invalid case ID (checksum mismatch)' };
+        }
+
         if (!this.wallet || !this.isAdmin) {
             // Fallback: return simulated success for demo
             console.log('[AthenaPool] Demo mode: simulating case creation');
@@ -141,6 +147,13 @@ export class AthenaPoolService {
      * Get case information
      */
     async getCaseInfo(caseId: string): Promise<PoolCaseInfo | null> {
+        // Mistyped IDs never reach the chain
+        if (isValidCaseId(caseId)) {
+            caseId = normalizeCaseId(caseId);
+        } else if (!isLegacyCaseId(caseId)) {
+            return null;
+        }
+
         try {
             const exists = await this.contract.caseExistsCheck(caseId);
             if (!exists) return null;
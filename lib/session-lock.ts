@@ -0,0 +1,175 @@
+/**
+ * Session Lock
+ *
+ * Sends the app back to its disguise once the dashboard is open:
+ * - Idle timeout (no input for a while)
+ * - Page hidden (tab switch, app switcher, screen off) or restored from the back/forward cache
+ * - Quick exit: Escape key here, double-tap on the header from the dashboard
+ *
+ * Locking drops the agent's in-memory state and scrubs the current history
+ * entry so Back/Forward never lands on a sensitive screen.
+ */
+
+import { getAthenaAgent } from './athena-agent';
+
+// ============ TYPES ============
+
+export type LockReason = 'IDLE' | 'HIDDEN' | 'QUICK_EXIT';
+
+export interface SessionLockConfig {
+    idleTimeoutMs: number;
+    lockOnHidden: boolean;
+}
+
+type LockListener = (reason: LockReason) => void;
+
+// ============ CONSTANTS ============
+
+const DEFAULT_CONFIG: SessionLockConfig = {
+    idleTimeoutMs: 2 * 60 * 1000,
+    lockOnHidden: true
+};
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'scroll', 'mousemove'];
+
+// ============ SESSION LOCK CLASS ============
+
+export class SessionLock {
+    private config: SessionLockConfig;
+    private listeners = new Set<LockListener>();
+    private idleTimer: ReturnType<typeof setTimeout> | null = null;
+    private armed = false;
+
+    constructor(config: Partial<SessionLockConfig> = {}) {
+        this.config = { ...DEFAULT_CONFIG, ...config };
+    }
+
+    /**
+     * Start watching for idle / hidden / Escape (call when the dashboard opens)
+     */
+    arm(): void {
+        if (this.armed || typeof document === 'undefined') return;
+        this.armed = true;
+
+        ACTIVITY_EVENTS.forEach(event => document.addEventListener(event, this.handleActivity, { passive: true }));
+        document.addEventListener('keydown', this.handleKeyDown);
+        document.addEventListener('visibilitychange', this.handleVisibility);
+        window.addEventListener('pagehide', this.handlePageHide);
+        window.addEventListener('pageshow', this.handlePageShow);
+
+        this.resetIdleTimer();
+    }
+
+    /**
+     * Stop watching (call when the dashboard closes)
+     */
+    disarm(): void {
+        if (!this.armed) return;
+        this.armed = false;
+
+        ACTIVITY_EVENTS.forEach(event => document.removeEventListener(event, this.handleActivity));
+        document.removeEventListener('keydown', this.handleKeyDown);
+        document.removeEventListener('visibilitychange', this.handleVisibility);
+        window.removeEventListener('pagehide', this.handlePageHide);
+        window.removeEventListener('pageshow', this.handlePageShow);
+
+        if (this.idleTimer) {
+            clearTimeout(this.idleTimer);
+            this.idleTimer = null;
+        }
+    }
+
+    /**
+     * Lock now. Listeners are expected to switch back to the disguise synchronously.
+     */
+    lock(reason: LockReason): void {
+        if (!this.armed) return;
+        this.disarm();
+
+        getAthenaAgent().lock();
+        this.scrubHistory();
+
+        console.log(`[SessionLock] Locked (${reason})`);
+        this.listeners.forEach(listener => {
+            try {
+                listener(reason);
+            } catch (e) {
+                console.error('[SessionLock] Listener failed:', e);
+            }
+        });
+    }
+
+    /**
+     * Subscribe to lock events. Returns an unsubscribe function.
+     */
+    onLock(listener: LockListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    isArmed(): boolean {
+        return this.armed;
+    }
+
+    // ============ EVENT HANDLERS ============
+
+    private handleActivity = (): void => {
+        this.resetIdleTimer();
+    };
+
+    private handleKeyDown = (event: KeyboardEvent): void => {
+        if (event.key === 'Escape') {
+            this.lock('QUICK_EXIT');
+        }
+    };
+
+    private handleVisibility = (): void => {
+        if (this.config.lockOnHidden && document.visibilityState === 'hidden') {
+            this.lock('HIDDEN');
+        }
+    };
+
+    private handlePageHide = (): void => {
+        // Lock before the back/forward cache snapshots the page
+        this.lock('HIDDEN');
+    };
+
+    private handlePageShow = (event: PageTransitionEvent): void => {
+        if (event.persisted) {
+            this.lock('HIDDEN');
+        }
+    };
+
+    private resetIdleTimer(): void {
+        if (this.idleTimer) {
+            clearTimeout(this.idleTimer);
+        }
+        this.idleTimer = setTimeout(() => this.lock('IDLE'), this.config.idleTimeoutMs);
+    }
+
+    private scrubHistory(): void {
+        try {
+            if (typeof history !== 'undefined') {
+                // Same URL (keeps a disguise launch code), no state, no hash
+                history.replaceState(null, '', `${location.pathname}${location.search}`);
+            }
+        } catch (e) {
+            // History API might be unavailable (sandboxed frame)
+        }
+    }
+}
+
+// ============ SINGLETON INSTANCE ============
+
+let sessionLockInstance: SessionLock | null = null;
+
+export const getSessionLock = (): SessionLock => {
+    if (!sessionLockInstance) {
+        sessionLockInstance = new SessionLock();
+    }
+    return sessionLockInstance;
+};
+
+export default SessionLock;
@@ -0,0 +1,125 @@
+/**
+ * Silent SOS
+ *
+ * What the calculator SOS code actually does. The screen keeps showing
+ * "Error" while the agent runs the person's chosen steps in the background:
+ * snapshot pending evidence, alert the safe contact, optionally move funds.
+ *
+ * The alert channel is pluggable (SafeContactNotifier); Firestore is the default.
+ */
+
+import { getAthenaAgent, SafeContactNotifier, SOSAlert, SilentSOSStep, SilentSOSResult } from './athena-agent';
+import { auth, getSafeContact, queueSafeContactAlert } from './firebase';
+import { SOSDestination } from './frax-service';
+
+// ============ TYPES ============
+
+export interface SilentSOSConfig {
+    steps: SilentSOSStep[];
+}
+
+export const SILENT_SOS_STEP_LABELS: Record<SilentSOSStep, string> = {
+    SNAPSHOT_EVIDENCE: 'Snapshot pending evidence',
+    ALERT_CONTACT: 'Alert my safe contact',
+    TRANSFER_FUNDS: 'Send my funds to my safe wallet'
+};
+
+// ============ CONFIG ============
+
+const STORAGE_KEY = 'athena_silent_sos_config';
+
+// Moving funds is opt-in: it cannot be undone
+const DEFAULT_CONFIG: SilentSOSConfig = {
+    steps: ['SNAPSHOT_EVIDENCE', 'ALERT_CONTACT']
+};
+
+export function getSilentSOSConfig(): SilentSOSConfig {
+    try {
+        if (typeof localStorage !== 'undefined') {
+            const saved = localStorage.getItem(STORAGE_KEY);
+            if (saved) {
+                const parsed = JSON.parse(saved) as SilentSOSConfig;
+                if (Array.isArray(parsed.steps)) {
+                    return parsed;
+                }
+            }
+        }
+    } catch (e) {
+        // Corrupted config - use defaults
+    }
+    return { ...DEFAULT_CONFIG };
+}
+
+export function saveSilentSOSConfig(config: SilentSOSConfig): void {
+    try {
+        if (typeof localStorage !== 'undefined') {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+        }
+    } catch (e) {
+        // Storage might be unavailable
+    }
+}
+
+// ============ NOTIFIERS ============
+
+/**
+ * Queues the alert in Firestore; delivery to the contact happens server-side
+ */
+export class FirestoreNotifier implements SafeContactNotifier {
+    readonly name = 'firestore';
+
+    async notify(alert: SOSAlert): Promise<boolean> {
+        const user = auth.currentUser;
+        if (!user) return false;
+
+        try {
+            await queueSafeContactAlert(user.uid, { reason: 'SOS', ...alert });
+            return true;
+        } catch (e) {
+            return false;
+        }
+    }
+}
+
+let activeNotifier: SafeContactNotifier = new FirestoreNotifier();
+
+/**
+ * Swap the alert channel (e.g. an SMS gateway in a native build)
+ */
+export function setSafeContactNotifier(notifier: SafeContactNotifier): void {
+    activeNotifier = notifier;
+}
+
+// ============ PROTOCOL ============
+
+const WALLET_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+
+/**
+ * The safe contact's wallet, if it has one. Also resumes an SOS that was
+ * interrupted while locked (see AthenaAgent.setSOSDestinationResolver).
+ */
+export async function resolveSafeDestination(): Promise<SOSDestination | null> {
+    if (!auth.currentUser) return null;
+    const contact = await getSafeContact(auth.currentUser.uid).catch(() => null);
+    if (!contact?.walletAddress || !WALLET_ADDRESS.test(contact.walletAddress)) return null;
+    return { address: contact.walletAddress, preferredAsset: contact.preferredAsset || null };
+}
+
+/**
+ * Run the configured silent SOS. Never throws.
+ */
+export async function runSilentSOS(config: SilentSOSConfig = getSilentSOSConfig()): Promise<SilentSOSResult | null> {
+    try {
+        const destination = config.steps.includes('TRANSFER_FUNDS') ? await resolveSafeDestination() : null;
+
+        return await getAthenaAgent().runSilentSOS({
+            steps: config.steps,
+            notifier: activeNotifier,
+            safeContactAddress: destination?.address,
+            preferredAsset: destination?.preferredAsset
+        });
+    } catch (e) {
+        // Silent by design
+        return null;
+    }
+}
@@ -0,0 +1,235 @@
+/**
+ * Simulated Ledger
+ *
+ * Deterministic in-memory stand-in for the chain while FraxService is
+ * offline. It keeps FRAX, USDC and sFRAX share balances for the demo wallet
+ * and prices shares like the ERC-4626 vault: the share price compounds at a
+ * fixed APY from genesis, so staked value accrues yield on its own.
+ *
+ * Every operation appends a record whose hash is the keccak256 of the
+ * previous hash and the record itself, so the same sequence of operations at
+ * the same times always yields the same hashes, and each record carries the
+ * balances after it - a history that can be traced and replayed.
+ */
+
+import { keccak256, toUtf8Bytes, ZeroHash } from 'ethers';
+
+// ============ TYPES ============
+
+export type LedgerTxKind = 'GENESIS' | 'FUND' | 'DEPOSIT' | 'REDEEM' | 'SWAP' | 'TRANSFER' | 'EVIDENCE';
+
+export type LedgerAsset = 'FRAX' | 'USDC';
+
+export interface LedgerBalances {
+    frax: number;
+    usdc: number;
+    shares: number;  // sFRAX
+}
+
+export interface LedgerTx {
+    seq: number;
+    kind: LedgerTxKind;
+    txHash: string;
+    prevHash: string;
+    timestamp: number;
+    amount: number;          // Units of `asset`; shares for REDEEM
+    asset: LedgerAsset | 'sFRAX' | null;
+    counterparty: string | null;
+    memo: string | null;     // Evidence payload, notes
+    balancesAfter: LedgerBalances;
+}
+
+export interface LedgerSnapshot {
+    sFraxBalance: number;
+    sFraxValueInFrax: number;
+    fraxBalance: number;
+    usdcBalance: number;
+    sharePrice: number;
+}
+
+export interface SimulatedLedgerOptions {
+    apy?: number;            // Percent
+    openingStake?: number;   // FRAX staked at genesis
+    genesisTime?: number;
+    now?: () => number;
+}
+
+export class InsufficientBalanceError extends Error {
+    constructor(asset: string, requested: number, available: number) {
+        super(`Insufficient ${asset}: requested ${requested.toFixed(2)}, available ${available.toFixed(2)}`);
+        this.name = 'InsufficientBalanceError';
+    }
+}
+
+// ============ CONSTANTS ============
+
+export const SIMULATED_APY = 5.4;
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+// Balances kept to 6 decimals so float dust never blocks a full withdrawal
+const round = (value: number): number => Math.round(value * 1e6) / 1e6;
+
+// ============ LEDGER CLASS ============
+
+export class SimulatedLedger {
+    private readonly apy: number;
+    private readonly genesisTime: number;
+    private readonly now: () => number;
+    private balances: LedgerBalances = { frax: 0, usdc: 0, shares: 0 };
+    private transactions: LedgerTx[] = [];
+
+    constructor(options: SimulatedLedgerOptions = {}) {
+        this.apy = options.apy ?? SIMULATED_APY;
+        this.now = options.now || Date.now;
+        this.genesisTime = options.genesisTime ?? this.now();
+
+        this.append('GENESIS', 0, null, null, 'Simulated ledger opened');
+        if (options.openingStake) {
+            this.fund(options.openingStake, 'Opening balance');
+            this.deposit(options.openingStake);
+        }
+    }
+
+    // ============ READS ============
+
+    /**
+     * FRAX value of one sFRAX share at a point in time
+     */
+    sharePrice(at: number = this.now()): number {
+        const years = Math.max(0, at - this.genesisTime) / YEAR_MS;
+        return Math.pow(1 + this.apy / 100, years);
+    }
+
+    getApy(): number {
+        return this.apy;
+    }
+
+    snapshot(): LedgerSnapshot {
+        const sharePrice = this.sharePrice();
+        return {
+            sFraxBalance: this.balances.shares,
+            sFraxValueInFrax: round(this.balances.shares * sharePrice),
+            fraxBalance: this.balances.frax,
+            usdcBalance: this.balances.usdc,
+            sharePrice
+        };
+    }
+
+    getTransactions(): LedgerTx[] {
+        return this.transactions.map(tx => ({ ...tx, balancesAfter: { ...tx.balancesAfter } }));
+    }
+
+    getTransaction(txHash: string): LedgerTx | null {
+        return this.getTransactions().find(tx => tx.txHash === txHash) || null;
+    }
+
+    // ============ OPERATIONS ============
+
+    /**
+     * Credit FRAX to the wallet (e.g. a verified cash deposit)
+     */
+    fund(amountFrax: number, memo: string | null = null): LedgerTx {
+        this.assertAmount(amountFrax);
+        this.balances.frax = round(this.balances.frax + amountFrax);
+        return this.append('FUND', amountFrax, 'FRAX', null, memo);
+    }
+
+    /**
+     * Stake FRAX into the vault at the current share price
+     */
+    deposit(amountFrax: number): LedgerTx {
+        this.assertAmount(amountFrax);
+        this.assertAvailable('FRAX', amountFrax, this.balances.frax);
+        this.balances.frax = round(this.balances.frax - amountFrax);
+        this.balances.shares = round(this.balances.shares + amountFrax / this.sharePrice());
+        return this.append('DEPOSIT', amountFrax, 'FRAX', null, null);
+    }
+
+    /**
+     * Burn shares for FRAX at the current share price (accrued yield included)
+     */
+    redeem(shares: number): LedgerTx {
+        this.assertAmount(shares);
+        this.assertAvailable('sFRAX', shares, this.balances.shares);
+        const assets = round(shares * this.sharePrice());
+        this.balances.shares = round(this.balances.shares - shares);
+        this.balances.frax = round(this.balances.frax + assets);
+        return this.append('REDEEM', shares, 'sFRAX', null, `${assets} FRAX`);
+    }
+
+    /**
+     * Swap between the stablecoins at 1:1
+     */
+    swap(from: LedgerAsset, to: LedgerAsset, amount: number): LedgerTx {
+        this.assertAmount(amount);
+        this.assertAvailable(from, amount, this.balanceOf(from));
+        this.adjust(from, -amount);
+        this.adjust(to, amount);
+        return this.append('SWAP', amount, from, null, `${amount} ${to}`);
+    }
+
+    transfer(toAddress: string, amount: number, asset: LedgerAsset = 'FRAX'): LedgerTx {
+        this.assertAmount(amount);
+        this.assertAvailable(asset, amount, this.balanceOf(asset));
+        this.adjust(asset, -amount);
+        return this.append('TRANSFER', amount, asset, toAddress, null);
+    }
+
+    /**
+     * Record an evidence anchor (0-value self transaction with the payload)
+     */
+    anchor(payload: string): LedgerTx {
+        return this.append('EVIDENCE', 0, null, null, payload);
+    }
+
+    // ============ INTERNALS ============
+
+    private balanceOf(asset: LedgerAsset): number {
+        return asset === 'USDC' ? this.balances.usdc : this.balances.frax;
+    }
+
+    private adjust(asset: LedgerAsset, delta: number): void {
+        if (asset === 'USDC') {
+            this.balances.usdc = round(this.balances.usdc + delta);
+        } else {
+            this.balances.frax = round(this.balances.frax + delta);
+        }
+    }
+
+    private assertAmount(amount: number): void {
+        if (!(amount > 0) || !isFinite(amount)) {
+            throw new Error(`Invalid amount: ${amount}`);
+        }
+    }
+
+    private assertAvailable(asset: string, requested: number, available: number): void {
+        if (round(requested) > available) {
+            throw new InsufficientBalanceError(asset, requested, available);
+        }
+    }
+
+    private append(
+        kind: LedgerTxKind,
+        amount: number,
+        asset: LedgerAsset | 'sFRAX' | null,
+        counterparty: string | null,
+        memo: string | null
+    ): LedgerTx {
+        const prevHash = this.transactions.length > 0
+            ? this.transactions[this.transactions.length - 1].txHash
+            : ZeroHash;
+        const seq = this.transactions.length;
+        const timestamp = this.now();
+        const balancesAfter = { ...this.balances };
+
+        const txHash = keccak256(toUtf8Bytes(JSON.stringify([
+            prevHash, seq, kind, timestamp, amount, asset, counterparty, memo, balancesAfter
+        ])));
+
+        const tx: LedgerTx = { seq, kind, txHash, prevHash, timestamp, amount, asset, counterparty, memo, balancesAfter };
+        this.transactions.push(tx);
+        return { ...tx, balancesAfter: { ...balancesAfter } };
+    }
+}
+
+export default SimulatedLedger;
@@ -0,0 +1,175 @@
+/**
+ * Storage Backends
+ *
+ * Async key/value storage used by the agent instead of talking to
+ * localStorage directly:
+ * - IndexedDBStorageBackend: browser default, no localStorage quota (evidence media)
+ * - LocalStorageBackend: fallback where IndexedDB is missing
+ * - MemoryStorageBackend: Node (tests, ADK backend) and private-mode fallback
+ *
+ * EncryptedStorageBackend (encrypted-storage.ts) wraps any of these.
+ */
+
+// ============ TYPES ============
+
+export interface StorageBackend {
+    readonly name: string;
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string): Promise<void>;
+    remove(key: string): Promise<void>;
+    keys(): Promise<string[]>;
+}
+
+/**
+ * A backend that needs unlocking before it can be read (encryption)
+ */
+export interface LockableStorageBackend extends StorageBackend {
+    isUnlocked(): boolean;
+    lock(): void;
+    destroyKeys(): Promise<void>;
+}
+
+export const isLockableStorage = (storage: StorageBackend): storage is LockableStorageBackend => {
+    return typeof (storage as LockableStorageBackend).isUnlocked === 'function';
+};
+
+// ============ MEMORY ============
+
+export class MemoryStorageBackend implements StorageBackend {
+    readonly name = 'memory';
+    private data = new Map<string, string>();
+
+    async get(key: string): Promise<string | null> {
+        return this.data.has(key) ? this.data.get(key)! : null;
+    }
+
+    async set(key: string, value: string): Promise<void> {
+        this.data.set(key, value);
+    }
+
+    async remove(key: string): Promise<void> {
+        this.data.delete(key);
+    }
+
+    async keys(): Promise<string[]> {
+        return Array.from(this.data.keys());
+    }
+}
+
+// ============ LOCAL STORAGE ============
+
+export class LocalStorageBackend implements StorageBackend {
+    readonly name = 'localStorage';
+
+    async get(key: string): Promise<string | null> {
+        return localStorage.getItem(key);
+    }
+
+    async set(key: string, value: string): Promise<void> {
+        localStorage.setItem(key, value);
+    }
+
+    async remove(key: string): Promise<void> {
+        localStorage.removeItem(key);
+    }
+
+    async keys(): Promise<string[]> {
+        const keys: string[] = [];
+        for (let i = 0; i < localStorage.length; i++) {
+            const key = localStorage.key(i);
+            if (key) keys.push(key);
+        }
+        return keys;
+    }
+}
+
+// ============ INDEXED DB ============
+
+const DB_NAME = 'athena';
+const DB_STORE = 'kv';
+
+export class IndexedDBStorageBackend implements StorageBackend {
+    readonly name = 'indexedDB';
+    private db: Promise<IDBDatabase> | null = null;
+
+    /**
+     * @param legacy Values found here (and missing from IndexedDB) are moved over on first read
+     */
+    constructor(private legacy?: StorageBackend) { }
+
+    async get(key: string): Promise<string | null> {
+        const value = await this.request<string | undefined>('readonly', store => store.get(key));
+        if (value !== undefined) {
+            return value;
+        }
+
+        if (this.legacy) {
+            const old = await this.legacy.get(key);
+            if (old !== null) {
+                await this.set(key, old);
+                await this.legacy.remove(key);
+                return old;
+            }
+        }
+        return null;
+    }
+
+    async set(key: string, value: string): Promise<void> {
+        await this.request('readwrite', store => store.put(value, key));
+    }
+
+    async remove(key: string): Promise<void> {
+        await this.request('readwrite', store => store.delete(key));
+        if (this.legacy) {
+            await this.legacy.remove(key);
+        }
+    }
+
+    async keys(): Promise<string[]> {
+        const keys = await this.request<IDBValidKey[]>('readonly', store => store.getAllKeys());
+        return keys.map(String);
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            this.db = new Promise((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, 1);
+                request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+        return this.db;
+    }
+
+    private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+        const db = await this.open();
+        return new Promise<T>((resolve, reject) => {
+            const request = run(db.transaction(DB_STORE, mode).objectStore(DB_STORE));
+            request.onsuccess = () => resolve(request.result as T);
+            request.onerror = () => reject(request.error);
+        });
+    }
+}
+
+// ============ DEFAULT BACKEND ============
+
+let defaultStorageBackend: StorageBackend | null = null;
+
+/**
+ * Best backend for the current runtime (IndexedDB > localStorage > memory)
+ */
+export const getDefaultStorageBackend = (): StorageBackend => {
+    if (!defaultStorageBackend) {
+        const hasLocalStorage = typeof localStorage !== 'undefined';
+
+        if (typeof indexedDB !== 'undefined') {
+            defaultStorageBackend = new IndexedDBStorageBackend(hasLocalStorage ? new LocalStorageBackend() : undefined);
+        } else if (hasLocalStorage) {
+            defaultStorageBackend = new LocalStorageBackend();
+        } else {
+            defaultStorageBackend = new MemoryStorageBackend();
+        }
+    }
+    return defaultStorageBackend;
+};
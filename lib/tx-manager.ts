@@ -0,0 +1,468 @@
+/**
+ * Transaction Manager
+ *
+ * Sends FraxService's transactions one at a time through a single queue:
+ * assigns nonces (never reusing one that is still pending), estimates gas
+ * and fees, and watches each transaction until it is mined. A transaction
+ * that sits unmined for STUCK_AFTER_MS is re-signed with the same nonce and
+ * higher fees (a replacement), up to MAX_BUMPS times.
+ *
+ * Pending transactions are persisted with everything needed to re-sign
+ * them, so after a reload (e.g. the tab closed mid-SOS) resumePending()
+ * picks them up again instead of losing track of them. They hold the
+ * recipient and calldata, so they go to the storage backend FraxService is
+ * given (the agent's encrypted store), never to plaintext localStorage.
+ * While that store is locked (silent SOS) only the attempt hashes go to the
+ * plain backend; after the next unlock resumePending() rebuilds those
+ * transactions from the chain and seals them in the encrypted store.
+ */
+
+import { Wallet, JsonRpcProvider, TransactionReceipt, TransactionRequest, formatUnits } from 'ethers';
+import { StorageBackend, MemoryStorageBackend } from './storage-backend';
+
+// ============ TYPES ============
+
+export type TxStatus = 'QUEUED' | 'SENT' | 'CONFIRMED' | 'REVERTED' | 'DROPPED' | 'FAILED';
+
+export interface TxCall {
+    to: string;
+    data?: string;
+    value?: bigint;
+}
+
+export interface ManagedTx {
+    id: string;
+    label: string;
+    chainId: number;
+    from: string;
+    to: string;
+    data: string;
+    value: string;                  // Wei, decimal string (persistable)
+    nonce: number | null;
+    gasLimit: string | null;
+    maxFeePerGas: string | null;    // EIP-1559 chains
+    maxPriorityFeePerGas: string | null;
+    gasPrice: string | null;        // Legacy chains
+    hashes: string[];               // Every signed attempt, oldest first
+    txHash: string | null;          // Mined attempt, or the latest one
+    attempts: number;
+    status: TxStatus;
+    blockNumber: number | null;
+    error: string | null;
+    createdAt: number;
+    updatedAt: number;
+}
+
+// Status lines for the caller (e.g. SOSResult.logs)
+export type TxReporter = (message: string, tx: ManagedTx) => void;
+
+// ============ CONSTANTS ============
+
+// Same key the plaintext versions used: the encrypted store reads those once, then re-saves encrypted
+export const PENDING_TXS_KEY = 'athena_pending_txs';
+
+// Plain, written only while the encrypted store is locked: attempt hashes per transaction
+export const PENDING_TX_HASHES_KEY = 'athena_pending_tx_hashes';
+
+const STUCK_AFTER_MS = 60 * 1000;
+const MAX_BUMPS = 3;
+const FEE_BUMP_PERCENT = 125n;      // Replacements must pay >= 10% more
+const GAS_LIMIT_PERCENT = 120n;     // Headroom over the estimate
+
+const isFinal = (status: TxStatus): boolean => status !== 'QUEUED' && status !== 'SENT';
+
+const shortHash = (hash: string | null): string => hash ? `${hash.slice(0, 10)}...` : '-';
+
+const bump = (value: string | null, current: bigint | null): string | null => {
+    if (value === null) return current !== null ? current.toString() : null;
+    const bumped = (BigInt(value) * FEE_BUMP_PERCENT) / 100n;
+    return (current !== null && current > bumped ? current : bumped).toString();
+};
+
+// ============ MANAGER CLASS ============
+
+export class TransactionManager {
+    private readonly wallet: Wallet;
+    private readonly provider: JsonRpcProvider;
+    private readonly chainId: number;
+    private readonly storage: StorageBackend;
+    private readonly plainStorage: StorageBackend;
+    private queue: Promise<unknown> = Promise.resolve();
+    private nextNonce: number | null = null;
+    private watching = new Set<string>();
+    private pending = new Map<string, ManagedTx>();
+    private writes: Promise<void> = Promise.resolve();
+
+    constructor(
+        wallet: Wallet,
+        provider: JsonRpcProvider,
+        chainId: number,
+        storage: StorageBackend = new MemoryStorageBackend(),
+        plainStorage: StorageBackend = new MemoryStorageBackend()
+    ) {
+        this.wallet = wallet;
+        this.provider = provider;
+        this.chainId = chainId;
+        this.storage = storage;
+        this.plainStorage = plainStorage;
+    }
+
+    /**
+     * Queue, sign and send a transaction, then wait until it is final
+     * (mined, reverted, dropped) or still stuck after every fee bump.
+     */
+    async submit(label: string, call: TxCall, report: TxReporter = () => { }): Promise<ManagedTx> {
+        const now = Date.now();
+        const tx: ManagedTx = {
+            id: `TX-${now}-${Math.random().toString(36).slice(2, 6)}`,
+            label,
+            chainId: this.chainId,
+            from: this.wallet.address,
+            to: call.to,
+            data: call.data || '0x',
+            value: (call.value ?? 0n).toString(),
+            nonce: null,
+            gasLimit: null,
+            maxFeePerGas: null,
+            maxPriorityFeePerGas: null,
+            gasPrice: null,
+            hashes: [],
+            txHash: null,
+            attempts: 0,
+            status: 'QUEUED',
+            blockNumber: null,
+            error: null,
+            createdAt: now,
+            updatedAt: now
+        };
+        report(`${label}: queued`, tx);
+
+        try {
+            await this.enqueue(() => this.sendFirst(tx, report));
+        } catch (error: any) {
+            this.finish(tx, 'FAILED', error.shortMessage || error.message);
+            report(`${label}: not sent - ${tx.error}`, tx);
+            return tx;
+        }
+
+        return this.watch(tx, report);
+    }
+
+    /**
+     * Resume watching transactions left pending by a previous session
+     */
+    async resumePending(report: TxReporter = () => { }): Promise<ManagedTx[]> {
+        await this.load();
+        await this.recoverSealed();
+        this.save(); // Anything sent while the store was locked
+
+        const pending = this.getPending().filter(tx =>
+            tx.chainId === this.chainId &&
+            tx.from.toLowerCase() === this.wallet.address.toLowerCase() &&
+            !this.watching.has(tx.id)
+        );
+        if (pending.length > 0) {
+            console.log(`[TxManager] Resuming ${pending.length} pending transaction(s)`);
+        }
+        return Promise.all(pending.map(tx => {
+            report(`${tx.label}: resumed (nonce ${tx.nonce}, ${shortHash(tx.txHash)})`, tx);
+            return this.watch(tx, report);
+        }));
+    }
+
+    /**
+     * Transactions still pending (this session, or persisted and loaded by resumePending)
+     */
+    getPending(): ManagedTx[] {
+        return Array.from(this.pending.values()).filter(tx => tx.chainId === this.chainId);
+    }
+
+    /**
+     * Forget every pending transaction, here and in storage (wipe)
+     */
+    async clear(): Promise<void> {
+        this.pending.clear();
+        this.writes = this.writes
+            .then(() => Promise.all([this.storage.remove(PENDING_TXS_KEY), this.plainStorage.remove(PENDING_TX_HASHES_KEY)]))
+            .then(() => { }, () => { });
+        await this.writes;
+    }
+
+    // ============ SENDING ============
+
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.queue.then(task, task);
+        this.queue = run.catch(() => { });
+        return run;
+    }
+
+    private async sendFirst(tx: ManagedTx, report: TxReporter): Promise<void> {
+        const request: TransactionRequest = { from: tx.from, to: tx.to, data: tx.data, value: BigInt(tx.value) };
+
+        const [estimate, feeData] = await Promise.all([
+            this.provider.estimateGas(request),
+            this.provider.getFeeData()
+        ]);
+        tx.gasLimit = ((estimate * GAS_LIMIT_PERCENT) / 100n).toString();
+        if (feeData.maxFeePerGas !== null) {
+            tx.maxFeePerGas = feeData.maxFeePerGas.toString();
+            tx.maxPriorityFeePerGas = (feeData.maxPriorityFeePerGas ?? 0n).toString();
+        } else {
+            tx.gasPrice = (feeData.gasPrice ?? 0n).toString();
+        }
+
+        tx.nonce = await this.reserveNonce();
+        try {
+            await this.broadcast(tx);
+        } catch (error) {
+            this.nextNonce = null; // Re-read from the chain next time
+            throw error;
+        }
+        report(`${tx.label}: sent ${shortHash(tx.txHash)} (nonce ${tx.nonce}, ${this.describeFee(tx)})`, tx);
+    }
+
+    private async reserveNonce(): Promise<number> {
+        const chainNonce = await this.provider.getTransactionCount(this.wallet.address, 'pending');
+        const persisted = this.getPending()
+            .filter(tx => tx.nonce !== null && tx.from.toLowerCase() === this.wallet.address.toLowerCase())
+            .map(tx => tx.nonce! + 1);
+        const nonce = Math.max(chainNonce, this.nextNonce ?? 0, ...persisted);
+        this.nextNonce = nonce + 1;
+        return nonce;
+    }
+
+    /**
+     * Sign and send the current parameters (same nonce for replacements)
+     */
+    private async broadcast(tx: ManagedTx): Promise<void> {
+        const request: TransactionRequest = {
+            to: tx.to,
+            data: tx.data,
+            value: BigInt(tx.value),
+            nonce: tx.nonce!,
+            gasLimit: BigInt(tx.gasLimit!),
+            chainId: tx.chainId
+        };
+        if (tx.maxFeePerGas !== null) {
+            request.maxFeePerGas = BigInt(tx.maxFeePerGas);
+            request.maxPriorityFeePerGas = BigInt(tx.maxPriorityFeePerGas!);
+        } else {
+            request.gasPrice = BigInt(tx.gasPrice!);
+        }
+
+        const sent = await this.wallet.sendTransaction(request);
+        tx.hashes.push(sent.hash);
+        tx.txHash = sent.hash;
+        tx.attempts += 1;
+        tx.status = 'SENT';
+        tx.updatedAt = Date.now();
+        this.persist(tx);
+    }
+
+    private async replace(tx: ManagedTx): Promise<void> {
+        const feeData = await this.provider.getFeeData();
+        if (tx.maxFeePerGas !== null) {
+            tx.maxFeePerGas = bump(tx.maxFeePerGas, feeData.maxFeePerGas);
+            tx.maxPriorityFeePerGas = bump(tx.maxPriorityFeePerGas, feeData.maxPriorityFeePerGas);
+        } else {
+            tx.gasPrice = bump(tx.gasPrice, feeData.gasPrice);
+        }
+        await this.enqueue(() => this.broadcast(tx));
+    }
+
+    // ============ WATCHING ============
+
+    private async watch(tx: ManagedTx, report: TxReporter): Promise<ManagedTx> {
+        this.watching.add(tx.id);
+        try {
+            while (!isFinal(tx.status)) {
+                const receipt = await this.waitForAttempt(tx.txHash!) || await this.findReceipt(tx);
+                if (receipt) {
+                    this.settle(tx, receipt, report);
+                    break;
+                }
+
+                // Nonce used up, but by none of our attempts (re-checked for a late receipt)
+                const mined = await this.provider.getTransactionCount(tx.from, 'latest');
+                if (mined > tx.nonce!) {
+                    const late = await this.findReceipt(tx);
+                    if (late) {
+                        this.settle(tx, late, report);
+                        break;
+                    }
+                    this.finish(tx, 'DROPPED', `Nonce ${tx.nonce} used by another transaction`);
+                    report(`${tx.label}: dropped - ${tx.error}`, tx);
+                    break;
+                }
+
+                if (tx.attempts > MAX_BUMPS) {
+                    report(`${tx.label}: still pending after ${tx.attempts} attempts - will keep watching on next load`, tx);
+                    break;
+                }
+
+                try {
+                    await this.replace(tx);
+                    report(`${tx.label}: stuck, replaced with ${shortHash(tx.txHash)} (${this.describeFee(tx)})`, tx);
+                } catch (error: any) {
+                    // Usually "nonce too low": an earlier attempt was just mined
+                    console.warn('[TxManager] Replacement not sent:', error.shortMessage || error.message);
+                    if (!(await this.findReceipt(tx))) {
+                        tx.attempts += 1;
+                        if (tx.attempts > MAX_BUMPS) break;
+                    }
+                }
+            }
+        } finally {
+            this.watching.delete(tx.id);
+        }
+        return tx;
+    }
+
+    private async waitForAttempt(hash: string): Promise<TransactionReceipt | null> {
+        try {
+            return await this.provider.waitForTransaction(hash, 1, STUCK_AFTER_MS);
+        } catch (error: any) {
+            if (error.code !== 'TIMEOUT') {
+                console.warn('[TxManager] Wait failed:', error.shortMessage || error.message);
+            }
+            return null;
+        }
+    }
+
+    /**
+     * Receipt of whichever attempt got mined, if any
+     */
+    private async findReceipt(tx: ManagedTx): Promise<TransactionReceipt | null> {
+        for (const hash of [...tx.hashes].reverse()) {
+            const receipt = await this.provider.getTransactionReceipt(hash);
+            if (receipt) return receipt;
+        }
+        return null;
+    }
+
+    private settle(tx: ManagedTx, receipt: TransactionReceipt, report: TxReporter): void {
+        tx.txHash = receipt.hash;
+        tx.blockNumber = receipt.blockNumber;
+        if (receipt.status === 1) {
+            this.finish(tx, 'CONFIRMED', null);
+            report(`${tx.label}: confirmed ${shortHash(tx.txHash)} in block ${tx.blockNumber}`, tx);
+        } else {
+            this.finish(tx, 'REVERTED', 'Transaction reverted');
+            report(`${tx.label}: reverted ${shortHash(tx.txHash)}`, tx);
+        }
+    }
+
+    private finish(tx: ManagedTx, status: TxStatus, error: string | null): void {
+        tx.status = status;
+        tx.error = error;
+        tx.updatedAt = Date.now();
+        this.persist(tx);
+    }
+
+    private describeFee(tx: ManagedTx): string {
+        const fee = tx.maxFeePerGas ?? tx.gasPrice;
+        return fee !== null ? `${parseFloat(formatUnits(fee, 'gwei')).toFixed(3)} gwei` : 'default fee';
+    }
+
+    // ============ STORAGE ============
+
+    /**
+     * Merge stored pending transactions into memory (this session's copy wins)
+     */
+    private async load(): Promise<void> {
+        try {
+            const saved = await this.storage.get(PENDING_TXS_KEY);
+            const parsed = saved ? JSON.parse(saved) as ManagedTx[] : [];
+            if (Array.isArray(parsed)) {
+                parsed
+                    .filter(tx => !isFinal(tx.status) && !this.pending.has(tx.id))
+                    .forEach(tx => this.pending.set(tx.id, tx));
+            }
+        } catch (e) {
+            // Locked or corrupted - nothing to resume yet
+        }
+    }
+
+    /**
+     * Rebuild transactions known only by their hashes (sent while the store
+     * was locked) from the chain. Ones the chain no longer knows were never
+     * mined: the caller's retry re-sends from fresh balances.
+     */
+    private async recoverSealed(): Promise<void> {
+        let groups: string[][];
+        try {
+            const saved = await this.plainStorage.get(PENDING_TX_HASHES_KEY);
+            groups = saved ? JSON.parse(saved) : [];
+            if (!Array.isArray(groups)) return;
+        } catch (e) {
+            return; // Corrupted - overwritten by the next save
+        }
+
+        const known = new Set(Array.from(this.pending.values()).flatMap(tx => tx.hashes));
+        for (const hashes of groups.filter(group => Array.isArray(group) && !group.some(hash => known.has(hash)))) {
+            for (const hash of [...hashes].reverse()) {
+                const sent = await this.provider.getTransaction(hash).catch(() => null);
+                if (!sent) continue;
+                const now = Date.now();
+                const id = `TX-${now}-${Math.random().toString(36).slice(2, 6)}`;
+                this.pending.set(id, {
+                    id,
+                    label: 'Recovered transaction',
+                    chainId: Number(sent.chainId),
+                    from: sent.from,
+                    to: sent.to || '',
+                    data: sent.data,
+                    value: sent.value.toString(),
+                    nonce: sent.nonce,
+                    gasLimit: sent.gasLimit.toString(),
+                    maxFeePerGas: sent.maxFeePerGas?.toString() ?? null,
+                    maxPriorityFeePerGas: sent.maxPriorityFeePerGas?.toString() ?? null,
+                    gasPrice: sent.maxFeePerGas === null ? sent.gasPrice?.toString() ?? null : null,
+                    hashes: hashes.filter(hash => typeof hash === 'string'),
+                    txHash: hash,
+                    attempts: hashes.length,
+                    status: 'SENT',
+                    blockNumber: null,
+                    error: null,
+                    createdAt: now,
+                    updatedAt: now
+                });
+                break;
+            }
+        }
+    }
+
+    /**
+     * Keep only pending transactions: final ones are dropped from storage
+     */
+    private persist(tx: ManagedTx): void {
+        if (isFinal(tx.status)) {
+            this.pending.delete(tx.id);
+        } else {
+            this.pending.set(tx.id, tx);
+        }
+        this.save();
+    }
+
+    private save(): void {
+        const snapshot = JSON.stringify(Array.from(this.pending.values()));
+        const hashes = JSON.stringify(Array.from(this.pending.values()).map(tx => tx.hashes).filter(group => group.length > 0));
+        const empty = this.pending.size === 0;
+        this.writes = this.writes
+            .then(async () => {
+                try {
+                    await (empty ? this.storage.remove(PENDING_TXS_KEY) : this.storage.set(PENDING_TXS_KEY, snapshot));
+                } catch (e) {
+                    // Store locked - only the hashes, enough to find the transactions again after a reload
+                    await (empty ? this.plainStorage.remove(PENDING_TX_HASHES_KEY) : this.plainStorage.set(PENDING_TX_HASHES_KEY, hashes));
+                    return;
+                }
+                await this.plainStorage.remove(PENDING_TX_HASHES_KEY);
+            })
+            .catch(() => {
+                // Storage unavailable - kept in memory, written with the next change or resume
+            });
+    }
+}
+
+export default TransactionManager;
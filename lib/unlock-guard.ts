@@ -0,0 +1,193 @@
+/**
+ * Unlock Guard - brute-force lockout for secret codes
+ *
+ * Counts failed code attempts (sequences that match nothing and don't look
+ * like a sum, see CommandRegistry.isFailedAttempt). Once the configured
+ * number is reached within the attempt window, a lockout starts and the
+ * chosen response applies to unlock codes until it ends:
+ * - DISABLE: unlock codes silently behave like plain arithmetic
+ * - DURESS: unlock codes open the decoy
+ * A failed attempt itself always stays plain arithmetic.
+ *
+ * Each lockout doubles the previous one (exponential back-off). The
+ * calculator display never changes, so nothing reveals the lockout.
+ */
+
+import { MathOsCommand } from './command-registry';
+
+// ============ TYPES ============
+
+export type LockoutResponse = 'DISABLE' | 'DURESS';
+
+export interface LockoutConfig {
+    maxAttempts: number;
+    response: LockoutResponse;
+    baseLockoutMs: number;
+}
+
+interface LockoutState {
+    failures: number;
+    lastFailureAt: number;
+    lockouts: number;       // Consecutive lockouts, drives the back-off
+    lockedUntil: number;
+}
+
+// ============ CONSTANTS ============
+
+const CONFIG_KEY = 'athena_lockout_config';
+const STATE_KEY = 'athena_lockout_state';
+
+const ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+
+// Commands that open the real dashboard - the only ones a lockout blocks.
+// SOS, duress and wipe must keep working no matter what.
+const UNLOCK_COMMANDS: MathOsCommand[] = ['LOGIN', 'GENESIS'];
+
+export const LOCKOUT_RESPONSE_LABELS: Record<LockoutResponse, string> = {
+    DISABLE: 'Silently disable unlocking for a while',
+    DURESS: 'Unlocking during the lockout opens the decoy'
+};
+
+export const DEFAULT_LOCKOUT_CONFIG: LockoutConfig = {
+    maxAttempts: 5,
+    response: 'DISABLE',
+    baseLockoutMs: 5 * 60 * 1000
+};
+
+const EMPTY_STATE: LockoutState = {
+    failures: 0,
+    lastFailureAt: 0,
+    lockouts: 0,
+    lockedUntil: 0
+};
+
+// ============ CONFIG ============
+
+export function getLockoutConfig(): LockoutConfig {
+    try {
+        if (typeof localStorage !== 'undefined') {
+            const saved = localStorage.getItem(CONFIG_KEY);
+            if (saved) {
+                return { ...DEFAULT_LOCKOUT_CONFIG, ...JSON.parse(saved) };
+            }
+        }
+    } catch (e) {
+        // Corrupted config - use defaults
+    }
+    return { ...DEFAULT_LOCKOUT_CONFIG };
+}
+
+export function saveLockoutConfig(config: LockoutConfig): void {
+    try {
+        if (typeof localStorage !== 'undefined') {
+            localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+        }
+    } catch (e) {
+        // Storage might be unavailable
+    }
+}
+
+// ============ GUARD CLASS ============
+
+export class UnlockGuard {
+    private state: LockoutState;
+
+    constructor(private now: () => number = Date.now) {
+        this.state = this.load();
+    }
+
+    /**
+     * Record a failed attempt, starting a lockout once too many pile up
+     */
+    recordFailedAttempt(): void {
+        const config = getLockoutConfig();
+        const now = this.now();
+
+        // Old failures expire
+        if (now - this.state.lastFailureAt > ATTEMPT_WINDOW_MS) {
+            this.state.failures = 0;
+        }
+
+        this.state.failures += 1;
+        this.state.lastFailureAt = now;
+
+        if (this.state.failures < config.maxAttempts) {
+            this.persist();
+            return;
+        }
+
+        const duration = Math.min(config.baseLockoutMs * Math.pow(2, this.state.lockouts), MAX_LOCKOUT_MS);
+        this.state = {
+            failures: 0,
+            lastFailureAt: now,
+            lockouts: this.state.lockouts + 1,
+            lockedUntil: now + duration
+        };
+        this.persist();
+
+        console.log(`[UnlockGuard] Lockout #${this.state.lockouts} for ${Math.round(duration / 1000)}s`);
+    }
+
+    /**
+     * Apply the lockout to a matched command. Returns the command to run,
+     * or null when it must look like ordinary arithmetic.
+     */
+    filter(command: MathOsCommand): MathOsCommand | null {
+        if (!UNLOCK_COMMANDS.includes(command)) {
+            return command;
+        }
+
+        if (this.isLockedOut()) {
+            return getLockoutConfig().response === 'DURESS' ? 'DURESS' : null;
+        }
+
+        // Genuine unlock: start over
+        this.state = { ...EMPTY_STATE };
+        this.persist();
+        return command;
+    }
+
+    isLockedOut(): boolean {
+        return this.now() < this.state.lockedUntil;
+    }
+
+    // ============ PERSISTENCE ============
+
+    private load(): LockoutState {
+        try {
+            if (typeof localStorage !== 'undefined') {
+                const saved = localStorage.getItem(STATE_KEY);
+                if (saved) {
+                    return { ...EMPTY_STATE, ...JSON.parse(saved) };
+                }
+            }
+        } catch (e) {
+            // Corrupted state - start clean
+        }
+        return { ...EMPTY_STATE };
+    }
+
+    private persist(): void {
+        try {
+            if (typeof localStorage !== 'undefined') {
+                localStorage.setItem(STATE_KEY, JSON.stringify(this.state));
+            }
+        } catch (e) {
+            // Storage might be unavailable
+        }
+    }
+}
+
+// ============ SINGLETON INSTANCE ============
+
+let unlockGuardInstance: UnlockGuard | null = null;
+
+export const getUnlockGuard = (): UnlockGuard => {
+    if (!unlockGuardInstance) {
+        unlockGuardInstance = new UnlockGuard();
+    }
+    return unlockGuardInstance;
+};
+
+export default UnlockGuard;
@@ -1,11 +1,14 @@
 /**
  * React Hook for Athena Agent
- * Provides easy access to agent functionality in React components
+ * Provides easy access to agent functionality in React components.
+ * All components share the agent's state (via its events) and one vault poller.
  */
 
 import { useState, useEffect, useCallback } from 'react';
 import { getAthenaAgent, AthenaAgent, AgentState, EvidenceRecord, EscapePlan, YieldOptimizationResult } from './athena-agent';
-import { VaultState, SOSResult } from './frax-service';
+import { VaultState, SOSResult, SOSOptions } from './frax-service';
+import { getVaultPoller } from './vault-poller';
+import { BudgetInput } from './budget-engine';
 
 interface UseAthenaAgentReturn {
     // State
@@ -20,64 +23,48 @@ interface UseAthenaAgentReturn {
     createCase: () => Promise<void>;
     secureEvidence: (content: string, type: 'TEXT' | 'IMAGE' | 'AUDIO' | 'VIDEO', metadata?: any) => Promise<EvidenceRecord>;
     optimizeYield: () => Promise<YieldOptimizationResult>;
-    triggerSOS: (address: string) => Promise<SOSResult>;
-    calculateBudget: (params: { dependents: number; destination: string; hasOwnMoney: boolean; riskLevel: number }) => EscapePlan;
+    triggerSOS: (address: string, options?: SOSOptions) => Promise<SOSResult>;
+    calculateBudget: (params: BudgetInput) => EscapePlan;
     quickBalance: () => Promise<string>;
     clearState: () => void;
 }
 
 export const useAthenaAgent = (): UseAthenaAgentReturn => {
     const [agent] = useState<AthenaAgent>(() => getAthenaAgent());
-    const [agentState, setAgentState] = useState<AgentState>(agent.getState());
-    const [vaultState, setVaultState] = useState<VaultState | null>(null);
+    const [agentState, setAgentState] = useState<AgentState>(() => agent.getState());
     const [isLoading, setIsLoading] = useState(false);
+    const vaultState = agentState.vaultState;
 
-    // Initial load
+    // The agent is the single source of truth (lock and wipe included)
     useEffect(() => {
-        const init = async () => {
-            setIsLoading(true);
-            try {
-                const state = await agent.perceiveFinancialState();
-                setVaultState(state);
-                setAgentState(agent.getState());
-            } catch (e) {
-                console.error('[useAthenaAgent] Init failed:', e);
-            } finally {
-                setIsLoading(false);
-            }
-        };
-        init();
+        setAgentState(agent.getState());
+        return agent.subscribe('stateChanged', setAgentState);
     }, [agent]);
 
-    // Auto-refresh vault state every 30 seconds
+    // Initial load + shared 30s auto-refresh
     useEffect(() => {
-        const interval = setInterval(async () => {
-            try {
-                const state = await agent.perceiveFinancialState();
-                setVaultState(state);
-            } catch (e) {
-                // Silent fail on background refresh
-            }
-        }, 30000);
-
-        return () => clearInterval(interval);
+        const poller = getVaultPoller();
+        const release = poller.acquire();
+
+        setIsLoading(true);
+        poller.refresh()
+            .catch(e => console.error('[useAthenaAgent] Init failed:', e))
+            .finally(() => setIsLoading(false));
+
+        return release;
     }, [agent]);
 
     const refreshVaultState = useCallback(async (): Promise<VaultState> => {
         setIsLoading(true);
         try {
-            const state = await agent.perceiveFinancialState();
-            setVaultState(state);
-            setAgentState(agent.getState());
-            return state;
+            return await getVaultPoller().refresh();
         } finally {
             setIsLoading(false);
         }
-    }, [agent]);
+    }, []);
 
     const createCase = useCallback(async (): Promise<void> => {
         await agent.createAnonymousCase();
-        setAgentState(agent.getState());
     }, [agent]);
 
     const secureEvidence = useCallback(async (
@@ -87,9 +74,7 @@ export const useAthenaAgent = (): UseAthenaAgentReturn => {
     ): Promise<EvidenceRecord> => {
         setIsLoading(true);
         try {
-            const record = await agent.secureEvidence(content, type, metadata);
-            setAgentState(agent.getState());
-            return record;
+            return await agent.secureEvidence(content, type, metadata);
         } finally {
             setIsLoading(false);
         }
@@ -106,22 +91,12 @@ export const useAthenaAgent = (): UseAthenaAgentReturn => {
         }
     }, [agent, refreshVaultState]);
 
-    const triggerSOS = useCallback(async (address: string): Promise<SOSResult> => {
-        const result = await agent.triggerSOS(address);
-        setAgentState(agent.getState());
-        setVaultState(null);
-        return result;
+    const triggerSOS = useCallback((address: string, options?: SOSOptions): Promise<SOSResult> => {
+        return agent.triggerSOS(address, options);
     }, [agent]);
 
-    const calculateBudget = useCallback((params: {
-        dependents: number;
-        destination: string;
-        hasOwnMoney: boolean;
-        riskLevel: number;
-    }): EscapePlan => {
-        const plan = agent.calculateFreedomBudget(params);
-        setAgentState(agent.getState());
-        return plan;
+    const calculateBudget = useCallback((params: BudgetInput): EscapePlan => {
+        return agent.calculateFreedomBudget(params);
     }, [agent]);
 
     const quickBalance = useCallback(async (): Promise<string> => {
@@ -131,8 +106,6 @@ export const useAthenaAgent = (): UseAthenaAgentReturn => {
 
     const clearState = useCallback((): void => {
         agent.clearLocalState();
-        setAgentState(agent.getState());
-        setVaultState(null);
     }, [agent]);
 
     return {
@@ -0,0 +1,81 @@
+/**
+ * Vault Poller
+ *
+ * One background refresh of the vault state for the whole app. Every
+ * component using useAthenaAgent() acquires the poller; the interval runs
+ * while at least one of them is mounted. Results reach the components
+ * through the agent's vaultUpdated event, so there is one RPC round per
+ * tick no matter how many views are open.
+ */
+
+import { getAthenaAgent, AthenaAgent } from './athena-agent';
+import { VaultState } from './frax-service';
+
+// ============ CONSTANTS ============
+
+const POLL_INTERVAL_MS = 30000;
+
+// ============ POLLER CLASS ============
+
+export class VaultPoller {
+    private users = 0;
+    private interval: ReturnType<typeof setInterval> | null = null;
+    private inFlight: Promise<VaultState> | null = null;
+
+    constructor(private agent: AthenaAgent = getAthenaAgent(), private intervalMs = POLL_INTERVAL_MS) { }
+
+    /**
+     * Start polling (if not already running). Returns a release function.
+     */
+    acquire(): () => void {
+        this.users++;
+        if (!this.interval) {
+            this.interval = setInterval(() => this.tick(), this.intervalMs);
+        }
+
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+            this.users--;
+            if (this.users === 0 && this.interval) {
+                clearInterval(this.interval);
+                this.interval = null;
+            }
+        };
+    }
+
+    /**
+     * Refresh now. Concurrent callers share the same request.
+     */
+    refresh(): Promise<VaultState> {
+        if (!this.inFlight) {
+            this.inFlight = this.agent.perceiveFinancialState().finally(() => {
+                this.inFlight = null;
+            });
+        }
+        return this.inFlight;
+    }
+
+    private async tick(): Promise<void> {
+        if (this.agent.isLocked()) return;
+        try {
+            await this.refresh();
+        } catch (e) {
+            // Silent fail on background refresh
+        }
+    }
+}
+
+// ============ SINGLETON INSTANCE ============
+
+let vaultPollerInstance: VaultPoller | null = null;
+
+export const getVaultPoller = (): VaultPoller => {
+    if (!vaultPollerInstance) {
+        vaultPollerInstance = new VaultPoller();
+    }
+    return vaultPollerInstance;
+};
+
+export default VaultPoller;
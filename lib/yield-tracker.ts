@@ -0,0 +1,225 @@
+/**
+ * Yield Tracker
+ *
+ * Derives the vault's real APY from its ERC-4626 share price. FraxService
+ * samples convertToAssets(1 share) as it reads the vault; the samples are
+ * stored per vault (chain + sFRAX address) and the trailing 7-day and 30-day
+ * APYs are annualized from the price change across each window.
+ *
+ * A window only counts once the samples span at least half of it; until
+ * then the best shorter figure is used, and with under a day of history the
+ * caller's estimate - so the figure is always labelled with its basis.
+ */
+
+// ============ TYPES ============
+
+export interface YieldSample {
+    at: number;     // Timestamp (ms)
+    price: number;  // FRAX per sFRAX share
+}
+
+export type YieldBasis = 'TRAILING_30D' | 'TRAILING_7D' | 'SHORT' | 'ESTIMATE';
+
+export interface YieldStats {
+    apy: number;            // Best available figure (percent)
+    apy7d: number | null;
+    apy30d: number | null;
+    basis: YieldBasis;
+    sampleCount: number;
+    sampledSince: number | null;
+}
+
+export interface YieldHistoryPoint {
+    at: number;
+    price: number;
+    yieldPercent: number;   // Share price growth since the first point shown
+}
+
+export interface YieldTrackerOptions {
+    persist?: boolean;      // false for the session-only simulated ledger
+    now?: () => number;
+}
+
+export const YIELD_BASIS_LABELS: Record<YieldBasis, string> = {
+    TRAILING_30D: '30-day',
+    TRAILING_7D: '7-day',
+    SHORT: 'since first sample',
+    ESTIMATE: 'estimate'
+};
+
+// ============ CONSTANTS ============
+
+const STORAGE_KEY = 'athena_yield_samples';
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const YEAR_MS = 365 * DAY_MS;
+
+const SAMPLE_INTERVAL_MS = HOUR_MS;   // At most one sample per hour
+const RETENTION_MS = 90 * DAY_MS;
+const MIN_SHORT_SPAN_MS = DAY_MS;
+
+export const DEFAULT_APY = 5.4;
+
+// ============ MATH ============
+
+const annualize = (from: YieldSample, to: YieldSample): number => {
+    const span = to.at - from.at;
+    return (Math.pow(to.price / from.price, YEAR_MS / span) - 1) * 100;
+};
+
+const roundApy = (apy: number): number => Math.round(apy * 100) / 100;
+
+/**
+ * Trailing APY over a window ending at the latest sample, or null while the
+ * samples cover less than half of the window. Pure.
+ */
+export function computeTrailingApy(samples: YieldSample[], windowMs: number): number | null {
+    if (samples.length < 2) return null;
+    const latest = samples[samples.length - 1];
+    const first = samples.find(sample => sample.at >= latest.at - windowMs);
+    if (!first || latest.at - first.at < windowMs / 2) return null;
+    return roundApy(annualize(first, latest));
+}
+
+/**
+ * Monthly yield on a principal at an APY (compounded, same units as principal)
+ */
+export function projectMonthlyYield(principal: number, apyPercent: number): number {
+    return principal * (Math.pow(1 + apyPercent / 100, 1 / 12) - 1);
+}
+
+// ============ TRACKER CLASS ============
+
+export class YieldTracker {
+    private readonly source: string;
+    private readonly persist: boolean;
+    private readonly now: () => number;
+    private samples: YieldSample[];
+
+    constructor(source: string, options: YieldTrackerOptions = {}) {
+        this.source = source;
+        this.persist = options.persist ?? true;
+        this.now = options.now || Date.now;
+        this.samples = this.persist ? this.load() : [];
+    }
+
+    /**
+     * Add a share price sample. Samples closer than an hour to an existing
+     * one are dropped; older ones (backfill) are inserted in order.
+     */
+    record(price: number, at: number = this.now()): boolean {
+        if (!(price > 0) || !isFinite(price)) return false;
+        if (this.samples.some(sample => Math.abs(sample.at - at) < SAMPLE_INTERVAL_MS)) return false;
+
+        this.samples.push({ at, price });
+        this.samples.sort((a, b) => a.at - b.at);
+        const cutoff = this.now() - RETENTION_MS;
+        this.samples = this.samples.filter(sample => sample.at >= cutoff);
+        this.save();
+        return true;
+    }
+
+    /**
+     * Whether the samples reach back at least `ms` from now
+     */
+    covers(ms: number): boolean {
+        return this.samples.length > 0 && this.samples[0].at <= this.now() - ms;
+    }
+
+    getStats(fallbackApy: number = DEFAULT_APY): YieldStats {
+        const apy7d = computeTrailingApy(this.samples, 7 * DAY_MS);
+        const apy30d = computeTrailingApy(this.samples, 30 * DAY_MS);
+
+        let apy = fallbackApy;
+        let basis: YieldBasis = 'ESTIMATE';
+        if (apy30d !== null) {
+            apy = apy30d;
+            basis = 'TRAILING_30D';
+        } else if (apy7d !== null) {
+            apy = apy7d;
+            basis = 'TRAILING_7D';
+        } else if (this.samples.length >= 2) {
+            const first = this.samples[0];
+            const latest = this.samples[this.samples.length - 1];
+            if (latest.at - first.at >= MIN_SHORT_SPAN_MS) {
+                apy = roundApy(annualize(first, latest));
+                basis = 'SHORT';
+            }
+        }
+
+        return {
+            apy,
+            apy7d,
+            apy30d,
+            basis,
+            sampleCount: this.samples.length,
+            sampledSince: this.samples.length > 0 ? this.samples[0].at : null
+        };
+    }
+
+    /**
+     * Share price growth over the last `days`, for charting
+     */
+    getHistory(days: number = 30): YieldHistoryPoint[] {
+        const cutoff = this.now() - days * DAY_MS;
+        const window = this.samples.filter(sample => sample.at >= cutoff);
+        if (window.length === 0) return [];
+        const base = window[0].price;
+        return window.map(sample => ({
+            at: sample.at,
+            price: sample.price,
+            yieldPercent: (sample.price / base - 1) * 100
+        }));
+    }
+
+    /**
+     * Drop the samples of every source, in memory and stored (wipe)
+     */
+    clear(): void {
+        this.samples = [];
+        if (!this.persist) return;
+        try {
+            if (typeof localStorage !== 'undefined') {
+                localStorage.removeItem(STORAGE_KEY);
+            }
+        } catch (e) {
+            // Storage might be unavailable
+        }
+    }
+
+    // ============ STORAGE ============
+
+    private readAll(): Record<string, YieldSample[]> {
+        try {
+            if (typeof localStorage !== 'undefined') {
+                const saved = localStorage.getItem(STORAGE_KEY);
+                if (saved) {
+                    return JSON.parse(saved) as Record<string, YieldSample[]>;
+                }
+            }
+        } catch (e) {
+            // Corrupted samples - start fresh
+        }
+        return {};
+    }
+
+    private load(): YieldSample[] {
+        const samples = this.readAll()[this.source];
+        return Array.isArray(samples) ? samples.filter(s => s.price > 0).sort((a, b) => a.at - b.at) : [];
+    }
+
+    private save(): void {
+        if (!this.persist) return;
+        try {
+            if (typeof localStorage !== 'undefined') {
+                const all = this.readAll();
+                all[this.source] = this.samples;
+                localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+            }
+        } catch (e) {
+            // Storage might be unavailable
+        }
+    }
+}
+
+export default YieldTracker;
@@ -0,0 +1,60 @@
+/**
+ * Compile DeadManSwitch.sol using solc-js
+ * Run: node scripts/compile-dead-man-switch.cjs
+ *
+ * Output: contracts/DeadManSwitch.json with { abi, bytecode }
+ */
+
+const solc = require('solc');
+const fs = require('fs');
+const path = require('path');
+
+const contractPath = path.join(__dirname, '../contracts/DeadManSwitch.sol');
+
+// Solc input
+const input = {
+    language: 'Solidity',
+    sources: {
+        'DeadManSwitch.sol': {
+            content: fs.readFileSync(contractPath, 'utf8')
+        }
+    },
+    settings: {
+        outputSelection: {
+            '*': {
+                '*': ['abi', 'evm.bytecode.object']
+            }
+        },
+        optimizer: {
+            enabled: true,
+            runs: 200
+        },
+        evmVersion: 'paris' // Runs on older Hardhat/Anvil nodes too
+    }
+};
+
+console.log('🔧 Compiling DeadManSwitch.sol...\n');
+
+const output = JSON.parse(solc.compile(JSON.stringify(input)));
+
+// Check for errors
+if (output.errors) {
+    output.errors.forEach(err => {
+        if (err.severity === 'error') {
+            console.error('❌ Error:', err.formattedMessage || err.message);
+            process.exit(1);
+        } else {
+            console.warn('⚠️ Warning:', err.message);
+        }
+    });
+}
+
+const contract = output.contracts['DeadManSwitch.sol']['DeadManSwitch'];
+const artifactPath = path.join(__dirname, '../contracts/DeadManSwitch.json');
+fs.writeFileSync(artifactPath, JSON.stringify({
+    abi: contract.abi,
+    bytecode: contract.evm.bytecode.object
+}, null, 2));
+console.log(`✅ DeadManSwitch saved to: ${artifactPath} (${contract.evm.bytecode.object.length / 2} bytes)`);
+
+console.log('\n📋 Deploy locally with: node scripts/deploy-local.cjs');
@@ -0,0 +1,69 @@
+/**
+ * Compile the local devnet mocks (MockERC20, MockERC4626, MockSwapRouter) using solc-js
+ * Run: node scripts/compile-mocks.cjs
+ *
+ * Output: contracts/mocks/<Name>.json with { abi, bytecode }
+ */
+
+const solc = require('solc');
+const fs = require('fs');
+const path = require('path');
+
+const mocksDir = path.join(__dirname, '../contracts/mocks');
+const CONTRACTS = ['MockERC20', 'MockERC4626', 'MockSwapRouter'];
+
+// Solc input (imports resolve inside contracts/mocks)
+const input = {
+    language: 'Solidity',
+    sources: Object.fromEntries(CONTRACTS.map(name => [
+        `${name}.sol`,
+        { content: fs.readFileSync(path.join(mocksDir, `${name}.sol`), 'utf8') }
+    ])),
+    settings: {
+        outputSelection: {
+            '*': {
+                '*': ['abi', 'evm.bytecode.object']
+            }
+        },
+        optimizer: {
+            enabled: true,
+            runs: 200
+        },
+        evmVersion: 'paris' // Runs on older Hardhat/Anvil nodes too
+    }
+};
+
+const findImports = (importPath) => {
+    const file = path.join(mocksDir, importPath);
+    return fs.existsSync(file)
+        ? { contents: fs.readFileSync(file, 'utf8') }
+        : { error: `File not found: ${importPath}` };
+};
+
+console.log('🔧 Compiling devnet mocks...\n');
+
+const output = JSON.parse(solc.compile(JSON.stringify(input), { import: findImports }));
+
+// Check for errors
+if (output.errors) {
+    output.errors.forEach(err => {
+        if (err.severity === 'error') {
+            console.error('❌ Error:', err.formattedMessage || err.message);
+            process.exit(1);
+        } else {
+            console.warn('⚠️ Warning:', err.message);
+        }
+    });
+}
+
+CONTRACTS.forEach(name => {
+    const contract = output.contracts[`${name}.sol`][name];
+    const artifactPath = path.join(mocksDir, `${name}.json`);
+    fs.writeFileSync(artifactPath, JSON.stringify({
+        abi: contract.abi,
+        bytecode: contract.evm.bytecode.object
+    }, null, 2));
+    console.log(`✅ ${name} saved to: ${artifactPath} (${contract.evm.bytecode.object.length / 2} bytes)`);
+});
+
+console.log('\n📋 Mocks compiled. Deploy with: node scripts/deploy-local.cjs');
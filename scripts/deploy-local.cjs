@@ -0,0 +1,131 @@
+/**
+ * Deploy the devnet mocks (FRAX, USDC, sFRAX, swap router) and the dead man's
+ * switch to a local Anvil/Hardhat node and fund the app wallet, so the vault,
+ * SOS and evidence paths run offline.
+ *
+ * Run:
+ *   anvil                                      (or: npx hardhat node)
+ *   node scripts/compile-mocks.cjs             (once)
+ *   node scripts/compile-dead-man-switch.cjs   (once)
+ *   node scripts/deploy-local.cjs
+ *
+ * Then start the app with CHAIN_NETWORK=local.
+ *
+ * On a fresh node the contracts land on the addresses baked into the
+ * "local" profile (lib/chain-config.ts). Otherwise the script prints the
+ * addresses to put in the chain config.
+ */
+
+const { ethers } = require('ethers');
+const fs = require('fs');
+const path = require('path');
+
+const RPC_URL = process.env.LOCAL_RPC_URL || 'http://127.0.0.1:8545';
+
+// Well-known Anvil/Hardhat dev accounts (public keys - local use only)
+const DEPLOYER_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80'; // Account #0
+const APP_WALLET = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';                            // Account #1
+
+// Must match LOCAL_DEVNET in lib/chain-config.ts
+const EXPECTED = {
+    fraxAddress: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+    usdcAddress: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+    sFraxAddress: '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0',
+    swapRouterAddress: '0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9',
+    deadManSwitchAddress: '0xDc64a140Aa3E981100a9becA4E685f962f0cF6C9'
+};
+
+// Starting balances for the app wallet
+const LIQUID_FRAX = '250';
+const STAKED_FRAX = '1000';
+const USDC = '100';
+const SEED_YIELD_FRAX = '5'; // Minted into the vault so sFRAX is worth > 1 FRAX
+
+const loadArtifact = (name, dir = 'contracts/mocks', script = 'compile-mocks.cjs') => {
+    const artifactPath = path.join(__dirname, `../${dir}/${name}.json`);
+    if (!fs.existsSync(artifactPath)) {
+        console.error(`❌ ${name} not compiled. Run:`);
+        console.log(`   node scripts/${script}`);
+        process.exit(1);
+    }
+    return JSON.parse(fs.readFileSync(artifactPath, 'utf8'));
+};
+
+async function main() {
+    console.log('\n🧪 Local Devnet Deployment');
+    console.log('==========================\n');
+
+    const erc20 = loadArtifact('MockERC20');
+    const vault = loadArtifact('MockERC4626');
+    const router = loadArtifact('MockSwapRouter');
+    const deadMan = loadArtifact('DeadManSwitch', 'contracts', 'compile-dead-man-switch.cjs');
+
+    console.log(`Network: ${RPC_URL}`);
+    const provider = new ethers.JsonRpcProvider(RPC_URL);
+    const { chainId } = await provider.getNetwork();
+    const deployer = new ethers.NonceManager(new ethers.Wallet(DEPLOYER_KEY, provider));
+    console.log(`Chain ID: ${chainId}`);
+    console.log(`Deployer: ${await deployer.getAddress()}\n`);
+
+    // Deploy in a fixed order so a fresh node yields the expected addresses
+    const erc20Factory = new ethers.ContractFactory(erc20.abi, erc20.bytecode, deployer);
+    const frax = await (await erc20Factory.deploy('Frax (local)', 'FRAX', 18)).waitForDeployment();
+    const usdc = await (await erc20Factory.deploy('USD Coin (local)', 'USDC', 6)).waitForDeployment();
+    const sFrax = await (await new ethers.ContractFactory(vault.abi, vault.bytecode, deployer)
+        .deploy(await frax.getAddress())).waitForDeployment();
+    const swapRouter = await (await new ethers.ContractFactory(router.abi, router.bytecode, deployer)
+        .deploy()).waitForDeployment();
+    const deadManSwitch = await (await new ethers.ContractFactory(deadMan.abi, deadMan.bytecode, deployer)
+        .deploy()).waitForDeployment();
+
+    const addresses = {
+        fraxAddress: await frax.getAddress(),
+        usdcAddress: await usdc.getAddress(),
+        sFraxAddress: await sFrax.getAddress(),
+        swapRouterAddress: await swapRouter.getAddress(),
+        deadManSwitchAddress: await deadManSwitch.getAddress()
+    };
+    console.log('✅ CONTRACTS DEPLOYED');
+    console.log(`FRAX:  ${addresses.fraxAddress}`);
+    console.log(`USDC:  ${addresses.usdcAddress}`);
+    console.log(`sFRAX: ${addresses.sFraxAddress}`);
+    console.log(`Swap:  ${addresses.swapRouterAddress}`);
+    console.log(`Dead man's switch: ${addresses.deadManSwitchAddress}\n`);
+
+    // Fund the app wallet: liquid FRAX, USDC and a staked position
+    console.log(`💰 Funding app wallet ${APP_WALLET}...`);
+    const stake = ethers.parseUnits(STAKED_FRAX, 18);
+    await (await frax.mint(APP_WALLET, ethers.parseUnits(LIQUID_FRAX, 18))).wait();
+    await (await usdc.mint(APP_WALLET, ethers.parseUnits(USDC, 6))).wait();
+    await (await frax.mint(await deployer.getAddress(), stake)).wait();
+    await (await frax.approve(addresses.sFraxAddress, stake)).wait();
+    await (await sFrax.deposit(stake, APP_WALLET)).wait();
+    await (await frax.mint(addresses.sFraxAddress, ethers.parseUnits(SEED_YIELD_FRAX, 18))).wait();
+    console.log(`   ${LIQUID_FRAX} FRAX, ${USDC} USDC, ${STAKED_FRAX} FRAX staked (+${SEED_YIELD_FRAX} yield)\n`);
+
+    const matches = Object.keys(EXPECTED).every(key => EXPECTED[key].toLowerCase() === addresses[key].toLowerCase());
+    if (!matches) {
+        console.warn('⚠️ Addresses differ from the built-in "local" profile (node was not fresh).');
+        console.warn('   Save them in the chain config (localStorage "athena_chain_config"):');
+        console.warn(`   ${JSON.stringify({ network: 'local', ...addresses })}\n`);
+    }
+
+    // Save deployment info
+    const deploymentInfo = {
+        network: 'Local Devnet',
+        chainId: Number(chainId),
+        rpcUrl: RPC_URL,
+        ...addresses,
+        appWallet: APP_WALLET,
+        deployedAt: new Date().toISOString()
+    };
+
+    const deploymentPath = path.join(__dirname, '../contracts/local-deployment.json');
+    fs.writeFileSync(deploymentPath, JSON.stringify(deploymentInfo, null, 2));
+    console.log(`📋 Deployment info saved to: ${deploymentPath}`);
+}
+
+main().catch(err => {
+    console.error('❌ Deploy failed:', err.message);
+    process.exit(1);
+});
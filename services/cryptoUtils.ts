@@ -9,4 +9,88 @@ export const generateHash = async (message: string): Promise<string> => {
 // Simulate a transaction delay
 export const mockTransaction = async (ms: number = 2000) => {
   return new Promise(resolve => setTimeout(resolve, ms));
-};
\ No newline at end of file
+};
+
+export const bytesToHex = (bytes: Uint8Array): string => {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const hexToBytes = (hex: string): Uint8Array => {
+  const clean = hex.startsWith('0x') ? hex.slice(2) : hex;
+  const bytes = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.substr(i * 2, 2), 16);
+  }
+  return bytes;
+};
+
+// Random salt from the platform CSPRNG, hex encoded
+export const generateSalt = (length: number = 16): string => {
+  return bytesToHex(crypto.getRandomValues(new Uint8Array(length)));
+};
+
+// Slow salted hash (PBKDF2-SHA256) for short secrets such as calculator codes
+export const deriveSecretHash = async (
+  secret: string,
+  saltHex: string,
+  iterations: number
+): Promise<string> => {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: hexToBytes(saltHex), iterations, hash: 'SHA-256' },
+    keyMaterial,
+    256
+  );
+  return bytesToHex(new Uint8Array(bits));
+};
+
+// AES-GCM ciphertext, hex encoded
+export interface EncryptedBlob {
+  iv: string;
+  data: string;
+}
+
+// AES-256-GCM key derived from a short secret (PBKDF2-SHA256)
+export const deriveAesKey = async (
+  secret: string,
+  saltHex: string,
+  iterations: number
+): Promise<CryptoKey> => {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: hexToBytes(saltHex), iterations, hash: 'SHA-256' },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const importAesKey = (raw: Uint8Array): Promise<CryptoKey> => {
+  return crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+};
+
+export const aesGcmEncrypt = async (key: CryptoKey, plaintext: Uint8Array | string): Promise<EncryptedBlob> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const bytes = typeof plaintext === 'string' ? new TextEncoder().encode(plaintext) : plaintext;
+  const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes);
+  return { iv: bytesToHex(iv), data: bytesToHex(new Uint8Array(cipher)) };
+};
+
+// Throws when the key is wrong or the blob was tampered with
+export const aesGcmDecrypt = async (key: CryptoKey, blob: EncryptedBlob): Promise<Uint8Array> => {
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: hexToBytes(blob.iv) }, key, hexToBytes(blob.data));
+  return new Uint8Array(plain);
+};
@@ -43,7 +43,7 @@ You are NOT a chatbot - you are a trusted friend with powerful tools.
 
 FREEDOM VAULT (Vault tab):
 - Secret blockchain wallet using sFRAX stablecoin
-- Money grows 5-8% yearly automatically
+- Money earns the vault's variable yield, {{VAULT_APY}} - never promise a fixed or higher rate
 - Abuser cannot see or access it
 - HOW TO USE: "Go to the Vault tab, you'll see your balance and can deposit anytime"
 
@@ -97,15 +97,16 @@ PHASE 3 - BEFORE GENERATING PLAN:
 Summarize what you learned and explain:
 "Based on what you've told me, here's your Freedom Goal breakdown:
 - Transport for [X] people: $[amount]
-- Emergency supplies: $100
+- Emergency supplies (food, baby supplies, pets, medication): $[amount]
 - Temporary shelter: $[amount] (or $0 if staying with [contact])
 - Legal fund buffer: $[amount]
 TOTAL NEEDED: $[total]
+(The app recalculates these amounts from "budgetInputs" with regional prices, so fill those in accurately.)
 
 You can reach this goal by:
 1. Saving small amounts in your Vault (even $5 helps)
 2. Waiting for Angel donations
-3. Using secret commands to check your balance: type 9÷11= in the calculator"
+3. Using your secret Flash Balance code in the calculator to check your balance"
 
 PHASE 4 - GENERATE PLAN:
 Output JSON wrapped in markdown code block:
@@ -119,7 +120,7 @@ Output JSON wrapped in markdown code block:
     "currency": "USD",
     "breakdown": {
       "transport": number,
-      "supplies": 100,
+      "supplies": number,
       "shelter": number,
       "legal": number
     }
@@ -131,6 +132,14 @@ Output JSON wrapped in markdown code block:
   },
   "riskLevel": number,
   "destination": "string",
+  "budgetInputs": {
+    "dependents": number,
+    "dependentAges": [number],
+    "distanceKm": number,
+    "pets": number,
+    "needsMedication": boolean,
+    "hasOwnMoney": boolean
+  },
   "emergencyContact": {
     "name": "string",
     "relationship": "string",
@@ -139,7 +148,7 @@ Output JSON wrapped in markdown code block:
   },
   "nextSteps": [
     "Go to the Locker tab to start documenting any evidence",
-    "Check your Vault balance with 9÷11= command",
+    "Check your Vault balance with your Flash Balance code",
     "Set up your emergency SOS contact in Settings"
   ]
 }
@@ -155,14 +164,25 @@ Output JSON wrapped in markdown code block:
 
 
 
+// Yield line for the prompt: the vault's trailing APY when known
+const describeVaultApy = (vaultApy?: number): string =>
+  vaultApy ? `currently about ${vaultApy.toFixed(1)}% a year` : 'which changes over time';
+
+// A plan as the model writes it: budgetInputs is untrusted, see parseBudgetInputs
+export interface PlannerPlan extends EscapePlan {
+  budgetInputs?: unknown;
+}
+
 export const sendPlannerMessage = async (
   history: ChatMessage[],
-  newMessage: string
-): Promise<{ text: string; plan?: EscapePlan }> => {
+  newMessage: string,
+  vaultApy?: number
+): Promise<{ text: string; plan?: PlannerPlan }> => {
   const ai = getAI();
 
   try {
-    let conversation = `System: ${SYSTEM_PROMPT_PLANNER}\n`;
+    const systemPrompt = SYSTEM_PROMPT_PLANNER.replace('{{VAULT_APY}}', describeVaultApy(vaultApy));
+    let conversation = `System: ${systemPrompt}\n`;
     history.forEach(msg => {
       conversation += `${msg.role === 'user' ? 'User' : 'Athena'}: ${msg.text}\n`;
     });
@@ -180,7 +200,7 @@ export const sendPlannerMessage = async (
     if (jsonMatch) {
       try {
         const jsonStr = jsonMatch[1].trim();
-        const plan = JSON.parse(jsonStr) as EscapePlan;
+        const plan = JSON.parse(jsonStr) as PlannerPlan;
         return { text: "Protocol generated.", plan };
       } catch (e) {
         console.error("JSON Parse Error:", e);
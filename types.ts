@@ -2,6 +2,7 @@
 export enum AppMode {
   CALCULATOR = 'CALCULATOR',
   AGENT_DASHBOARD = 'AGENT_DASHBOARD',
+  DECOY_DASHBOARD = 'DECOY_DASHBOARD',
   ONBOARDING_CHAT = 'ONBOARDING_CHAT'
 }
 
@@ -76,6 +77,7 @@ export interface SafeContact {
   name: string;
   method: 'TRUSTED_ALLY' | 'CASH_CODE' | 'CRYPTO_WALLET';
   addressOrDetails: string;
+  preferredAsset?: 'FRAX' | 'USDC'; // SOS swaps stablecoins into this when a route exists
 }
 
 export type AgentTab = 'HOME' | 'PLAN' | 'EVIDENCE' | 'SOS';
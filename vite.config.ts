@@ -12,7 +12,12 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Public key only - the HD seed must never be bundled
+        'process.env.DEPOSIT_XPUB': JSON.stringify(env.DEPOSIT_XPUB),
+        // Chain profile (lib/chain-config.ts), e.g. CHAIN_NETWORK=local for an Anvil node
+        'process.env.CHAIN_NETWORK': JSON.stringify(env.CHAIN_NETWORK),
+        'process.env.CHAIN_RPC_URL': JSON.stringify(env.CHAIN_RPC_URL)
       },
       resolve: {
         alias: {